@@ -1,19 +1,28 @@
 import { TFile, MarkdownView, Notice } from 'obsidian';
 import { NoteSnapshot } from './types';
+import { emptyChangeMetrics, measureChanges } from './diffs';
+import { SnapshotStore } from 'services/SnapshotStore';
+import { NormalizeOptions, normalizeNote } from './normalize';
 
 export class FileManager {
     private app: any;
     private noteSnapshots: Map<string, NoteSnapshot>;
     private onFileChange: (file: TFile) => void;
+    private snapshotStore?: SnapshotStore;
+    private getNormalizeOptions: (path: string) => Promise<NormalizeOptions>;
 
     constructor(
         app: any,
         noteSnapshots: Map<string, NoteSnapshot>,
-        onFileChange: (file: TFile) => void
+        onFileChange: (file: TFile) => void,
+        snapshotStore?: SnapshotStore,
+        getNormalizeOptions: (path: string) => Promise<NormalizeOptions> = async () => ({})
     ) {
         this.app = app;
         this.noteSnapshots = noteSnapshots;
         this.onFileChange = onFileChange;
+        this.snapshotStore = snapshotStore;
+        this.getNormalizeOptions = getNormalizeOptions;
     }
 
     getCurrentFile(): TFile | null {
@@ -32,7 +41,9 @@ export class FileManager {
     async initializeFileSnapshot(file: TFile): Promise<void> {
         try {
             const content = await this.app.vault.cachedRead(file);
-            this.createOrUpdateSnapshot(file, content);
+            await this.snapshotStore?.load();
+            const options = await this.getNormalizeOptions(file.path);
+            this.createOrUpdateSnapshot(file, content, options);
             this.onFileChange(file);
         } catch (error) {
             console.error('Error initializing file snapshot:', error);
@@ -47,12 +58,11 @@ export class FileManager {
             const snapshot = this.noteSnapshots.get(fileId);
 
             if (snapshot) {
-                const oldParagraphs = this.countParagraphs(snapshot.current);
-                snapshot.current = content;
-                const newParagraphs = this.countParagraphs(content);
-                const paragraphDiff = Math.abs(newParagraphs - oldParagraphs);
-                snapshot.changeCount += paragraphDiff;
-                return paragraphDiff;
+                // Cosmetic edits (per the note's rules) count for nothing
+                const options = await this.getNormalizeOptions(fileId);
+                const editedParagraphs = measureChanges(normalizeNote(snapshot.current, options), normalizeNote(content, options)).changedParagraphs;
+                this.setCurrent(snapshot, content, options);
+                return editedParagraphs;
             }
             return 0;
         } catch (error) {
@@ -61,23 +71,30 @@ export class FileManager {
         }
     }
 
-    private countParagraphs(text: string): number {
-        // Split by double newlines or single newlines, filter out empty strings
-        const paragraphs = text.split(/\n+/).filter(p => p.trim().length > 0);
-        return paragraphs.length;
+    private setCurrent(snapshot: NoteSnapshot, content: string, options: NormalizeOptions): void {
+        snapshot.current = content;
+        snapshot.changes = measureChanges(normalizeNote(snapshot.baseline, options), normalizeNote(content, options));
+        snapshot.changeCount = snapshot.changes.changedParagraphs;
     }
 
-    private createOrUpdateSnapshot(file: TFile, content: string): void {
+    private createOrUpdateSnapshot(file: TFile, content: string, options: NormalizeOptions): void {
         const fileId = file.path;
         if (!this.noteSnapshots.has(fileId)) {
-            this.noteSnapshots.set(fileId, {
-                baseline: content,
+            // Resume from the last reviewed version if one was kept from a previous session
+            const stored = this.snapshotStore?.get(fileId)?.baseline;
+            const snapshot: NoteSnapshot = {
+                baseline: stored ?? content,
                 current: content,
-                changeCount: 0
-            });
+                changeCount: 0,
+                changes: emptyChangeMetrics()
+            };
+            this.setCurrent(snapshot, content, options);
+            this.noteSnapshots.set(fileId, snapshot);
+            if (stored === undefined) {
+                this.persistBaseline(fileId, content);
+            }
         } else {
-            const snapshot = this.noteSnapshots.get(fileId)!;
-            snapshot.current = content;
+            this.setCurrent(this.noteSnapshots.get(fileId)!, content, options);
         }
     }
 
@@ -97,6 +114,8 @@ export class FileManager {
         if (snapshot) {
             snapshot.baseline = snapshot.current;
             snapshot.changeCount = 0;
+            snapshot.changes = emptyChangeMetrics();
+            this.persistBaseline(fileId, snapshot.baseline);
         }
     }
 
@@ -105,6 +124,14 @@ export class FileManager {
         if (snapshot) {
             snapshot.baseline = snapshot.current;
             snapshot.changeCount = 0;
+            snapshot.changes = emptyChangeMetrics();
+            this.persistBaseline(file.path, snapshot.baseline);
         }
     }
+
+    private persistBaseline(path: string, baseline: string): void {
+        this.snapshotStore?.saveBaseline(path, baseline).catch(error => {
+            console.error('Error saving note snapshot:', error);
+        });
+    }
 } 
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { FeedbackAnnotation } from 'types';
+
+/** Language tag of the fenced block the critic lists its anchored comments in. */
+export const ANNOTATION_BLOCK = 'notes-critic-annotations';
+
+export const ANNOTATION_INSTRUCTIONS = `When a comment is about specific text in the note, also list it at the very end of your reply in a fenced code block tagged \`${ANNOTATION_BLOCK}\`, with one JSON object per line:
+\`\`\`${ANNOTATION_BLOCK}
+{"quote": "exact text from the note", "comment": "what to change and why"}
+{"lines": [12, 14], "comment": "a comment about lines 12 to 14 of the note as it is now"}
+\`\`\`
+Quote the note exactly and keep quotes short. Comments about the note as a whole belong in your reply, not in this block.`;
+
+/** An anchored comment as the critic wrote it, before it has been found in the note. */
+export interface RawAnnotation {
+    comment: string;
+    quote?: string;
+    lines?: [number, number]; // 1-based and inclusive
+}
+
+const BLOCK = new RegExp('```' + ANNOTATION_BLOCK + '[^\\S\\n]*\\n([\\s\\S]*?)(?:```|$)', 'g');
+
+/**
+ * Read the anchored comments out of a critic's reply. The block may hold a
+ * JSON array or one JSON object per line; entries that can't be read are skipped.
+ */
+export function parseAnnotations(response: string): RawAnnotation[] {
+    const annotations: RawAnnotation[] = [];
+    BLOCK.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = BLOCK.exec(response)) !== null) {
+        const body = match[1].trim();
+        let entries: unknown[];
+        try {
+            const parsed = JSON.parse(body);
+            entries = Array.isArray(parsed) ? parsed : [parsed];
+        } catch {
+            entries = body.split('\n').map(line => {
+                try {
+                    return JSON.parse(line.trim().replace(/,$/, ''));
+                } catch {
+                    return null;
+                }
+            });
+        }
+        annotations.push(...entries.map(toRawAnnotation).filter((a): a is RawAnnotation => a !== null));
+    }
+    return annotations;
+}
+
+function toRawAnnotation(entry: unknown): RawAnnotation | null {
+    if (!entry || typeof entry !== 'object') return null;
+
+    const { comment, quote, lines } = entry as Record<string, unknown>;
+    if (typeof comment !== 'string' || !comment.trim()) return null;
+
+    if (typeof quote === 'string' && quote.trim()) {
+        return { comment: comment.trim(), quote };
+    }
+    if (Array.isArray(lines) && lines.length > 0 && lines.every(line => Number.isInteger(line) && line > 0)) {
+        const [start, end = start] = lines as number[];
+        return { comment: comment.trim(), lines: [Math.min(start, end), Math.max(start, end)] };
+    }
+    return null;
+}
+
+/** The reply without its annotation block, for display. */
+export function stripAnnotations(response: string): string {
+    return response.replace(BLOCK, '').trimEnd();
+}
+
+/**
+ * Pin the critic's comments to text in the note. Line ranges are turned into
+ * quotes of those lines, so every anchor can follow its text as the note is
+ * edited. Comments whose text can't be found are dropped.
+ */
+export function anchorAnnotations(text: string, raw: RawAnnotation[], idPrefix = `${Date.now().toString(36)}`): FeedbackAnnotation[] {
+    const lines = text.split('\n');
+    const anchored: FeedbackAnnotation[] = [];
+
+    raw.forEach((annotation, index) => {
+        let quote = annotation.quote;
+        if (!quote && annotation.lines) {
+            const [start, end] = annotation.lines;
+            quote = lines.slice(start - 1, end).join('\n').trim();
+        }
+        if (quote && locateQuote(text, quote)) {
+            anchored.push({ id: `${idPrefix}-${index}`, quote, comment: annotation.comment });
+        }
+    });
+    return anchored;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Find quoted text in a note, ignoring differences in whitespace. When it
+ * occurs more than once, the occurrence closest to `near` wins.
+ */
+export function locateQuote(text: string, quote: string, near = 0): { from: number; to: number } | null {
+    const words = quote.trim().split(/\s+/).filter(word => word);
+    if (words.length === 0) return null;
+
+    const pattern = new RegExp(words.map(escapeRegExp).join('\\s+'), 'g');
+    let best: { from: number; to: number } | null = null;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const found = { from: match.index, to: match.index + match[0].length };
+        if (!best || Math.abs(found.from - near) < Math.abs(best.from - near)) {
+            best = found;
+        }
+        pattern.lastIndex = match.index + 1;
+    }
+    return best;
+}
@@ -1,9 +1,20 @@
+import { FeedbackOutput, FeedbackTrigger, PromptMerge } from 'types';
+
 export const MCP_AUTH_CALLBACK = 'mcp-auth-callback';
 
+export const FEEDBACK_TRIGGERS: FeedbackTrigger[] = ['immediate', 'idle'];
+
+export const FEEDBACK_OUTPUTS: FeedbackOutput[] = ['chat', 'callouts', 'sidecar', 'frontmatter'];
+
+export const PROMPT_MERGES: PromptMerge[] = ['replace', 'append', 'prepend'];
+
 
 export const DEFAULT_SETTINGS = {
     feedbackThreshold: 3,
+    feedbackThresholdUnit: 'paragraphs' as const,
     feedbackCooldownSeconds: 30,
+    feedbackTrigger: 'immediate' as const,
+    feedbackIdleSeconds: 10,
     systemPrompt: `You are a helpful writing assistant. Provide constructive feedback on notes.
 
 You can access a persistent memory tool stored in the /memories directory. Use it to capture only enduring details that will improve future feedback. Keep the memory directory organized by updating or removing outdated information and avoiding duplicate entries.`,
@@ -15,6 +26,16 @@ Changes made:
 \${diff}
 
 Please provide constructive feedback focusing on the recent changes.`,
+    diffGranularity: 'line' as const,
+    maxDiffTokens: 8000,
+    inlineAnnotations: false,
+    structuredFeedback: false,
+    feedbackOutput: 'chat' as const,
+    critics: [] as string[],
+    rubric: ['clarity', 'structure', 'completeness'],
+    ignoreFrontmatter: false,
+    ignoreWhitespace: false,
+    ignorePatterns: [] as string[],
     model: 'anthropic/claude-3-sonnet-20240229',
     summarizerModel: 'anthropic/claude-3-5-haiku-latest',
     anthropicApiKey: '',
@@ -28,6 +49,8 @@ Please provide constructive feedback focusing on the recent changes.`,
     mcpServerUrl: '',
     mcpMode: 'disabled' as const,
     logPath: '.notes-critic/conversations',
+    snapshotPath: '.notes-critic/snapshots',
+    checkpointPath: '.notes-critic/checkpoints',
     memoryDirectory: 'memories',
     memoryMaxViewCharacters: 4000,
     enabledTools: []
@@ -0,0 +1,128 @@
+import { CriticPersona, FeedbackItem, NotesCriticSettings } from 'types';
+import { ANNOTATION_BLOCK, parseAnnotations, RawAnnotation, stripAnnotations } from './annotations';
+import { FEEDBACK_SEVERITIES, feedbackAnnotations, parseStructuredFeedback } from './structuredFeedback';
+import { averageScores, formatScoresBlock, parseScores, stripScores } from './scores';
+
+/** One critic's finished reply, as merged into the panel's report. */
+export interface CriticReport {
+    critic: string;
+    response: string;
+}
+
+/** Settings a critic runs with: its own model, and its persona added to the system prompt. */
+export function criticSettings(settings: NotesCriticSettings, critic: CriticPersona): NotesCriticSettings {
+    return {
+        ...settings,
+        model: critic.model ?? settings.model,
+        maxTokens: critic.maxTokens ?? settings.maxTokens,
+        systemPrompt: `${settings.systemPrompt}\n\nYou are the "${critic.name}" critic on a panel reviewing this note. Keep to your role; other critics cover the rest.\n\n${critic.prompt}`
+    };
+}
+
+const normalizeQuote = (quote: string) => quote.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/** Whether two quotes are about the same text: one contains the other, ignoring case and spacing. */
+function quotesOverlap(a: string, b: string): boolean {
+    const first = normalizeQuote(a);
+    const second = normalizeQuote(b);
+    if (!first || !second) return false;
+    return first.includes(second) || second.includes(first);
+}
+
+/** Issues on the same text in the same category, or the same whole-note point, are one issue. */
+function sameIssue(a: FeedbackItem, b: FeedbackItem): boolean {
+    if (a.category !== b.category) return false;
+    if (!a.quote.trim() && !b.quote.trim()) {
+        return normalizeQuote(a.explanation) === normalizeQuote(b.explanation);
+    }
+    return quotesOverlap(a.quote, b.quote);
+}
+
+/**
+ * Combine the critics' structured items into one list, in the order they were
+ * first raised. An issue raised by several critics is kept once, at its most
+ * severe, and lists every critic that raised it.
+ */
+export function mergeFeedbackItems(reports: { critic: string; items: FeedbackItem[] }[]): FeedbackItem[] {
+    const merged: FeedbackItem[] = [];
+    for (const { critic, items } of reports) {
+        for (const item of items) {
+            const critics = item.critics ?? [critic];
+            const index = merged.findIndex(existing => sameIssue(existing, item));
+            if (index === -1) {
+                merged.push({ ...item, critics });
+                continue;
+            }
+
+            const existing = merged[index];
+            const union = Array.from(new Set([...(existing.critics ?? []), ...critics]));
+            const moreSevere = FEEDBACK_SEVERITIES.indexOf(item.severity) < FEEDBACK_SEVERITIES.indexOf(existing.severity);
+            merged[index] = { ...(moreSevere ? item : existing), critics: union };
+        }
+    }
+    return merged;
+}
+
+/** Anchored comments on the same text become one comment naming each critic. */
+function mergeAnnotations(reports: { critic: string; annotations: RawAnnotation[] }[]): RawAnnotation[] {
+    const merged: RawAnnotation[] = [];
+    for (const { critic, annotations } of reports) {
+        for (const annotation of annotations) {
+            const comment = `${critic}: ${annotation.comment}`;
+            const existing = merged.find(other => annotation.quote
+                ? !!other.quote && quotesOverlap(other.quote, annotation.quote)
+                : !!other.lines && !!annotation.lines && other.lines.join() === annotation.lines.join());
+            if (!existing) {
+                merged.push({ ...annotation, comment });
+            } else if (!existing.comment.split('\n').includes(comment)) {
+                existing.comment = `${existing.comment}\n${comment}`;
+            }
+        }
+    }
+    return merged;
+}
+
+function formatItem(item: FeedbackItem): string {
+    const quote = item.quote.trim() ? ` "${item.quote.trim()}":` : '';
+    return `- **${item.severity} · ${item.category}**${quote} ${item.explanation}`;
+}
+
+/**
+ * Merge the replies of a panel of critics into one report. When every critic
+ * gave structured feedback the report is structured feedback too, with
+ * duplicate issues merged; otherwise it has a section per critic and one
+ * block of anchored comments for the whole panel. Rubric scores are averaged.
+ */
+export function mergeCriticReports(reports: CriticReport[]): string {
+    const parsed = reports.map(report => ({ ...report, structured: parseStructuredFeedback(report.response) }));
+    const scores = averageScores(parsed
+        .map(report => parseScores(report.response))
+        .filter((reportScores): reportScores is NonNullable<typeof reportScores> => reportScores !== null));
+
+    if (parsed.length > 0 && parsed.every(report => report.structured)) {
+        const items = mergeFeedbackItems(parsed.map(report => ({ critic: report.critic, items: report.structured?.items ?? [] })));
+        return JSON.stringify({
+            items,
+            ...(scores && { scores: Object.entries(scores).map(([criterion, score]) => ({ criterion, score })) })
+        }, null, 2);
+    }
+
+    const sections = parsed.map(({ critic, response, structured }) => {
+        const body = structured
+            ? structured.items.map(formatItem).join('\n') || 'No issues found.'
+            : stripScores(stripAnnotations(response)).trim() || 'No comments.';
+        return `## ${critic}\n\n${body}`;
+    });
+    const annotations = mergeAnnotations(parsed.map(({ critic, response, structured }) => ({
+        critic,
+        annotations: structured ? feedbackAnnotations(structured.items) : parseAnnotations(response)
+    })));
+    if (annotations.length > 0) {
+        const lines = annotations.map(annotation => JSON.stringify(annotation));
+        sections.push(['```' + ANNOTATION_BLOCK, ...lines, '```'].join('\n'));
+    }
+    if (scores) {
+        sections.push(formatScoresBlock(scores));
+    }
+    return sections.join('\n\n');
+}
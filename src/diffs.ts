@@ -1,4 +1,12 @@
-export function generateDiff(baseline: string, current: string): string {
+import { DiffGranularity, ChangeMetrics, ChangeUnit } from 'types';
+
+export const DIFF_GRANULARITIES: DiffGranularity[] = ['line', 'word', 'sentence'];
+
+/**
+ * Unified diff between two versions of a note. With a token budget, diffs
+ * estimated to be over it are compressed (see compressDiff).
+ */
+export function generateDiff(baseline: string, current: string, granularity: DiffGranularity = 'line', maxTokens?: number): string {
     if (baseline === current) {
         return 'No changes detected';
     }
@@ -12,8 +20,98 @@ export function generateDiff(baseline: string, current: string): string {
         return 'No changes detected';
     }
 
-    const output = hunks.map(hunk => formatHunk(hunk)).join('\n');
-    return output;
+    const format = granularity === 'line' ? formatHunk : (hunk: DiffHunk) => formatInlineHunk(hunk, granularity);
+    const output = hunks.map(format).join('\n');
+    if (!maxTokens || estimateTokens(output) <= maxTokens) {
+        return output;
+    }
+    return compressDiff(baseline, current, generateHunks(baselineLines, currentLines, 0), format, maxTokens);
+}
+
+/** Rough token count, at about four characters per token. */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+// Leaves room for the note on what was omitted
+const OMISSION_NOTE_TOKENS = 60;
+
+/**
+ * Shorten a diff that is over budget: summarize the changes by section, leave
+ * out unchanged context lines, and keep only as many hunks as fit, telling the
+ * model what was left out.
+ */
+function compressDiff(
+    baseline: string,
+    current: string,
+    hunks: DiffHunk[],
+    format: (hunk: DiffHunk) => string,
+    maxTokens: number
+): string {
+    const summary = fitSectionSummary(summarizeSectionChanges(baseline, current), maxTokens - OMISSION_NOTE_TOKENS);
+
+    let budget = maxTokens - estimateTokens(summary.text) - OMISSION_NOTE_TOKENS;
+    const kept: string[] = [];
+    for (const hunk of hunks) {
+        const formatted = format(hunk);
+        const cost = estimateTokens(formatted) + 1;
+        if (cost > budget) break;
+        kept.push(formatted);
+        budget -= cost;
+    }
+
+    const omitted = hunks.slice(kept.length);
+    const omittedLines = (type: DiffLineEntry['type']) =>
+        omitted.reduce((sum, hunk) => sum + hunk.lines.filter(line => line.type === type).length, 0);
+
+    let note = `[Diff shortened to fit ${maxTokens} tokens: unchanged context lines were left out`;
+    if (omitted.length > 0) {
+        note += `, and the last ${omitted.length} of ${hunks.length} changes `
+            + `(${omittedLines('added')} lines added, ${omittedLines('removed')} removed) are not shown`;
+    }
+    note += summary.complete
+        ? '. The section summary covers every change.]'
+        : '. The section summary lists only the first changed sections.]';
+
+    return [note, summary.text, kept.join('\n')].filter(part => part).join('\n\n');
+}
+
+/**
+ * The section summary of a shortened diff. When it alone is over the budget,
+ * only the first sections that fit are listed, followed by how many weren't.
+ */
+function fitSectionSummary(changes: SectionChange[], maxTokens: number): { text: string; complete: boolean } {
+    const text = `Changed sections:\n${formatSectionSummary(changes)}`;
+    if (estimateTokens(text) <= maxTokens) {
+        return { text, complete: true };
+    }
+
+    const more = (count: number) => `\n…and ${count} more sections`;
+    let fitted = 'Changed sections:';
+    let shown = 0;
+    for (const change of changes) {
+        const line = `\n${sectionLabel(change)}: ${describeSectionChange(change)}`;
+        if (estimateTokens(fitted + line + more(changes.length - shown - 1)) > maxTokens) break;
+        fitted += line;
+        shown++;
+    }
+    return { text: fitted + more(changes.length - shown), complete: false };
+}
+
+export type DiffOpType = 'equal' | 'removed' | 'added';
+
+export interface DiffOp<T> {
+    type: DiffOpType;
+    value: T;
+    baselineIndex: number; // 0-based index into the baseline, -1 for additions
+    currentIndex: number; // 0-based index into the current version, -1 for removals
+}
+
+interface DiffLineEntry {
+    type: 'context' | 'removed' | 'added';
+    content: string;
+    movedFrom?: number; // 1-based baseline line this added line was moved from
+    movedTo?: number; // 1-based current line this removed line was moved to
 }
 
 interface DiffHunk {
@@ -21,94 +119,248 @@ interface DiffHunk {
     baselineCount: number;
     currentStart: number;
     currentCount: number;
-    lines: Array<{ type: 'context' | 'removed' | 'added', content: string }>;
+    lines: DiffLineEntry[];
 }
 
-function generateHunks(baselineLines: string[], currentLines: string[]): DiffHunk[] {
-    const hunks: DiffHunk[] = [];
-    const contextLines = 3;
-    const maxLines = Math.max(baselineLines.length, currentLines.length);
+const CONTEXT_LINES = 3;
+const MAX_EDIT_DISTANCE = 2000;
 
-    let i = 0;
-    while (i < maxLines) {
-        // Find next change
-        while (i < maxLines && baselineLines[i] === currentLines[i]) {
-            i++;
+/**
+ * Minimal edit script between two sequences (Myers' O(ND) algorithm).
+ * Common prefixes and suffixes are stripped first, as they are by far the most
+ * common case when editing notes.
+ */
+export function diffSequences<T>(
+    baseline: T[],
+    current: T[],
+    equals: (a: T, b: T) => boolean = (a, b) => a === b
+): DiffOp<T>[] {
+    let prefix = 0;
+    while (prefix < baseline.length && prefix < current.length && equals(baseline[prefix], current[prefix])) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < baseline.length - prefix &&
+        suffix < current.length - prefix &&
+        equals(baseline[baseline.length - 1 - suffix], current[current.length - 1 - suffix])
+    ) {
+        suffix++;
+    }
+
+    const ops: DiffOp<T>[] = [];
+    for (let i = 0; i < prefix; i++) {
+        ops.push({ type: 'equal', value: current[i], baselineIndex: i, currentIndex: i });
+    }
+
+    const middle = myers(
+        baseline.slice(prefix, baseline.length - suffix),
+        current.slice(prefix, current.length - suffix),
+        equals
+    );
+    for (const op of middle) {
+        ops.push({
+            ...op,
+            baselineIndex: op.baselineIndex === -1 ? -1 : op.baselineIndex + prefix,
+            currentIndex: op.currentIndex === -1 ? -1 : op.currentIndex + prefix
+        });
+    }
+
+    for (let i = suffix; i > 0; i--) {
+        ops.push({
+            type: 'equal',
+            value: current[current.length - i],
+            baselineIndex: baseline.length - i,
+            currentIndex: current.length - i
+        });
+    }
+
+    return ops;
+}
+
+function myers<T>(a: T[], b: T[], equals: (a: T, b: T) => boolean): DiffOp<T>[] {
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 2);
+    // trace[d] holds the furthest x reached on diagonals -d..d before round d
+    const trace: Int32Array[] = [];
+
+    let found = false;
+    for (let d = 0; d <= max && !found; d++) {
+        if (d > MAX_EDIT_DISTANCE) {
+            return replaceAll(a, b);
+        }
+        trace.push(v.slice(offset - d, offset + d + 1));
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && equals(a[x], b[y])) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
         }
+    }
+
+    // Walk the trace backwards to recover the edit script
+    const ops: DiffOp<T>[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const prev = (k: number) => trace[d][k + d];
+        const k = x - y;
+        const prevK = (k === -d || (k !== d && prev(k - 1) < prev(k + 1))) ? k + 1 : k - 1;
+        const prevX = d === 0 ? 0 : prev(prevK);
+        const prevY = d === 0 ? 0 : prevX - prevK;
 
-        if (i >= maxLines) break;
+        while (x > prevX && y > prevY) {
+            x--;
+            y--;
+            ops.push({ type: 'equal', value: b[y], baselineIndex: x, currentIndex: y });
+        }
 
-        // Found a change, start a hunk
-        const hunkStart = Math.max(0, i - contextLines);
+        if (d > 0) {
+            if (x === prevX) {
+                y--;
+                ops.push({ type: 'added', value: b[y], baselineIndex: -1, currentIndex: y });
+            } else {
+                x--;
+                ops.push({ type: 'removed', value: a[x], baselineIndex: x, currentIndex: -1 });
+            }
+        }
+    }
+
+    return ops.reverse();
+}
+
+/**
+ * Fallback for rewrites too large to diff cheaply - the trace grows with the
+ * square of the edit distance, and past this point a minimal diff is noise anyway.
+ */
+function replaceAll<T>(a: T[], b: T[]): DiffOp<T>[] {
+    return [
+        ...a.map((value, i): DiffOp<T> => ({ type: 'removed', value, baselineIndex: i, currentIndex: -1 })),
+        ...b.map((value, i): DiffOp<T> => ({ type: 'added', value, baselineIndex: -1, currentIndex: i }))
+    ];
+}
+
+/**
+ * Pair up lines that were removed in one place and added verbatim in another,
+ * so a moved paragraph reads as a move rather than an unrelated delete and insert.
+ */
+function findMovedLines(ops: DiffOp<string>[]): Map<DiffOp<string>, DiffOp<string>> {
+    const removed = new Map<string, DiffOp<string>[]>();
+    const added = new Map<string, DiffOp<string>[]>();
+    for (const op of ops) {
+        if (op.type === 'equal' || op.value.trim() === '') continue;
+        const bucket = op.type === 'removed' ? removed : added;
+        bucket.set(op.value, [...(bucket.get(op.value) || []), op]);
+    }
+
+    const moves = new Map<DiffOp<string>, DiffOp<string>>();
+    for (const [line, removedOps] of removed) {
+        const addedOps = added.get(line);
+        // Only unambiguous moves - a line that appears once on each side
+        if (removedOps.length === 1 && addedOps?.length === 1) {
+            moves.set(removedOps[0], addedOps[0]);
+            moves.set(addedOps[0], removedOps[0]);
+        }
+    }
+    return moves;
+}
+
+function generateHunks(baselineLines: string[], currentLines: string[], contextLines = CONTEXT_LINES): DiffHunk[] {
+    const ops = diffSequences(baselineLines, currentLines);
+    const moves = findMovedLines(ops);
+
+    // Group changes into ranges of ops, merging ranges whose context would overlap
+    const ranges: Array<{ start: number; end: number }> = [];
+    for (let i = 0; i < ops.length; i++) {
+        if (ops[i].type === 'equal') continue;
+
+        let end = i;
+        while (end + 1 < ops.length && ops[end + 1].type !== 'equal') {
+            end++;
+        }
+
+        const start = Math.max(0, i - contextLines);
+        const last = ranges[ranges.length - 1];
+        if (last && start < last.end) {
+            last.end = Math.min(ops.length, end + 1 + contextLines);
+        } else {
+            ranges.push({ start, end: Math.min(ops.length, end + 1 + contextLines) });
+        }
+        i = end;
+    }
+
+    return ranges.map(({ start, end }) => {
         const hunk: DiffHunk = {
-            baselineStart: hunkStart + 1, // 1-based
+            baselineStart: 0,
             baselineCount: 0,
-            currentStart: hunkStart + 1, // 1-based
+            currentStart: 0,
             currentCount: 0,
             lines: []
         };
 
-        // Add leading context
-        for (let j = hunkStart; j < i; j++) {
-            if (baselineLines[j] !== undefined) {
-                hunk.lines.push({ type: 'context', content: baselineLines[j] });
-                hunk.baselineCount++;
-                hunk.currentCount++;
+        for (const op of ops.slice(start, end)) {
+            const move = moves.get(op);
+            switch (op.type) {
+                case 'equal':
+                    hunk.lines.push({ type: 'context', content: op.value });
+                    hunk.baselineCount++;
+                    hunk.currentCount++;
+                    break;
+                case 'removed':
+                    hunk.lines.push({ type: 'removed', content: op.value, movedTo: move && move.currentIndex + 1 });
+                    hunk.baselineCount++;
+                    break;
+                case 'added':
+                    hunk.lines.push({ type: 'added', content: op.value, movedFrom: move && move.baselineIndex + 1 });
+                    hunk.currentCount++;
+                    break;
             }
         }
 
-        // Add changes
-        while (i < maxLines && baselineLines[i] !== currentLines[i]) {
-            const baseLine = baselineLines[i];
-            const currentLine = currentLines[i];
-
-            if (baseLine !== undefined && currentLine !== undefined) {
-                // Line changed
-                hunk.lines.push({ type: 'removed', content: baseLine });
-                hunk.lines.push({ type: 'added', content: currentLine });
-                hunk.baselineCount++;
-                hunk.currentCount++;
-            } else if (baseLine !== undefined) {
-                // Line removed
-                hunk.lines.push({ type: 'removed', content: baseLine });
-                hunk.baselineCount++;
-            } else if (currentLine !== undefined) {
-                // Line added
-                hunk.lines.push({ type: 'added', content: currentLine });
-                hunk.currentCount++;
-            }
-            i++;
-        }
-
-        // Add trailing context
-        const contextEnd = Math.min(maxLines, i + contextLines);
-        for (let j = i; j < contextEnd; j++) {
-            if (baselineLines[j] !== undefined) {
-                hunk.lines.push({ type: 'context', content: baselineLines[j] });
-                hunk.baselineCount++;
-                hunk.currentCount++;
-            }
-        }
+        hunk.baselineStart = hunkStart(ops, start, 'baselineIndex', hunk.baselineCount);
+        hunk.currentStart = hunkStart(ops, start, 'currentIndex', hunk.currentCount);
+        return hunk;
+    });
+}
 
-        hunks.push(hunk);
+/**
+ * 1-based start line of a hunk on one side. As in GNU diff, an empty range
+ * points at the line *before* the change, so insertions at the top are `-0,0`.
+ */
+function hunkStart(ops: DiffOp<string>[], start: number, side: 'baselineIndex' | 'currentIndex', count: number): number {
+    let linesBefore = 0;
+    for (let i = 0; i < start; i++) {
+        if (ops[i][side] !== -1) linesBefore++;
     }
-
-    return hunks;
+    return count === 0 ? linesBefore : linesBefore + 1;
 }
 
 function formatHunk(hunk: DiffHunk): string {
     const header = `@@ -${hunk.baselineStart},${hunk.baselineCount} +${hunk.currentStart},${hunk.currentCount} @@`;
 
-    const lines = hunk.lines.map(line => {
+    const lines = hunk.lines.flatMap(line => {
         switch (line.type) {
             case 'context':
-                return ` ${line.content}`;
+                return [` ${line.content}`];
             case 'removed':
-                return `-${line.content}`;
+                return line.movedTo ? [`-${line.content}`, `\\ moved to line ${line.movedTo}`] : [`-${line.content}`];
             case 'added':
-                return `+${line.content}`;
+                return line.movedFrom ? [`+${line.content}`, `\\ moved from line ${line.movedFrom}`] : [`+${line.content}`];
             default:
-                return line.content;
+                return [line.content];
         }
     });
 
@@ -117,4 +369,394 @@ function formatHunk(hunk: DiffHunk): string {
 
 export function calculateDiffSize(baseline: string, current: string): number {
     return Math.abs(current.length - baseline.length);
-} 
\ No newline at end of file
+}
+
+export const CHANGE_UNITS: ChangeUnit[] = ['paragraphs', 'words'];
+
+export function emptyChangeMetrics(): ChangeMetrics {
+    return {
+        addedParagraphs: 0,
+        removedParagraphs: 0,
+        modifiedParagraphs: 0,
+        changedParagraphs: 0,
+        changedWords: 0
+    };
+}
+
+export function splitParagraphs(text: string): string[] {
+    return text.split(/\n+/).filter(p => p.trim().length > 0);
+}
+
+export function countWords(text: string): number {
+    return (text.match(/[^\s.,;:!?()[\]{}"]+/g) || []).length;
+}
+
+/**
+ * Measure how much of the note changed, by aligning paragraphs. A paragraph
+ * that was rewritten in place counts as modified, along with the number of
+ * words that changed in it.
+ */
+export function measureChanges(baseline: string, current: string): ChangeMetrics {
+    const metrics = emptyChangeMetrics();
+    if (baseline === current) {
+        return metrics;
+    }
+
+    const ops = diffSequences(splitParagraphs(baseline), splitParagraphs(current));
+
+    let i = 0;
+    while (i < ops.length) {
+        if (ops[i].type === 'equal') {
+            i++;
+            continue;
+        }
+
+        const removed: string[] = [];
+        const added: string[] = [];
+        while (i < ops.length && ops[i].type !== 'equal') {
+            (ops[i].type === 'removed' ? removed : added).push(ops[i].value);
+            i++;
+        }
+
+        // Pair up paragraphs within a changed block as in-place edits
+        const modified = Math.min(removed.length, added.length);
+        for (let j = 0; j < modified; j++) {
+            const segments = inlineDiff(removed[j], added[j]);
+            const wordsIn = (type: InlineSegment['type']) => segments
+                .filter(segment => segment.type === type)
+                .reduce((sum, segment) => sum + countWords(segment.text), 0);
+            metrics.changedWords += Math.max(wordsIn('removed'), wordsIn('added'));
+        }
+        metrics.modifiedParagraphs += modified;
+        metrics.removedParagraphs += removed.length - modified;
+        metrics.addedParagraphs += added.length - modified;
+        metrics.changedWords += removed.slice(modified).reduce((sum, p) => sum + countWords(p), 0);
+        metrics.changedWords += added.slice(modified).reduce((sum, p) => sum + countWords(p), 0);
+    }
+
+    metrics.changedParagraphs = metrics.addedParagraphs + metrics.removedParagraphs + metrics.modifiedParagraphs;
+    return metrics;
+}
+
+/**
+ * The size of a change in the given threshold unit.
+ */
+export function changeSize(metrics: ChangeMetrics, unit: ChangeUnit = 'paragraphs'): number {
+    return unit === 'words' ? metrics.changedWords : metrics.changedParagraphs;
+}
+
+export interface InlineSegment {
+    type: 'equal' | 'removed' | 'added';
+    text: string;
+}
+
+const INLINE_MARKUP = /\[-([\s\S]*?)-\]|\{\+([\s\S]*?)\+\}/;
+
+/**
+ * Split text into diffable tokens. Whitespace is kept as separate tokens so
+ * the original text can be rebuilt by concatenation.
+ */
+export function tokenize(text: string, granularity: Exclude<DiffGranularity, 'line'>): string[] {
+    const pattern = granularity === 'word'
+        ? /\n|[^\S\n]+|[^\s.,;:!?()[\]{}"]+|[^\s]/g
+        : /\n|[^.!?\n]*[.!?]+[^\S\n]*|[^.!?\n]+[^\S\n]*/g;
+    return text.match(pattern) || [];
+}
+
+/**
+ * Word (or sentence) level diff of two strings, as a list of segments.
+ */
+export function inlineDiff(baseline: string, current: string, granularity: Exclude<DiffGranularity, 'line'> = 'word'): InlineSegment[] {
+    const ops = diffSequences(tokenize(baseline, granularity), tokenize(current, granularity));
+    const segments: InlineSegment[] = [];
+
+    const push = (type: InlineSegment['type'], text: string) => {
+        const last = segments[segments.length - 1];
+        if (last?.type === type) {
+            last.text += text;
+        } else {
+            segments.push({ type, text });
+        }
+    };
+
+    ops.forEach((op, i) => {
+        // Absorb single spaces between two changes, so "[-the old-]{+a new+}"
+        // is shown instead of "[-the-]{+a+} [-old-]{+new+}"
+        const isGap = op.type === 'equal' && /^[^\S\n]+$/.test(op.value) &&
+            ops[i - 1] && ops[i - 1].type !== 'equal' &&
+            ops[i + 1] && ops[i + 1].type !== 'equal';
+        if (isGap) {
+            push('removed', op.value);
+            segments.push({ type: 'added', text: op.value });
+            return;
+        }
+        push(op.type, op.value);
+    });
+
+    // Put removals before additions within each changed stretch
+    return normalizeSegments(segments);
+}
+
+function normalizeSegments(segments: InlineSegment[]): InlineSegment[] {
+    const result: InlineSegment[] = [];
+    let removed = '';
+    let added = '';
+    const flush = () => {
+        if (removed) result.push({ type: 'removed', text: removed });
+        if (added) result.push({ type: 'added', text: added });
+        removed = '';
+        added = '';
+    };
+
+    for (const segment of segments) {
+        if (segment.type === 'equal') {
+            flush();
+            result.push(segment);
+        } else if (segment.type === 'removed') {
+            removed += segment.text;
+        } else {
+            added += segment.text;
+        }
+    }
+    flush();
+    return result;
+}
+
+/**
+ * Render segments with wdiff style `[-removed-]{+added+}` markup, one output
+ * line per line of text.
+ */
+export function formatInlineSegments(segments: InlineSegment[]): string[] {
+    const wrap = (type: InlineSegment['type'], text: string) => {
+        if (!text) return '';
+        switch (type) {
+            case 'removed':
+                return `[-${text}-]`;
+            case 'added':
+                return `{+${text}+}`;
+            default:
+                return text;
+        }
+    };
+
+    const lines: string[] = [''];
+    for (const segment of segments) {
+        // Markup never spans lines - close it before a newline and reopen after
+        segment.text.split('\n').forEach((part, index) => {
+            if (index > 0) lines.push('');
+            lines[lines.length - 1] += wrap(segment.type, part);
+        });
+    }
+    return lines;
+}
+
+/**
+ * Parse a line containing `[-removed-]{+added+}` markup back into segments.
+ */
+export function parseInlineMarkup(line: string): InlineSegment[] {
+    const segments: InlineSegment[] = [];
+    const pattern = new RegExp(INLINE_MARKUP.source, 'g');
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line)) !== null) {
+        if (match.index > lastIndex) {
+            segments.push({ type: 'equal', text: line.slice(lastIndex, match.index) });
+        }
+        segments.push(match[1] !== undefined
+            ? { type: 'removed', text: match[1] }
+            : { type: 'added', text: match[2] });
+        lastIndex = pattern.lastIndex;
+    }
+    if (lastIndex < line.length) {
+        segments.push({ type: 'equal', text: line.slice(lastIndex) });
+    }
+    return segments;
+}
+
+export function hasInlineMarkup(line: string): boolean {
+    return INLINE_MARKUP.test(line);
+}
+
+function formatInlineHunk(hunk: DiffHunk, granularity: Exclude<DiffGranularity, 'line'>): string {
+    const header = `@@ -${hunk.baselineStart},${hunk.baselineCount} +${hunk.currentStart},${hunk.currentCount} @@`;
+    const output: string[] = [header];
+
+    let i = 0;
+    while (i < hunk.lines.length) {
+        if (hunk.lines[i].type === 'context') {
+            output.push(` ${hunk.lines[i].content}`);
+            i++;
+            continue;
+        }
+
+        // Diff each removed/added block as a single piece of text, so edits
+        // that re-wrap a paragraph still line up word by word
+        const removed: string[] = [];
+        const added: string[] = [];
+        while (i < hunk.lines.length && hunk.lines[i].type !== 'context') {
+            const line = hunk.lines[i];
+            (line.type === 'removed' ? removed : added).push(line.content);
+            i++;
+        }
+
+        const segments = inlineDiff(removed.join('\n'), added.join('\n'), granularity);
+        output.push(...formatInlineSegments(segments).map(line => `~${line}`));
+    }
+
+    return output.join('\n');
+}
+
+export interface NoteSection {
+    heading: string; // The heading line, or '' for text before the first heading
+    level: number; // 0 for text before the first heading
+    trail: string[]; // Headings from the top of the tree down to this section
+    text: string; // The heading line and the body up to the next heading
+    body: string;
+}
+
+export interface SectionChange {
+    key: string;
+    trail: string[];
+    status: 'added' | 'removed' | 'modified';
+    changes: ChangeMetrics;
+    text: string; // Current text, or the baseline text for removed sections
+}
+
+const HEADING = /^(#{1,6})[^\S\n]+(.*?)(?:[^\S\n]+#+)?[^\S\n]*$/;
+const FENCE = /^[^\S\n]{0,3}(```|~~~)/;
+
+/**
+ * Split a note into sections at its markdown headings. Each section holds
+ * only its own body; subsections follow it with a longer heading trail.
+ */
+export function parseSections(text: string): NoteSection[] {
+    const sections: NoteSection[] = [];
+    const parents: { level: number; heading: string }[] = [];
+    let current: NoteSection = { heading: '', level: 0, trail: [], text: '', body: '' };
+    let lines: string[] = [];
+    let fence: string | null = null;
+
+    const close = () => {
+        current.text = lines.join('\n');
+        current.body = (current.level > 0 ? lines.slice(1) : lines).join('\n');
+        if (current.level > 0 || current.text.trim()) {
+            sections.push(current);
+        }
+    };
+
+    for (const line of text.split('\n')) {
+        // Headings inside fenced code blocks are just code
+        const fenceMatch = line.match(FENCE);
+        if (fenceMatch) {
+            fence = fence === null ? fenceMatch[1] : (fence === fenceMatch[1] ? null : fence);
+        }
+
+        const match = fence === null ? line.match(HEADING) : null;
+        if (!match) {
+            lines.push(line);
+            continue;
+        }
+
+        close();
+        const level = match[1].length;
+        while (parents.length > 0 && parents[parents.length - 1].level >= level) {
+            parents.pop();
+        }
+        const heading = line.trim();
+        parents.push({ level, heading });
+        current = { heading, level, trail: parents.map(parent => parent.heading), text: '', body: '' };
+        lines = [line];
+    }
+    close();
+
+    return sections;
+}
+
+/**
+ * Key sections by their heading trail, numbering repeats so that two
+ * sections with the same trail can still be told apart.
+ */
+function keySections(sections: NoteSection[]): Map<string, NoteSection> {
+    const keyed = new Map<string, NoteSection>();
+    for (const section of sections) {
+        const base = section.trail.join(' > ');
+        let key = base;
+        for (let n = 2; keyed.has(key); n++) {
+            key = `${base} #${n}`;
+        }
+        keyed.set(key, section);
+    }
+    return keyed;
+}
+
+/**
+ * Compare two versions of a note section by section. Sections are listed in
+ * the order of the current note, followed by any that were removed.
+ */
+export function summarizeSectionChanges(baseline: string, current: string): SectionChange[] {
+    const before = keySections(parseSections(baseline));
+    const after = keySections(parseSections(current));
+    const result: SectionChange[] = [];
+
+    after.forEach((section, key) => {
+        const previous = before.get(key);
+        const changes = measureChanges(previous ? previous.body : '', section.body);
+        if (previous && changes.changedParagraphs === 0) return;
+        result.push({ key, trail: section.trail, status: previous ? 'modified' : 'added', changes, text: section.text });
+    });
+
+    before.forEach((section, key) => {
+        if (after.has(key)) return;
+        result.push({ key, trail: section.trail, status: 'removed', changes: measureChanges(section.body, ''), text: section.text });
+    });
+
+    return result;
+}
+
+const sectionLabel = (change: SectionChange): string =>
+    change.trail.length > 0 ? change.trail.join(' > ') : 'Top of note';
+
+const countLabel = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+function describeSectionChange(change: SectionChange): string {
+    const { addedParagraphs, removedParagraphs, modifiedParagraphs } = change.changes;
+    if (change.status === 'added') {
+        return `section added (${countLabel(addedParagraphs, 'paragraph')})`;
+    }
+    if (change.status === 'removed') {
+        return `section removed (${countLabel(removedParagraphs, 'paragraph')})`;
+    }
+
+    const parts = [
+        { count: modifiedParagraphs, verb: 'rewritten' },
+        { count: addedParagraphs, verb: 'added' },
+        { count: removedParagraphs, verb: 'removed' },
+    ].filter(part => part.count > 0);
+    return parts
+        .map((part, index) => `${index === 0 ? countLabel(part.count, 'paragraph') : part.count} ${part.verb}`)
+        .join(', ');
+}
+
+/**
+ * One line per changed section, e.g. "## Methods: 2 paragraphs rewritten, 1 added".
+ */
+export function formatSectionSummary(changes: SectionChange[]): string {
+    if (changes.length === 0) {
+        return 'No changes detected';
+    }
+    return changes.map(change => `${sectionLabel(change)}: ${describeSectionChange(change)}`).join('\n');
+}
+
+/**
+ * The full text of every changed section under its summary line, so each edit
+ * can be read in context without sending the whole note.
+ */
+export function formatChangedSections(changes: SectionChange[]): string {
+    if (changes.length === 0) {
+        return 'No changes detected';
+    }
+    return changes.map(change => {
+        const summary = `${sectionLabel(change)}: ${describeSectionChange(change)}`;
+        return change.status === 'removed' ? summary : `${summary}\n\n${change.text.trim()}`;
+    }).join('\n\n---\n\n');
+}
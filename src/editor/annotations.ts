@@ -0,0 +1,198 @@
+import { ChangeDesc, EditorState, Extension, Range, RangeSetBuilder, StateEffect, StateField, Text } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, GutterMarker, gutter, hoverTooltip } from '@codemirror/view';
+import { editorInfoField, setTooltip } from 'obsidian';
+import { FeedbackAnnotation } from 'types';
+import { locateQuote } from '../annotations';
+
+/** Replace the annotations shown in an editor. */
+export const setAnnotations = StateEffect.define<FeedbackAnnotation[]>();
+
+/** Remove an annotation because the writer has dealt with it. */
+export const resolveAnnotation = StateEffect.define<string>();
+
+export interface AnnotationSource {
+    /** Annotations to show when a note is opened in an editor. */
+    load(path: string): FeedbackAnnotation[];
+    onResolved(path: string, id: string): void;
+}
+
+export interface AnchoredAnnotation {
+    annotation: FeedbackAnnotation;
+    from: number;
+    to: number;
+}
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const annotationMark = (annotation: FeedbackAnnotation) =>
+    Decoration.mark({ class: 'nc-annotation', annotation });
+
+function buildDecorations(doc: Text, annotations: FeedbackAnnotation[]): DecorationSet {
+    const text = doc.toString();
+    const ranges: Range<Decoration>[] = [];
+    for (const annotation of annotations) {
+        const found = locateQuote(text, annotation.quote);
+        if (found) ranges.push(annotationMark(annotation).range(found.from, found.to));
+    }
+    return Decoration.set(ranges, true);
+}
+
+/**
+ * Keep each annotation on its quote after an edit. Mapping through the changes
+ * covers edits around the quote; a quote that was moved elsewhere is looked up
+ * again near where it used to be, and one that no longer exists is dropped.
+ * Positions are mapped one by one, as mapping the set would silently drop
+ * marks whose text was deleted before they could be looked up again.
+ */
+function remapDecorations(decorations: DecorationSet, changes: ChangeDesc, doc: Text): DecorationSet {
+    let text: string | null = null;
+    const ranges: Range<Decoration>[] = [];
+
+    const cursor = decorations.iter();
+    for (; cursor.value; cursor.next()) {
+        const annotation: FeedbackAnnotation = cursor.value.spec.annotation;
+        const from = changes.mapPos(cursor.from, 1);
+        const to = changes.mapPos(cursor.to, -1);
+        if (from < to && collapseWhitespace(doc.sliceString(from, to)) === collapseWhitespace(annotation.quote)) {
+            ranges.push(cursor.value.range(from, to));
+            continue;
+        }
+
+        text = text ?? doc.toString();
+        const found = locateQuote(text, annotation.quote, from);
+        if (found) ranges.push(cursor.value.range(found.from, found.to));
+    }
+    return Decoration.set(ranges, true);
+}
+
+/** A state field holding an editor's annotations, seeded by `load` when the editor is created. */
+export function createAnnotationField(load: (state: EditorState) => FeedbackAnnotation[]): StateField<DecorationSet> {
+    return StateField.define<DecorationSet>({
+        create: state => buildDecorations(state.doc, load(state)),
+        update(decorations, tr) {
+            for (const effect of tr.effects) {
+                if (effect.is(setAnnotations)) return buildDecorations(tr.state.doc, effect.value);
+            }
+
+            if (tr.docChanged) {
+                decorations = remapDecorations(decorations, tr.changes, tr.state.doc);
+            }
+
+            const resolved = tr.effects.filter(effect => effect.is(resolveAnnotation)).map(effect => effect.value as string);
+            if (resolved.length > 0) {
+                decorations = decorations.update({
+                    filter: (_from, _to, decoration) => !resolved.includes(decoration.spec.annotation.id)
+                });
+            }
+            return decorations;
+        },
+        provide: field => EditorView.decorations.from(field)
+    });
+}
+
+export function annotationsIn(state: EditorState, field: StateField<DecorationSet>): AnchoredAnnotation[] {
+    const anchored: AnchoredAnnotation[] = [];
+    const cursor = state.field(field).iter();
+    for (; cursor.value; cursor.next()) {
+        anchored.push({ annotation: cursor.value.spec.annotation, from: cursor.from, to: cursor.to });
+    }
+    return anchored;
+}
+
+class AnnotationMarker extends GutterMarker {
+    constructor(readonly comments: string[]) {
+        super();
+    }
+
+    eq(other: AnnotationMarker): boolean {
+        return other.comments.join('\n') === this.comments.join('\n');
+    }
+
+    toDOM(): Node {
+        const marker = document.createElement('div');
+        marker.className = 'nc-annotation-marker';
+        marker.textContent = '💬';
+        setTooltip(marker, this.comments.join('\n\n'));
+        return marker;
+    }
+}
+
+function renderCard(view: EditorView, anchored: AnchoredAnnotation[]): HTMLElement {
+    const card = document.createElement('div');
+    card.className = 'nc-annotation-card';
+
+    for (const { annotation } of anchored) {
+        const item = card.appendChild(document.createElement('div'));
+        item.className = 'nc-annotation-card-item';
+
+        const comment = item.appendChild(document.createElement('div'));
+        comment.textContent = annotation.comment;
+
+        const resolve = item.appendChild(document.createElement('button'));
+        resolve.className = 'nc-btn nc-btn--secondary nc-btn--xs';
+        resolve.textContent = 'Resolve';
+        resolve.onclick = () => view.dispatch({ effects: resolveAnnotation.of(annotation.id) });
+    }
+    return card;
+}
+
+const notePath = (state: EditorState): string | undefined =>
+    state.field(editorInfoField, false)?.file?.path;
+
+/**
+ * Show the critic's anchored comments in the editor: the quoted text is
+ * underlined, its line gets a gutter marker, and hovering the text shows the
+ * comments with a button to resolve them.
+ */
+export function annotationExtension(source: AnnotationSource): Extension {
+    const field = createAnnotationField(state => {
+        const path = notePath(state);
+        return path ? source.load(path) : [];
+    });
+
+    const annotationGutter = gutter({
+        class: 'nc-annotation-gutter',
+        markers: view => {
+            const builder = new RangeSetBuilder<GutterMarker>();
+            let lineStart = -1;
+            let comments: string[] = [];
+            for (const { annotation, from } of annotationsIn(view.state, field)) {
+                const line = view.state.doc.lineAt(from).from;
+                if (line !== lineStart && comments.length > 0) {
+                    builder.add(lineStart, lineStart, new AnnotationMarker(comments));
+                    comments = [];
+                }
+                lineStart = line;
+                comments.push(annotation.comment);
+            }
+            if (comments.length > 0) {
+                builder.add(lineStart, lineStart, new AnnotationMarker(comments));
+            }
+            return builder.finish();
+        }
+    });
+
+    const hoverCards = hoverTooltip((view, pos) => {
+        const anchored = annotationsIn(view.state, field).filter(({ from, to }) => from <= pos && pos <= to);
+        if (anchored.length === 0) return null;
+
+        return {
+            pos: Math.min(...anchored.map(a => a.from)),
+            end: Math.max(...anchored.map(a => a.to)),
+            above: true,
+            create: view => ({ dom: renderCard(view, anchored) })
+        };
+    });
+
+    const reportResolved = EditorView.updateListener.of(update => {
+        const path = notePath(update.state);
+        if (!path) return;
+        for (const tr of update.transactions) {
+            for (const effect of tr.effects) {
+                if (effect.is(resolveAnnotation)) source.onResolved(path, effect.value);
+            }
+        }
+    });
+
+    return [field, annotationGutter, hoverCards, reportResolved];
+}
@@ -0,0 +1,96 @@
+import { NotesCriticSettings } from 'types';
+import { diffSequences, formatChangedSections, formatSectionSummary, generateDiff, summarizeSectionChanges } from './diffs';
+import { normalizeLines, normalizeNote, removeIgnored } from './normalize';
+import { ANNOTATION_INSTRUCTIONS } from './annotations';
+import { STRUCTURED_FEEDBACK_INSTRUCTIONS } from './structuredFeedback';
+import { rubricInstructions } from './scores';
+
+export interface FeedbackPrompt {
+    prompt: string;
+    diff: string;
+}
+
+/**
+ * Diff two versions of a note for the critic or the writer. The lines are
+ * the note's own, so quotes from the diff can be found in the note; changes
+ * the settings ignore, cosmetic ones included, are left out.
+ */
+export function diffNote(config: NotesCriticSettings, baselineText: string, currentText: string, maxTokens?: number): string {
+    if (normalizeNote(baselineText, config) === normalizeNote(currentText, config)) {
+        return 'No changes detected';
+    }
+    const baseline = removeIgnored(baselineText, config);
+    const current = removeIgnored(currentText, config);
+    if (!config.ignoreWhitespace) {
+        return generateDiff(baseline, current, config.diffGranularity, maxTokens);
+    }
+    // Line endings count as whitespace
+    return generateDiff(withCosmeticChanges(baseline, current), current.replace(/\r\n?/g, '\n'), config.diffGranularity, maxTokens);
+}
+
+/**
+ * The baseline with the lines that only changed cosmetically since replaced
+ * by their current text, so that a diff against the current version shows
+ * only the lines whose normalized text changed. Lines are matched on their
+ * normalized text; the baseline's line numbers shift where reflowed
+ * paragraphs changed how many lines they take.
+ */
+function withCosmeticChanges(baseline: string, current: string): string {
+    const before = normalizeLines(baseline);
+    const after = normalizeLines(current);
+    const linesOf = (note: typeof before, index: number) =>
+        note.source.slice(note.lines[index].start, note.lines[index].end);
+
+    // Blank lines around the note are cosmetic too
+    const lines = after.source.slice(0, after.lines[0]?.start ?? after.source.length);
+    for (const op of diffSequences(before.lines, after.lines, (a, b) => a.text === b.text)) {
+        if (op.type === 'equal') {
+            lines.push(...linesOf(after, op.currentIndex));
+        } else if (op.type === 'removed') {
+            lines.push(...linesOf(before, op.baselineIndex));
+        }
+    }
+    lines.push(...after.source.slice(after.lines[after.lines.length - 1]?.end ?? after.source.length));
+    return lines.join('\n');
+}
+
+/**
+ * Build the prompt asking for feedback on a note's changes: the note's
+ * feedback prompt with its macros filled in, followed by the instructions its
+ * settings call for (structured feedback or annotations, and the rubric).
+ */
+export function buildFeedbackPrompt(
+    config: NotesCriticSettings,
+    note: { path: string; title: string },
+    baselineText: string,
+    currentText: string
+): FeedbackPrompt {
+    // Large rewrites are shortened so the prompt stays within the model's limits
+    const diff = diffNote(config, baselineText, currentText, config.maxDiffTokens);
+    // Which sections changed, and how much, leaves out cosmetic changes; their text is the note's own
+    const written = new Map(summarizeSectionChanges(removeIgnored(baselineText, config), removeIgnored(currentText, config))
+        .map(change => [change.key, change.text]));
+    const sectionChanges = summarizeSectionChanges(normalizeNote(baselineText, config), normalizeNote(currentText, config))
+        .map(change => ({ ...change, text: written.get(change.key) ?? change.text }));
+
+    // Replaced through functions, since notes may contain $$ or $' which replacement strings expand
+    const summary = formatSectionSummary(sectionChanges);
+    const changedSections = formatChangedSections(sectionChanges);
+    let prompt = config.feedbackPrompt
+        .replace(/\${notePath}/g, () => note.path)
+        .replace(/\${noteTitle}/g, () => note.title)
+        .replace(/\${sectionSummary}/g, () => summary)
+        .replace(/\${changedSections}/g, () => changedSections)
+        .replace(/\${diff}/g, () => diff); // Keep full prompt with diff for LLM processing
+    // Structured items carry their own quotes, which are anchored instead
+    if (config.structuredFeedback) {
+        prompt += `\n\n${STRUCTURED_FEEDBACK_INSTRUCTIONS}`;
+    } else if (config.inlineAnnotations) {
+        prompt += `\n\n${ANNOTATION_INSTRUCTIONS}`;
+    }
+    const rubric = rubricInstructions(config.rubric, config.structuredFeedback);
+    if (rubric) {
+        prompt += `\n\n${rubric}`;
+    }
+    return { prompt, diff };
+}
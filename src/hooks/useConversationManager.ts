@@ -1,6 +1,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { ConversationTurn, UserInput, TurnStep, LLMStreamChunk, NotesCriticSettings, LLMFile, TurnChunk } from 'types';
+import { ConversationTurn, UserInput, TurnStep, LLMStreamChunk, NotesCriticSettings, LLMFile, TurnChunk, CriticPersona, CriticRun } from 'types';
 import { LLMProvider } from 'llm/llmProvider';
+import { criticSettings, mergeCriticReports } from '../critics';
 import { History } from 'hooks/useHistoryManager';
 import { useSettings } from './useSettings';
 
@@ -42,6 +43,7 @@ interface NewRoundParams {
     overrideSettings?: NotesCriticSettings;
     abortController?: AbortController;
     userInput?: UserInput; // Allow passing custom user input
+    critics?: CriticPersona[]; // Fan out to these personas and merge their replies
 }
 
 interface RerunTurnParams {
@@ -59,6 +61,7 @@ interface StreamTurnParams {
     abortController?: AbortController;
     overrideSettings?: NotesCriticSettings;
     currentConversation?: ConversationTurn[];
+    critics?: CriticPersona[];
 }
 
 const MAX_TURN_STEPS = 10;
@@ -207,6 +210,7 @@ export function useConversationManager(): UseConversationManagerReturn {
         chunk: LLMStreamChunk,
         step: TurnStep,
         callback: ConversationCallback | undefined,
+        criticRun?: CriticRun,
     ): void => {
         let lastChunk = step.chunks?.[step.chunks.length - 1];
 
@@ -237,7 +241,15 @@ export function useConversationManager(): UseConversationManagerReturn {
                 if (chunk.tokenUsage) {
                     // Get the plugin instance from app to access tokenTracker
                     if (plugin?.tokenTracker) {
-                        plugin.tokenTracker.addUsage(conversationId, chunk.tokenUsage);
+                        plugin.tokenTracker.addUsage(conversationId, chunk.tokenUsage, criticRun?.critic);
+                    }
+                    if (criticRun) {
+                        const usage = criticRun.tokenUsage ?? { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+                        criticRun.tokenUsage = {
+                            inputTokens: usage.inputTokens + chunk.tokenUsage.inputTokens,
+                            outputTokens: usage.outputTokens + chunk.tokenUsage.outputTokens,
+                            totalTokens: usage.totalTokens + chunk.tokenUsage.totalTokens
+                        };
                     }
                 }
                 break;
@@ -347,8 +359,96 @@ export function useConversationManager(): UseConversationManagerReturn {
         return (hasToolCalls || hasRetryableError) && stepsLeft > 0;
     }, []);
 
+    /**
+     * Run one critic of a panel to the end of its turn with its own provider.
+     * The critic sees the conversation so far and only its own steps of this turn.
+     */
+    const streamCriticRun = useCallback(async (
+        run: CriticRun,
+        critic: CriticPersona,
+        turn: ConversationTurn,
+        callback: ConversationCallback | undefined,
+        abortController: AbortController,
+        baseSettings: NotesCriticSettings,
+        conversationToUse: ConversationTurn[]
+    ): Promise<void> => {
+        const provider = new LLMProvider(criticSettings(baseSettings, critic), app);
+        const history = conversationToUse.filter(t => t.id !== turn.id);
+
+        try {
+            for (let stepsLeft = MAX_TURN_STEPS; ; stepsLeft--) {
+                const step = run.steps[run.steps.length - 1];
+                for await (const chunk of provider.callLLM([...history, { ...turn, steps: run.steps }])) {
+                    if (abortController.signal.aborted) {
+                        throw new Error(ABORT_ERROR_MESSAGE);
+                    }
+                    processStreamChunk(chunk, step, callback, run);
+                }
+
+                if (step.error && !isRetryableError(step.error)) {
+                    throw new Error(step.error);
+                }
+                if (!shouldContinueToNextStep(step, stepsLeft)) break;
+
+                run.steps.push(createEmptyStep());
+                callback?.({ type: 'step_complete', step });
+            }
+        } catch (error) {
+            run.error = error.message;
+        } finally {
+            run.isComplete = true;
+        }
+    }, [app, processStreamChunk, shouldContinueToNextStep, createEmptyStep]);
+
+    /**
+     * Run a panel of critics concurrently and make the turn's reply their merged
+     * report. Critics that fail are left out of the report; the turn only fails
+     * if all of them do.
+     */
+    const streamCriticPanel = useCallback(async (
+        turn: ConversationTurn,
+        critics: CriticPersona[],
+        callback: ConversationCallback | undefined,
+        abortController: AbortController,
+        overrideSettings: NotesCriticSettings | undefined,
+        conversationToUse: ConversationTurn[]
+    ): Promise<void> => {
+        const baseSettings = overrideSettings || settings;
+        turn.critics = critics.map(critic => ({
+            critic: critic.name,
+            model: critic.model ?? baseSettings.model,
+            steps: [createEmptyStep()],
+            isComplete: false
+        }));
+        const runs = turn.critics;
+
+        await Promise.all(critics.map((critic, index) =>
+            streamCriticRun(runs[index], critic, turn, callback, abortController, baseSettings, conversationToUse)
+        ));
+
+        if (abortController.signal.aborted) {
+            throw new Error(ABORT_ERROR_MESSAGE);
+        }
+        const finished = runs.filter(run => !run.error);
+        if (finished.length === 0) {
+            throw new Error(`Every critic failed: ${runs.map(run => `${run.critic}: ${run.error}`).join('; ')}`);
+        }
+
+        const report = mergeCriticReports(finished.map(run => ({
+            critic: run.critic,
+            response: run.steps.map(step => step.content ?? '').join('\n')
+        })));
+        turn.steps = [{
+            ...createEmptyStep(),
+            content: report,
+            chunks: [{ type: 'content', id: `${turn.id}-merged`, content: report }]
+        }];
+        turn.isComplete = true;
+        callback?.({ type: 'turn_complete', turn });
+    }, [settings, createEmptyStep, streamCriticRun]);
+
     const streamTurnResponse = useCallback(async (params: StreamTurnParams): Promise<void> => {
-        const { turn, callback, stepsLeft = MAX_TURN_STEPS, overrideSettings, currentConversation } = params;
+        const { turn, callback, stepsLeft = MAX_TURN_STEPS, overrideSettings, currentConversation, critics } = params;
         let { abortController } = params;
 
         if (!abortController) {
@@ -361,6 +461,10 @@ export function useConversationManager(): UseConversationManagerReturn {
 
         try {
             const conversationToUse = currentConversation || conversation;
+            if (critics && critics.length > 0) {
+                await streamCriticPanel(turn, critics, callback, abortController, overrideSettings, conversationToUse);
+                return;
+            }
             const completedStep = await streamSingleStep(turn, callback, abortController, overrideSettings, conversationToUse);
 
             // Check if there's a non-retryable error
@@ -434,7 +538,7 @@ export function useConversationManager(): UseConversationManagerReturn {
         }
 
         // Note: History saving is now handled by the parent component that uses useHistoryManager
-    }, [conversationId, title, conversation, streamSingleStep, shouldContinueToNextStep, createEmptyStep]);
+    }, [conversationId, title, conversation, streamSingleStep, streamCriticPanel, shouldContinueToNextStep, createEmptyStep]);
 
     const newConversationRound = useCallback(async (params: NewRoundParams): Promise<ConversationTurn> => {
         // If inference is running, cancel it but keep the generated content
@@ -454,7 +558,8 @@ export function useConversationManager(): UseConversationManagerReturn {
             callback: params.callback,
             overrideSettings: params.overrideSettings,
             abortController: params.abortController,
-            currentConversation: newConversation
+            currentConversation: newConversation,
+            critics: params.critics
         });
 
         return turn;
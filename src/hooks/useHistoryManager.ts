@@ -32,7 +32,7 @@ const parseHistory = ({ id, title, conversation, tokenUsage }: History): History
 
 export const useHistoryManager = () => {
     const app = useApp();
-    const { settings } = useSettings();
+    const { settings, plugin } = useSettings();
     const [history, setHistory] = useState<Map<string, History>>(new Map());
     const [historyList, setHistoryList] = useState<History[]>([]);
 
@@ -41,10 +41,15 @@ export const useHistoryManager = () => {
     }, [settings.logPath]);
 
     const makeTitle = useCallback(async (conversation: ConversationTurn[]): Promise<string> => {
-        const provider = new LLMProvider({ ...settings, model: settings.summarizerModel }, app);
+        // Feedback on a note is titled with the summarizer its rules pick, e.g. a local model for private notes
+        const notePath = conversation.find(turn => turn.userInput.type !== 'chat_message')?.userInput.files?.[0]?.path;
+        const config = notePath && plugin.ruleManager
+            ? await plugin.ruleManager.getEffectiveConfig(notePath, settings)
+            : settings;
+        const provider = new LLMProvider({ ...config, model: config.summarizerModel }, app);
         const title = await provider.makeTitle(conversation);
         return title;
-    }, [settings, app]);
+    }, [settings, app, plugin]);
 
     const saveHistory = useCallback(async (historyItem: History): Promise<string> => {
         if (!historyItem.conversation || historyItem.conversation.length === 0) {
@@ -2,12 +2,18 @@ import React, { useState, useCallback, useContext, createContext, ReactNode, use
 import { App, Plugin, Events } from 'obsidian';
 import { NotesCriticSettings } from 'types';
 import { TokenTracker } from 'services/TokenTracker';
+import { FeedbackItemStore } from 'services/FeedbackItemStore';
+import { RuleManager } from 'rules/RuleManager';
+import { ChangeTracker } from 'services/ChangeTracker';
 
 type AppPlugin = Plugin & { 
     settings: NotesCriticSettings; 
     saveSettings(): Promise<void>;
     settingsEvents?: Events;
     tokenTracker?: TokenTracker;
+    feedbackItemStore?: FeedbackItemStore;
+    ruleManager?: RuleManager;
+    changeTracker?: ChangeTracker;
     setCurrentConversationId?: (id: string) => void;
 };
 
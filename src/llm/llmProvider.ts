@@ -86,6 +86,7 @@ export class LLMProvider {
     }
 
     updateSettings(settings: NotesCriticSettings, app: App) {
+        this.settings = settings;
         this.provider = this.createProvider(settings, app);
     }
 
@@ -6,6 +6,8 @@ import { ConversationTurn } from "types";
 import { NotesCriticSettings } from "types";
 import { LLMFile } from "types";
 import { AVAILABLE_MODELS } from "../../constants";
+import { STRUCTURED_FEEDBACK_TOOL, structuredFeedbackSchema, wantsStructuredFeedback } from "../../structuredFeedback";
+import { normalizeRubric } from "../../scores";
 
 
 const getModel = (model: string) => AVAILABLE_MODELS[`anthropic/${model}` as keyof typeof AVAILABLE_MODELS]
@@ -158,7 +160,18 @@ export class AnthropicProvider extends BaseLLMProvider {
         console.log(wrappedMessages);
 
         const extras = this.getTools({}, enabledTools)
-        if (thinking && canThink(this.getModel(), this.settings.thinkingBudgetTokens)) {
+        const structured = wantsStructuredFeedback(this.settings, messages)
+        if (structured) {
+            // Forcing the tool makes the model answer with the feedback as its input
+            extras.tools = [...extras.tools, {
+                name: STRUCTURED_FEEDBACK_TOOL,
+                description: 'Report feedback on the note as a list of issues.',
+                input_schema: structuredFeedbackSchema(normalizeRubric(this.settings.rubric))
+            }]
+            extras.tool_choice = { type: 'tool', name: STRUCTURED_FEEDBACK_TOOL }
+        }
+        // Thinking can't be combined with a forced tool
+        if (thinking && !structured && canThink(this.getModel(), this.settings.thinkingBudgetTokens)) {
             extras.thinking = {
                 type: 'enabled',
                 budget_tokens: this.settings.thinkingBudgetTokens
@@ -194,6 +207,9 @@ export class AnthropicProvider extends BaseLLMProvider {
     }
 
     protected createObjectParser(): (obj: any) => StreamParseResult {
+        // Block holding structured feedback, which is passed on as content instead of a tool call
+        let feedbackBlock: number | null = null;
+
         return (obj: any): StreamParseResult => {
             if (obj.type === 'error') {
                 return { error: obj.error }
@@ -202,6 +218,9 @@ export class AnthropicProvider extends BaseLLMProvider {
                 if (obj?.delta?.thinking) {
                     return { content: obj.delta.thinking, isThinking: true };
                 }
+                if (obj.delta?.type === 'input_json_delta' && obj.index === feedbackBlock) {
+                    return { content: obj.delta.partial_json, isThinking: false };
+                }
                 // Handle streaming tool input JSON
                 if (obj.delta?.type === 'input_json_delta') {
                     return {
@@ -221,6 +240,15 @@ export class AnthropicProvider extends BaseLLMProvider {
                     return { content, isThinking: false };
                 }
             } else if (obj.type === 'content_block_start') {
+                if (obj.content_block?.type === 'tool_use' && obj.content_block.name === STRUCTURED_FEEDBACK_TOOL) {
+                    feedbackBlock = obj.index;
+                    return {
+                        blockStart: {
+                            index: obj.index,
+                            type: 'content'
+                        }
+                    };
+                }
                 if (["tool_use", 'mcp_tool_use', "server_tool_use"].includes(obj.content_block?.type)) {
                     return {
                         toolCall: {
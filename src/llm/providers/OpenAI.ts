@@ -3,6 +3,8 @@ import { browserToolDefinition, textEditorToolDefinition, memoryToolDefinition,
 import { ConversationTurn } from "types";
 import { NotesCriticSettings } from "types";
 import { LLMFile } from "types";
+import { structuredFeedbackSchema, wantsStructuredFeedback } from "../../structuredFeedback";
+import { normalizeRubric } from "../../scores";
 
 // OpenAI provider implementation
 export class OpenAIProvider extends BaseLLMProvider {
@@ -53,6 +55,17 @@ export class OpenAIProvider extends BaseLLMProvider {
             extras.tools.push(...mcpConfigs);
         }
 
+        if (wantsStructuredFeedback(this.settings, messages)) {
+            extras.text = {
+                format: {
+                    type: 'json_schema',
+                    name: 'feedback',
+                    schema: structuredFeedbackSchema(normalizeRubric(this.settings.rubric)),
+                    strict: true
+                }
+            };
+        }
+
         return {
             url: 'https://api.openai.com/v1/responses',
             method: 'POST',
@@ -119,6 +119,33 @@ export class TextEditorTool {
         }
     }
 
+    /** Run several `str_replace` commands on one file as a single edit: all are made, or none. */
+    async replaceAll(commands: StrReplaceCommand[]): Promise<TextEditorToolResult> {
+        if (commands.length === 0) {
+            return { success: false, error: 'No replacements given' };
+        }
+        const path = commands[0].path;
+        if (commands.some(command => command.path !== path)) {
+            return { success: false, error: 'All replacements must be in the same file' };
+        }
+
+        const normalizedPath = this.normalizePath(path);
+        try {
+            const result = await this.getFileAndSaveHistory(normalizedPath, path);
+            if ('success' in result) return result;
+
+            return await fileOps.replaceTexts(this.app, normalizedPath, commands.map(({ old_str, new_str = '' }) => ({
+                oldStr: old_str,
+                newStr: new_str
+            })));
+        } catch (error) {
+            return {
+                success: false,
+                error: `Failed to replace text in ${path}: ${error.message}`
+            };
+        }
+    }
+
     private async createFile(command: CreateCommand, normalizedPath: string): Promise<TextEditorToolResult> {
         const { file_text = '' } = command;
         return await fileOps.createFile(this.app, normalizedPath, file_text, false);
@@ -190,6 +190,62 @@ export async function replaceText(
     }
 }
 
+/**
+ * Make several replacements in a file at once. Each old string must match
+ * exactly once in the file as it is, and no two may overlap; otherwise
+ * nothing is written.
+ */
+export async function replaceTexts(
+    app: App,
+    path: string,
+    replacements: { oldStr: string; newStr: string }[]
+): Promise<FileOperationResult> {
+    try {
+        const { content, file } = await getFileContent(app, path);
+
+        const spans: { from: number; to: number; newStr: string }[] = [];
+        for (const { oldStr, newStr } of replacements) {
+            const matches = oldStr ? content.split(oldStr).length - 1 : 0;
+            if (matches !== 1) {
+                return {
+                    success: false,
+                    error: matches === 0
+                        ? `No match found for replacement text: ${oldStr}`
+                        : `Found ${matches} matches for replacement text: ${oldStr}`
+                };
+            }
+            const from = content.indexOf(oldStr);
+            spans.push({ from, to: from + oldStr.length, newStr });
+        }
+
+        spans.sort((a, b) => a.from - b.from);
+        for (let i = 1; i < spans.length; i++) {
+            if (spans[i].from < spans[i - 1].to) {
+                return {
+                    success: false,
+                    error: `Replacements overlap: ${content.slice(spans[i].from, spans[i].to)}`
+                };
+            }
+        }
+
+        let newContent = content;
+        for (const span of spans.reverse()) {
+            newContent = newContent.slice(0, span.from) + span.newStr + newContent.slice(span.to);
+        }
+        await writeFileContent(app, path, newContent, file);
+
+        return {
+            success: true,
+            content: `Successfully made ${spans.length} replacement${spans.length === 1 ? '' : 's'} in ${path}`
+        };
+    } catch (error) {
+        return {
+            success: false,
+            error: error.message?.includes('File not found') ? error.message : `Failed to replace text in ${path}: ${error.message}`
+        };
+    }
+}
+
 export async function insertText(
     app: App,
     path: string,
@@ -1,6 +1,8 @@
-import { Notice, Plugin, WorkspaceLeaf, Events } from 'obsidian';
-import { NotesCriticSettings, CHAT_VIEW_CONFIG } from 'types';
+import { App, Notice, Plugin, WorkspaceLeaf, Events, TAbstractFile, TFile, TFolder } from 'obsidian';
+import { NotesCriticSettings, CHAT_VIEW_CONFIG, SCORES_VIEW_CONFIG, RULES_EXPLAIN_VIEW_CONFIG } from 'types';
 import { ChatView } from 'views/ChatView';
+import { ScoresView } from 'views/ScoresView';
+import { RulesExplainView } from 'views/RulesExplainView';
 import { NotesCriticSettingsTab } from 'settings/SettingsTab';
 import { OAuthClient } from 'llm/oauthClient';
 import { MCP_AUTH_CALLBACK, DEFAULT_SETTINGS } from './constants';
@@ -10,16 +12,42 @@ import { createRoot, Root } from 'react-dom/client';
 import { ModelSelector } from 'views/components/ModelSelector';
 import { SettingsProvider } from 'hooks/useSettings';
 import { TokenTracker } from 'services/TokenTracker';
+import { SnapshotStore } from 'services/SnapshotStore';
+import { ChangeTracker } from 'services/ChangeTracker';
+import { CheckpointStore } from 'services/CheckpointStore';
+import { FeedbackItemStore } from 'services/FeedbackItemStore';
+import { ScoreStore } from 'services/ScoreStore';
+import { AnnotationManager } from 'services/AnnotationManager';
+import { RuleManager } from 'rules/RuleManager';
+import { relinkConversationLogs } from 'services/ConversationLogs';
+import { isSidecarPath, sidecarPath } from './reviewOutput';
 import { TokenUsageDisplay } from 'views/components/TokenUsageDisplay';
 
+const SAVE_CALLBACKS = ['callback', 'checkCallback', 'editorCallback', 'editorCheckCallback'] as const;
+
+type SaveCommand = Partial<Record<typeof SAVE_CALLBACKS[number], (...args: unknown[]) => unknown>>;
+
+/** The part of Obsidian's undocumented command registry the save hook uses. */
+type AppWithCommands = App & {
+    commands?: { commands?: Record<string, SaveCommand | undefined> };
+};
+
 export default class NotesCritic extends Plugin {
     settings: NotesCriticSettings;
     mcpManager: MCPManager;
     settingsEvents: Events = new Events();
     tokenTracker: TokenTracker = new TokenTracker();
+    snapshotStore: SnapshotStore;
+    ruleManager: RuleManager;
+    changeTracker: ChangeTracker;
+    checkpointStore: CheckpointStore;
+    feedbackItemStore: FeedbackItemStore;
+    scoreStore: ScoreStore;
+    annotationManager: AnnotationManager;
     currentConversationId: string | null = null;
     private statusBarItem: HTMLElement | null = null;
     private statusBarReactRoot: Root | null = null;
+    private activeNote: TFile | null = null;
 
     async activateView() {
         const { workspace } = this.app;
@@ -45,13 +73,51 @@ export default class NotesCritic extends Plugin {
         }
     }
 
+    async activateScoresView() {
+        await this.activateSidebarView(SCORES_VIEW_CONFIG.type);
+    }
+
+    async activateRulesExplainView() {
+        await this.activateSidebarView(RULES_EXPLAIN_VIEW_CONFIG.type);
+    }
+
+    private async activateSidebarView(type: string) {
+        const { workspace } = this.app;
+
+        let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(type)[0] ?? null;
+        if (!leaf) {
+            leaf = workspace.getRightLeaf(false);
+            if (leaf) {
+                await leaf.setViewState({ type, active: true });
+            }
+        }
+
+        if (leaf) {
+            workspace.revealLeaf(leaf);
+        }
+    }
+
     async onload() {
         await this.loadSettings();
         this.mcpManager = new MCPManager(this.settings);
+        this.snapshotStore = new SnapshotStore(this.app, this.settings);
+        this.ruleManager = new RuleManager(this.app);
+        this.changeTracker = new ChangeTracker(this.app, this.settings, this.ruleManager, this.snapshotStore);
+        this.checkpointStore = new CheckpointStore(this.app, this.settings);
+        this.feedbackItemStore = new FeedbackItemStore(this.app, this.settings);
+        this.scoreStore = new ScoreStore(this.app, this.settings);
+        this.annotationManager = new AnnotationManager(this.app);
+        this.registerEditorExtension(this.annotationManager.editorExtension());
 
         this.registerView(CHAT_VIEW_CONFIG.type, (leaf) => {
             return new ChatView(leaf, this);
         });
+        this.registerView(SCORES_VIEW_CONFIG.type, (leaf) => {
+            return new ScoresView(leaf, this);
+        });
+        this.registerView(RULES_EXPLAIN_VIEW_CONFIG.type, (leaf) => {
+            return new RulesExplainView(leaf, this);
+        });
 
         this.registerObsidianProtocolHandler(MCP_AUTH_CALLBACK, async (e) => {
             const parameters = e as unknown as { code: string, state: string };
@@ -90,8 +156,88 @@ export default class NotesCritic extends Plugin {
             this.activateView.bind(this)
         );
 
+        this.addCommand({
+            id: 'open-note-scores',
+            name: 'Open note scores',
+            callback: () => this.activateScoresView()
+        });
+
+        this.addCommand({
+            id: 'explain-rules',
+            name: 'Explain rules for the current note',
+            callback: () => this.activateRulesExplainView()
+        });
+
         this.addSettingTab(new NotesCriticSettingsTab(this.app, this));
 
+        // Track edits anywhere in the vault, whether or not the chat view is open
+        this.registerEvent(
+            this.app.vault.on('modify', (file: TAbstractFile) => {
+                this.changeTracker.handleModify(file).catch(error => {
+                    console.error('Error tracking note changes:', error);
+                });
+            })
+        );
+
+        // Pick up rule and critic files as they are added or edited
+        this.registerEvent(
+            this.app.vault.on('create', (file: TAbstractFile) => this.reloadRuleFile(file))
+        );
+        this.registerEvent(
+            this.app.vault.on('modify', (file: TAbstractFile) => this.reloadRuleFile(file))
+        );
+
+        // Keep snapshots, checkpoints, feedback decisions, scores, cooldowns and conversation links in step with the notes they belong to
+        this.registerEvent(
+            this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+                this.handleRename(file, oldPath);
+            })
+        );
+        this.registerEvent(
+            this.app.vault.on('delete', (file: TAbstractFile) => {
+                this.annotationManager.handleDelete(file.path);
+                this.ruleManager.handleDelete(file.path).catch(error => {
+                    console.error('Error removing rules:', error);
+                });
+                this.changeTracker.handleDelete(file).catch(error => {
+                    console.error('Error removing note snapshot:', error);
+                });
+            })
+        );
+
+        // Rules can select notes on their tags, properties and text, which change without a rename
+        this.registerEvent(
+            this.app.metadataCache.on('changed', (file: TFile) => {
+                this.changeTracker.handleMetadataChange(file).catch(error => {
+                    console.error('Error re-evaluating rules for note:', error);
+                });
+            })
+        );
+
+        // Show a note's annotations in editors that switch to it, and track it from here on if a rule covers it
+        this.registerEvent(
+            this.app.workspace.on('file-open', (file: TFile | null) => {
+                if (!file) return;
+                this.annotationManager.refresh(file.path);
+                this.changeTracker.handleOpen(file).catch(error => {
+                    console.error('Error tracking note changes:', error);
+                });
+            })
+        );
+
+        // Idle feedback is sent early when the writer leaves the note or saves it
+        this.registerEvent(
+            this.app.workspace.on('active-leaf-change', () => {
+                this.handleActiveNoteChange();
+            })
+        );
+        this.wrapSaveCommand();
+
+        this.app.workspace.onLayoutReady(async () => {
+            await this.pruneSnapshots();
+            await this.startChangeTracking();
+        });
+
         // Listen for view state changes to show/hide status bar
         this.registerEvent(
             this.app.workspace.on('layout-change', () => {
@@ -161,6 +307,108 @@ export default class NotesCritic extends Plugin {
         }
     }
 
+    private async pruneSnapshots() {
+        try {
+            await this.snapshotStore.prune(path => this.app.vault.getAbstractFileByPath(path) !== null);
+        } catch (error) {
+            console.error('Error pruning note snapshots:', error);
+        }
+    }
+
+    private reloadRuleFile(file: TAbstractFile) {
+        const reload = file instanceof TFolder ? this.ruleManager.handleFolderCreate(file.path) : this.ruleManager.handleFileChange(file.path);
+        reload.catch(error => {
+            console.error(`Error reloading rule file ${file.path}:`, error);
+        });
+    }
+
+    private async handleRename(file: TAbstractFile, oldPath: string) {
+        try {
+            this.annotationManager.handleRename(oldPath, file.path);
+            // Rules moved along with their folder apply at the new location before notes are matched there
+            await this.ruleManager.handleRename(file.path, oldPath);
+            await this.changeTracker.handleRename(file, oldPath);
+            await this.checkpointStore.rename(oldPath, file.path);
+            await this.feedbackItemStore.rename(oldPath, file.path);
+            await this.scoreStore.rename(oldPath, file.path);
+            await relinkConversationLogs(this.app, this.settings.logPath, oldPath, file.path);
+            await this.moveReviewFile(file, oldPath);
+        } catch (error) {
+            console.error(`Error updating notes critic data for ${oldPath}:`, error);
+        }
+    }
+
+    /** Keep a renamed note's review file next to it. Files in a renamed folder move with it anyway. */
+    private async moveReviewFile(file: TAbstractFile, oldPath: string) {
+        if (!(file instanceof TFile) || isSidecarPath(oldPath)) return;
+
+        const sidecar = this.app.vault.getAbstractFileByPath(sidecarPath(oldPath));
+        if (sidecar && !this.app.vault.getAbstractFileByPath(sidecarPath(file.path))) {
+            await this.app.fileManager.renameFile(sidecar, sidecarPath(file.path));
+        }
+    }
+
+    private handleActiveNoteChange() {
+        // getActiveFile keeps the last note while a sidebar such as the chat view is focused
+        const file = this.app.workspace.getActiveFile();
+        if (this.activeNote && this.activeNote !== file) {
+            this.flushIdleFeedback(this.activeNote);
+        }
+        this.activeNote = file;
+    }
+
+    /**
+     * Hook the built-in save command, which has no event of its own. Other
+     * plugins may wrap it too, so on unload a callback is only put back while
+     * it is still ours, and otherwise our wrapper just stops reacting.
+     */
+    private wrapSaveCommand() {
+        const command = (this.app as AppWithCommands).commands?.commands?.['editor:save-file'];
+        if (!command) return;
+
+        let active = true;
+        this.register(() => {
+            active = false;
+        });
+        for (const key of SAVE_CALLBACKS) {
+            const original = command[key];
+            if (typeof original !== 'function') continue;
+
+            const wrapper = (...args: unknown[]) => {
+                const result = original.apply(command, args);
+                // Check callbacks are also called with `true` just to ask whether the command is available
+                const checking = (key === 'checkCallback' || key === 'editorCheckCallback') && args[0] === true;
+                if (active && !checking) {
+                    Promise.resolve(result).then(() => {
+                        const file = this.app.workspace.getActiveFile();
+                        if (file) this.flushIdleFeedback(file);
+                    });
+                }
+                return result;
+            };
+            command[key] = wrapper;
+            this.register(() => {
+                if (command[key] === wrapper) {
+                    command[key] = original;
+                }
+            });
+        }
+    }
+
+    private flushIdleFeedback(file: TFile) {
+        this.changeTracker.flushIdleFeedback(file).catch(error => {
+            console.error('Error triggering feedback:', error);
+        });
+    }
+
+    private async startChangeTracking() {
+        try {
+            await this.changeTracker.start();
+        } catch (error) {
+            console.error('Error starting change tracking:', error);
+        }
+    }
+
     async triggerFeedbackForCurrentNote() {
         const leaves = this.app.workspace.getLeavesOfType(CHAT_VIEW_CONFIG.type);
         if (leaves.length > 0) {
@@ -174,6 +422,7 @@ export default class NotesCritic extends Plugin {
     }
 
     onunload() {
+        this.changeTracker?.stop();
         this.hideStatusBarModelSelector();
     }
 
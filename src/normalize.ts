@@ -0,0 +1,136 @@
+import { NotesCriticSettings } from 'types';
+import { stripReviewOutput } from './reviewOutput';
+
+export type NormalizeOptions = Partial<Pick<NotesCriticSettings, 'ignoreFrontmatter' | 'ignoreWhitespace' | 'ignorePatterns'>>;
+
+const FRONTMATTER = /^---[^\S\n]*\r?\n[\s\S]*?\r?\n---[^\S\n]*(?:\r?\n|$)/;
+const FENCE = /^[^\S\n]{0,3}(```|~~~)/;
+const LIST_ITEM = /^([^\S\n]*)([-*+]|\d+[.)])[^\S\n]+(.*)$/;
+// Lines that start a new block rather than continuing the paragraph above
+const BLOCK_START = /^[^\S\n]*(?:#{1,6}[^\S\n]|>|\||[-*+][^\S\n]|\d+[.)][^\S\n]|(?:[-*_][^\S\n]*){3,}$)/;
+
+/**
+ * Strip the parts of a note that should not count as changes, so cosmetic
+ * edits and written-back reviews neither add up toward feedback thresholds
+ * nor show up in diffs.
+ */
+export function normalizeNote(text: string, options: NormalizeOptions = {}): string {
+    const result = removeIgnored(text, options);
+    return options.ignoreWhitespace ? normalizeWhitespace(result) : result;
+}
+
+/**
+ * Remove written-back reviews, and the frontmatter and patterns the options
+ * ignore, leaving the rest of the note as written. Unlike normalizeNote, the
+ * result only has text that is in the note, so it can be shown and quoted.
+ */
+export function removeIgnored(text: string, options: NormalizeOptions = {}): string {
+    // Reviews written into the note are never the writer's change
+    let result = stripReviewOutput(text);
+
+    if (options.ignoreFrontmatter) {
+        result = result.replace(FRONTMATTER, '');
+    }
+
+    for (const pattern of compilePatterns(options.ignorePatterns)) {
+        result = result.replace(pattern, '');
+    }
+
+    return result;
+}
+
+function compilePatterns(patterns: string[] = []): RegExp[] {
+    const compiled: RegExp[] = [];
+    for (const pattern of patterns) {
+        if (!pattern.trim()) continue;
+        try {
+            compiled.push(new RegExp(pattern, 'gm'));
+        } catch (error) {
+            console.warn(`Ignoring invalid ignore pattern ${pattern}:`, error);
+        }
+    }
+    return compiled;
+}
+
+/** A line of a note with whitespace normalized, and the lines of the note it was made from. */
+export interface NormalizedLine {
+    text: string;
+    start: number; // First source line, counting from 0
+    end: number; // Line after the last source line
+}
+
+function normalizeWhitespace(text: string): string {
+    return normalizeLines(text).lines.map(line => line.text).join('\n');
+}
+
+/**
+ * Undo the changes formatters and editors make without changing meaning:
+ * trailing and repeated spaces, hard-wrapped paragraphs, blank line runs,
+ * list marker style and ordered list numbering, and `_`/`__` emphasis.
+ * Code blocks are left alone apart from trailing spaces. Returns the note's
+ * lines along with the normalized ones, which say which lines they are from;
+ * blank lines at the start and end of the note belong to none.
+ */
+export function normalizeLines(text: string): { source: string[]; lines: NormalizedLine[] } {
+    const source = text.replace(/\r\n?/g, '\n').split('\n');
+    const output: NormalizedLine[] = [];
+    let fence: string | null = null;
+    // Whether the next plain line continues the last output line
+    let continues = false;
+
+    for (let index = 0; index < source.length; index++) {
+        const raw = source[index];
+        const last = output[output.length - 1];
+        const push = (line: string) => output.push({ text: line, start: index, end: index + 1 });
+
+        const fenceMatch = raw.match(FENCE);
+        if (fence !== null || fenceMatch) {
+            push(raw.replace(/\s+$/, ''));
+            if (fenceMatch) {
+                fence = fence === null ? fenceMatch[1] : (fence === fenceMatch[1] ? null : fence);
+            }
+            continues = false;
+            continue;
+        }
+
+        const line = normalizeEmphasis(raw.trim().replace(/[^\S\n]+/g, ' '));
+        if (!line) {
+            if (last?.text === '') {
+                last.end = index + 1;
+            } else if (last) {
+                push('');
+            }
+            continues = false;
+            continue;
+        }
+
+        const listItem = raw.match(LIST_ITEM);
+        if (listItem) {
+            const indent = listItem[1].replace(/\t/g, '    ');
+            const marker = /\d/.test(listItem[2]) ? '1.' : '-';
+            push(`${indent}${marker} ${normalizeEmphasis(listItem[3].trim().replace(/[^\S\n]+/g, ' '))}`);
+            continues = true;
+            continue;
+        }
+
+        if (continues && !BLOCK_START.test(raw)) {
+            last.text += ` ${line}`;
+            last.end = index + 1;
+            continue;
+        }
+
+        push(line);
+        continues = !BLOCK_START.test(raw);
+    }
+
+    while (output.length > 0 && output[output.length - 1].text === '') {
+        output.pop();
+    }
+    return { source, lines: output };
+}
+
+function normalizeEmphasis(line: string): string {
+    return line
+        .replace(/(^|[^\w_])__(?=\S)([^_\n]*?\S)__(?![\w_])/g, '$1**$2**')
+        .replace(/(^|[^\w_])_(?=\S)([^_\n]*?\S)_(?![\w_])/g, '$1*$2*');
+}
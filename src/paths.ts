@@ -0,0 +1,35 @@
+/** Whether `path` is `target` itself or lies inside the folder `target`. */
+export function isWithin(path: string, target: string): boolean {
+    return path === target || path.startsWith(`${target}/`);
+}
+
+/**
+ * Where `path` ends up after `oldPath` (a note or a folder) is renamed to
+ * `newPath`, or null if the rename does not affect it.
+ */
+export function rebasePath(path: string, oldPath: string, newPath: string): string | null {
+    if (!isWithin(path, oldPath)) return null;
+    return newPath + path.slice(oldPath.length);
+}
+
+/** Re-key every entry of `map` affected by a rename. Returns the new keys. */
+export function rebaseKeys<T>(map: Map<string, T>, oldPath: string, newPath: string): string[] {
+    const moved: string[] = [];
+    for (const [path, value] of Array.from(map.entries())) {
+        const movedTo = rebasePath(path, oldPath, newPath);
+        if (movedTo === null) continue;
+        map.delete(path);
+        map.set(movedTo, value);
+        moved.push(movedTo);
+    }
+    return moved;
+}
+
+/** Delete every entry of `map` (or `set`) for `path` or anything inside it. */
+export function deleteKeysWithin<T>(map: Map<string, T> | Set<string>, path: string): void {
+    for (const key of Array.from(map.keys())) {
+        if (isWithin(key, path)) {
+            map.delete(key);
+        }
+    }
+}
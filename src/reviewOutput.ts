@@ -0,0 +1,186 @@
+import { FeedbackItem } from 'types';
+import { anchorAnnotations, locateQuote, parseAnnotations, stripAnnotations } from './annotations';
+import { feedbackScore, parseStructuredFeedback } from './structuredFeedback';
+import { stripScores } from './scores';
+
+/** Callout type of the feedback written into notes. Only callouts of this type are ever replaced. */
+export const CRITIC_CALLOUT = 'critic';
+
+export const SCORE_PROPERTY = 'critic_score';
+export const LAST_REVIEW_PROPERTY = 'critic_last_review';
+
+const SIDECAR_SUFFIX = '.review.md';
+// Re-reviews replace what is between these, so the writer's own notes in the file are kept
+const SIDECAR_START = '<!-- notes-critic:review -->';
+const SIDECAR_END = '<!-- /notes-critic:review -->';
+
+const FRONTMATTER = /^---[^\S\n]*\r?\n[\s\S]*?\r?\n---[^\S\n]*(?:\r?\n|$)/;
+const EMPTY_FRONTMATTER = /^---[^\S\n]*\r?\n---[^\S\n]*(?:\r?\n|$)/;
+const REVIEW_PROPERTIES = new RegExp(`^(?:${SCORE_PROPERTY}|${LAST_REVIEW_PROPERTY}):.*(?:\\r?\\n|$)`, 'gm');
+const FENCE = /^[^\S\n]{0,3}(?:```|~~~)/gm;
+// A critic callout with the blank line written before it
+const CALLOUT = new RegExp(`(?:^|\\n\\n?)> \\[!${CRITIC_CALLOUT}\\][-+]?[^\\n]*(?:\\n>[^\\n]*)*`, 'g');
+
+export interface ReviewComment {
+    title: string;
+    body: string;
+    quote?: string; // Text in the note the comment is about; none for the note as a whole
+}
+
+/** A review in the form it is written into the vault. */
+export interface NoteReview {
+    reviewedAt: Date;
+    comments: ReviewComment[];
+    score?: number; // Only structured feedback is scored
+}
+
+function commentFromItem(item: FeedbackItem): ReviewComment {
+    return {
+        title: `${item.severity} · ${item.category}`,
+        body: item.suggestedReplacement !== undefined
+            ? `${item.explanation}\n\nSuggested: ${item.suggestedReplacement}`
+            : item.explanation,
+        ...(item.quote.trim() && { quote: item.quote })
+    };
+}
+
+/**
+ * Turn a critic's reply into a review of the note. Structured feedback gives
+ * one comment per issue and a score; free-form replies give the reply itself
+ * and any comments it anchored to the note.
+ */
+export function reviewFromResponse(response: string, content: string, reviewedAt = new Date()): NoteReview {
+    const structured = parseStructuredFeedback(response);
+    if (structured) {
+        return {
+            reviewedAt,
+            comments: structured.items.map(commentFromItem),
+            score: feedbackScore(structured.items)
+        };
+    }
+
+    const summary = stripScores(stripAnnotations(response)).trim();
+    const annotations = anchorAnnotations(content, parseAnnotations(response))
+        .map(annotation => ({ title: 'Comment', body: annotation.comment, quote: annotation.quote }));
+    return {
+        reviewedAt,
+        comments: [...(summary ? [{ title: 'Review', body: summary }] : []), ...annotations]
+    };
+}
+
+function formatCallout(comment: ReviewComment): string {
+    const body = comment.body.split('\n').map(line => line ? `> ${line}` : '>');
+    // Collapsed, so reviews don't take over the note
+    return [`> [!${CRITIC_CALLOUT}]- ${comment.title.replace(/\s+/g, ' ')}`, ...body].join('\n');
+}
+
+/** The note without the critic callouts a review wrote into it. */
+export function removeCallouts(content: string): string {
+    return content.replace(CALLOUT, '');
+}
+
+const insideFence = (text: string, at: number) => (text.slice(0, at).match(FENCE) ?? []).length % 2 === 1;
+
+/**
+ * Write a review into a note as callouts, each after the paragraph its quote
+ * is in, replacing the callouts of the last review. Comments on the note as a
+ * whole, and those whose text can't be found, go at the end.
+ */
+export function writeCallouts(content: string, review: NoteReview): string {
+    const text = removeCallouts(content);
+    const end = text.trimEnd().length;
+    const bodyStart = text.match(FRONTMATTER)?.[0].length ?? 0;
+
+    const callouts = new Map<number, string[]>();
+    for (const comment of review.comments) {
+        const found = comment.quote ? locateQuote(text, comment.quote) : null;
+        let at = end;
+        if (found && found.from >= bodyStart) {
+            const blockEnd = text.indexOf('\n\n', found.to);
+            at = blockEnd === -1 ? end : Math.min(blockEnd, end);
+            if (insideFence(text, at)) at = end;
+        }
+        callouts.set(at, [...(callouts.get(at) ?? []), formatCallout(comment)]);
+    }
+
+    let result = text;
+    for (const at of Array.from(callouts.keys()).sort((a, b) => b - a)) {
+        const inserted = (callouts.get(at) ?? []).map(callout => `\n\n${callout}`).join('');
+        result = result.slice(0, at) + inserted + result.slice(at);
+    }
+    return result;
+}
+
+/** Where the review of a note is written in sidecar mode: `note.md` gets `note.review.md`. */
+export function sidecarPath(notePath: string): string {
+    return `${notePath.replace(/\.md$/, '')}${SIDECAR_SUFFIX}`;
+}
+
+export function isSidecarPath(path: string): boolean {
+    return path.endsWith(SIDECAR_SUFFIX);
+}
+
+function formatReview(noteLink: string, review: NoteReview): string {
+    const lines = [
+        `# Review of ${noteLink}`,
+        '',
+        `Reviewed ${review.reviewedAt.toLocaleString()}${review.score !== undefined ? ` · Score ${review.score}/100` : ''}`
+    ];
+    if (review.comments.length === 0) {
+        lines.push('', 'No issues found.');
+    }
+    for (const comment of review.comments) {
+        lines.push('', `## ${comment.title}`);
+        if (comment.quote) {
+            lines.push('', ...comment.quote.trim().split('\n').map(line => `> ${line}`));
+        }
+        lines.push('', comment.body);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * The sidecar file with a review in it, linking back to the note. The last
+ * review's section is replaced; anything else in the file is kept.
+ */
+export function writeSidecar(existing: string | null, noteLink: string, review: NoteReview): string {
+    const section = `${SIDECAR_START}\n${formatReview(noteLink, review)}\n${SIDECAR_END}`;
+    if (!existing?.trim()) return `${section}\n`;
+
+    const start = existing.indexOf(SIDECAR_START);
+    const end = existing.indexOf(SIDECAR_END, start);
+    if (start !== -1 && end !== -1) {
+        return existing.slice(0, start) + section + existing.slice(end + SIDECAR_END.length);
+    }
+    return `${existing.trimEnd()}\n\n${section}\n`;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Local date and time in the form Obsidian's date & time properties use. */
+function formatDateTime(date: Date): string {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+        `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/** Set the review properties on a note's frontmatter, e.g. from `processFrontMatter`. */
+export function updateReviewProperties(frontmatter: Record<string, unknown>, review: NoteReview): void {
+    if (review.score !== undefined) {
+        frontmatter[SCORE_PROPERTY] = review.score;
+    }
+    frontmatter[LAST_REVIEW_PROPERTY] = formatDateTime(review.reviewedAt);
+}
+
+/**
+ * The note without anything reviews wrote into it, so the critic's own output
+ * never counts as a change by the writer.
+ */
+export function stripReviewOutput(content: string): string {
+    const text = removeCallouts(content);
+    const frontmatter = text.match(FRONTMATTER)?.[0];
+    if (!frontmatter) return text;
+
+    const stripped = frontmatter.replace(REVIEW_PROPERTIES, '');
+    // Frontmatter that only held review properties was added by a review
+    return (EMPTY_FRONTMATTER.test(stripped) ? '' : stripped) + text.slice(frontmatter.length);
+}
@@ -1,24 +1,93 @@
-import { App, normalizePath } from 'obsidian';
-import { NotesCriticRule, RuleMatch, NotesCriticSettings } from 'types';
+import { App, normalizePath, TFile, TFolder } from 'obsidian';
+import { BaseMCPClient, ConfigFieldSource, CriticPersona, NotesCriticRule, RuleMatch, NotesCriticSettings } from 'types';
 import { Minimatch } from 'minimatch';
+import { deleteKeysWithin, isWithin, rebasePath } from '../paths';
+import { CRITIC_SCHEMA, criticSettings, formatDiagnostic, hasErrors, parseFrontmatter, RULE_SCHEMA, ruleSettings, serializeFrontmatter, setSetting, settingLine } from './ruleSchema';
+import { checkSelectors, hasNoteSelectors, matchNoteSelectors, needsContent, NoteFacts, noteTags } from './ruleSelectors';
+import { ComposedRuleFile, composeRuleFile, mergePrompts, ParsedRuleFile } from './ruleComposition';
 
 interface RuleFile {
     content: string;
     path: string;
 }
 
+const RULES_FOLDER = '.notes-critic/rules';
+const CRITICS_FOLDER = '.notes-critic/critics';
+
+const inFolder = (folder: string) => (path: string) =>
+    path.endsWith('.md') && (path.startsWith(`${folder}/`) || path.includes(`/${folder}/`));
+const isRuleFile = inFolder(RULES_FOLDER);
+const isCriticFile = inFolder(CRITICS_FOLDER);
+
+/** The folder holding a rule file's `.notes-critic` folder, or '' for the vault root. */
+function ruleScope(path: string): string {
+    const index = path.lastIndexOf(`/${RULES_FOLDER}/`);
+    return index === -1 ? '' : path.slice(0, index);
+}
+
+const scopeDepth = (scope = '') => scope ? scope.split('/').length : 0;
+
+/** Rule settings that replace the plugin setting of the same name. */
+const OVERRIDDEN_SETTINGS = [
+    'feedbackThreshold', 'feedbackThresholdUnit', 'feedbackCooldownSeconds', 'feedbackTrigger', 'feedbackIdleSeconds',
+    'diffGranularity', 'maxDiffTokens', 'inlineAnnotations', 'structuredFeedback', 'feedbackOutput',
+    'ignoreFrontmatter', 'ignoreWhitespace', 'ignorePatterns', 'model', 'summarizerModel', 'maxTokens',
+    'maxHistoryTokens', 'thinkingBudgetTokens', 'critics', 'rubric', 'enabledTools', 'memoryDirectory',
+    'memoryMaxViewCharacters'
+] as const;
+
+/** Rule prompts, which may be added to the lower-priority rules' prompts instead of replacing them. */
+const MERGED_PROMPTS = ['systemPrompt', 'feedbackPrompt'] as const;
+
+type EffectiveConfig = NotesCriticSettings & { matchedRules: RuleMatch[] };
+
+/** The MCP clients of the servers named, by name or id. */
+function mcpClientsNamed(clients: BaseMCPClient[] = [], names: string[]): BaseMCPClient[] {
+    return clients.filter(client => {
+        const { id, name } = client.getServerConfig();
+        return names.includes(id) || names.includes(name);
+    });
+}
+
+/**
+ * Loads the rule files in `.notes-critic/rules/` folders and the critic
+ * personas in `.notes-critic/critics/` folders, and works out which rules apply
+ * to a note. Files are read once and then kept up to date from vault events
+ * and saves from the settings; listeners are told whenever the rules or critics change.
+ */
 export class RuleManager {
     private app: App;
     private rules: NotesCriticRule[] = [];
+    private ruleFiles: NotesCriticRule[] = []; // Every rule file, including disabled ones and ones with errors
+    private critics: CriticPersona[] = [];
+    private parsedRules = new Map<string, ParsedRuleFile>();
+    private criticFiles = new Map<string, CriticPersona>();
+    private filePaths = new Set<string>(); // Every rule and critic file read
     private ruleCache = new Map<string, RuleMatch[]>();
-    private lastScanTime = 0;
+    private loading: Promise<void> | null = null;
+    private listeners = new Set<() => void>();
 
     constructor(app: App) {
         this.app = app;
     }
 
-    async initialize(): Promise<void> {
-        await this.scanAndLoadRules();
+    /** Read every rule and critic file. Safe to call repeatedly. */
+    initialize(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.scanAndLoadRules().catch(error => {
+                this.loading = null;
+                throw error;
+            });
+        }
+        return this.loading;
+    }
+
+    /** Be told when rules or critics are added, changed or removed. Returns a function that stops listening. */
+    addListener(callback: () => void): () => void {
+        this.listeners.add(callback);
+        return () => {
+            this.listeners.delete(callback);
+        };
     }
 
     async fetchFile(path: string): Promise<RuleFile> {
@@ -26,161 +95,327 @@ export class RuleManager {
         return { content, path };
     }
 
-    private async getRuleFiles(path: string = "/"): Promise<RuleFile[]> {
-        const files = await this.app.vault.adapter.list(path);
-        return [
-            ...await Promise.all(files.files.filter(file => file?.includes('.notes-critic/rules/')).map(file => this.fetchFile(file))),
-            ...await Promise.all(files.folders.map(folder => this.getRuleFiles(folder)))
-        ].flat()
+    /**
+     * Find the rule and critic files in the given folders. Only `.notes-critic`
+     * folders are listed, not the whole vault; as hidden folders they aren't in
+     * Obsidian's index, so each folder is checked for them
+     */
+    private async getRuleFiles(folders: string[]): Promise<string[]> {
+        const directories = folders.flatMap(folder =>
+            [RULES_FOLDER, CRITICS_FOLDER].map(directory => folder ? `${folder}/${directory}` : directory));
+
+        const found = await Promise.all(directories.map(directory => this.app.vault.adapter.exists(directory)));
+        const files: string[] = [];
+        for (const directory of directories.filter((_, index) => found[index])) {
+            files.push(...await this.listFiles(directory));
+        }
+        return files.filter(path => isRuleFile(path) || isCriticFile(path));
+    }
 
+    private async listFiles(directory: string): Promise<string[]> {
+        const { files, folders } = await this.app.vault.adapter.list(directory);
+        const nested = await Promise.all(folders.map(folder => this.listFiles(folder)));
+        return [...files, ...nested.flat()];
     }
 
     /**
-     * Scan for rule files in .notes-critic/rules/ directories throughout the vault
+     * Scan for rule files in .notes-critic/rules/ directories throughout the vault,
+     * and critic personas in .notes-critic/critics/ directories
      */
     private async scanAndLoadRules(): Promise<void> {
+        const folders = new Set(['', ...this.app.vault.getAllLoadedFiles()
+            .filter((file): file is TFolder => file instanceof TFolder)
+            .map(folder => folder.path === '/' ? '' : folder.path)]);
+        const paths = await this.getRuleFiles(Array.from(folders));
+        this.parsedRules.clear();
+        this.criticFiles.clear();
+        this.filePaths.clear();
+        for (const path of paths) {
+            await this.readFile(path);
+        }
+        this.rebuild();
+    }
+
+    /** Read a rule or critic file into memory, or forget it if it is no longer either. */
+    private async readFile(path: string): Promise<void> {
+        this.parsedRules.delete(path);
+        this.criticFiles.delete(path);
+        this.filePaths.delete(path);
+        if (!isRuleFile(path) && !isCriticFile(path)) return;
+
+        this.filePaths.add(path);
+        const file = await this.fetchFile(path);
+        if (isCriticFile(path)) {
+            const critic = this.parseCriticFile(file);
+            if (critic) {
+                this.criticFiles.set(path, critic);
+            }
+            return;
+        }
+        const parsed = parseFrontmatter(file.content, RULE_SCHEMA, true);
+        parsed.diagnostics.push(...checkSelectors(parsed.values, key => settingLine(file.content, key)));
+        this.parsedRules.set(path, { ...file, ...parsed });
+    }
+
+    /** Compose the rules from the files read, forget cached matches and tell the listeners. */
+    private rebuild(): void {
+        const parsedRules = Array.from(this.parsedRules.values());
         this.rules = [];
+        this.ruleFiles = [];
+        this.critics = Array.from(this.criticFiles.values());
         this.ruleCache.clear();
 
-        const files = await this.getRuleFiles();
-        for (const file of files) {
+        // Rules can extend each other, so every rule file is parsed before any is composed
+        for (const parsed of parsedRules) {
+            const rule = this.ruleFromFile(composeRuleFile(parsed, parsedRules));
+            this.ruleFiles.push(rule);
+            if (hasErrors(rule.diagnostics)) {
+                console.warn(`Rule file ${parsed.path} is disabled due to errors:\n${rule.diagnostics?.map(diagnostic => formatDiagnostic(parsed.path, diagnostic)).join('\n')}`);
+            } else if (rule.enabled) {
+                this.rules.push(rule);
+            }
+        }
+
+        // Rules from deeper folders come first, so they override the ones above them; then by priority
+        this.rules.sort((a, b) => scopeDepth(b.scope) - scopeDepth(a.scope) || (b.priority || 0) - (a.priority || 0));
+        this.notifyListeners();
+    }
+
+    private notifyListeners(): void {
+        this.listeners.forEach(callback => {
             try {
-                const rule = await this.parseRuleFile(file);
-                if (rule && rule.enabled) {
-                    this.rules.push(rule);
-                }
+                callback();
             } catch (error) {
-                console.error(`Error parsing rule file ${file.path}:`, error);
+                console.error('Error in rules listener:', error);
             }
-        }
+        });
+    }
 
-        // Sort by priority (higher priority first)
-        this.rules.sort((a, b) => (b.priority || 0) - (a.priority || 0));
-        this.lastScanTime = Date.now();
+    /** Reload a rule or critic file that was created or edited. */
+    async handleFileChange(path: string): Promise<void> {
+        // Files are read when the rules are first loaded
+        if (!this.loading || (!isRuleFile(path) && !isCriticFile(path))) return;
+        await this.initialize();
+        await this.readFile(path);
+        this.rebuild();
     }
 
     /**
-     * Parse a markdown rule file with YAML frontmatter
+     * Load the rules and critics of a folder added to the vault, e.g. one
+     * copied in along with its `.notes-critic` folder. Obsidian reports each
+     * of its subfolders too.
      */
-    private async parseRuleFile(file: RuleFile): Promise<NotesCriticRule | null> {
-        const content = file.content;
+    async handleFolderCreate(path: string): Promise<void> {
+        if (!this.loading) return;
+        await this.initialize();
+        const paths = await this.getRuleFiles([path]);
+        if (paths.length === 0) return;
+        for (const file of paths) {
+            await this.readFile(file);
+        }
+        this.rebuild();
+    }
 
-        // Split frontmatter and content
-        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
-        if (!frontmatterMatch) {
-            console.warn(`Rule file ${file.path} missing frontmatter`);
-            return null;
+    /** Forget a deleted rule or critic file, or the ones inside a deleted folder. */
+    async handleDelete(path: string): Promise<void> {
+        if (!this.loading) return;
+        await this.initialize();
+        const affected = this.loadedPaths().filter(loaded => isWithin(loaded, path));
+        if (affected.length === 0) return;
+        deleteKeysWithin(this.parsedRules, path);
+        deleteKeysWithin(this.criticFiles, path);
+        deleteKeysWithin(this.filePaths, path);
+        this.rebuild();
+    }
+
+    /**
+     * Follow rule and critic files that were renamed or moved, along with the
+     * folders they are in. Files moved into or out of a rules or critics
+     * folder are loaded or forgotten.
+     */
+    async handleRename(path: string, oldPath: string): Promise<void> {
+        if (!this.loading) return;
+        await this.initialize();
+        const moved = this.loadedPaths().filter(loaded => isWithin(loaded, oldPath));
+        if (moved.length === 0 && !isRuleFile(path) && !isCriticFile(path)) return;
+
+        deleteKeysWithin(this.parsedRules, oldPath);
+        deleteKeysWithin(this.criticFiles, oldPath);
+        deleteKeysWithin(this.filePaths, oldPath);
+        const movedTo = moved.length > 0 ? moved.map(loaded => rebasePath(loaded, oldPath, path) ?? loaded) : [path];
+        for (const newPath of movedTo) {
+            await this.readFile(newPath);
         }
+        this.rebuild();
+    }
 
-        const [, frontmatterText, markdownContent] = frontmatterMatch;
-
-        try {
-            const frontmatter = this.parseYaml(frontmatterText);
-
-            return {
-                name: frontmatter.name || file.path,
-                enabled: frontmatter.enabled ?? true,
-                priority: frontmatter.priority || 0,
-                globs: Array.isArray(frontmatter.globs) ? frontmatter.globs : [],
-                exclude: frontmatter.exclude || [],
-                autoTrigger: frontmatter.autoTrigger ?? true,
-                feedbackThreshold: frontmatter.feedbackThreshold,
-                feedbackCooldownSeconds: frontmatter.feedbackCooldownSeconds,
-                model: frontmatter.model,
-                maxTokens: frontmatter.maxTokens,
-                maxHistoryTokens: frontmatter.maxHistoryTokens,
-                thinkingBudgetTokens: frontmatter.thinkingBudgetTokens,
-                filePath: file.path,
-                content: markdownContent.trim()
-            };
-        } catch (error) {
-            console.error(`Error parsing frontmatter in ${file.path}:`, error);
-            return null;
+    /** The settings and body of a rule file as written, before the rules it extends are folded in. */
+    getRuleFile(path: string): ParsedRuleFile | undefined {
+        return this.parsedRules.get(path);
+    }
+
+    /** Where a new rule file for a folder of the vault goes, named after the rule and not taken yet. */
+    async newRulePath(folder: string, name: string): Promise<string> {
+        const directory = normalizePath(folder ? `${folder}/${RULES_FOLDER}` : RULES_FOLDER);
+        const base = name.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'rule';
+        let path = `${directory}/${base}.md`;
+        for (let copy = 2; await this.app.vault.adapter.exists(path); copy++) {
+            path = `${directory}/${base}-${copy}.md`;
         }
+        return path;
     }
 
     /**
-     * Simple YAML parser for frontmatter (basic implementation)
+     * Write a rule file and load it straight away; Obsidian doesn't report
+     * changes to hidden folders like `.notes-critic`
      */
-    private parseYaml(yamlText: string): any {
-        const result: any = {};
-        const lines = yamlText.split('\n');
-        let currentKey: string | null = null;
-        let currentArray: string[] | null = null;
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmed = line.trim();
-
-            if (!trimmed || trimmed.startsWith('#')) continue;
-
-            // Check if this is an array item continuation
-            if (currentArray && trimmed.startsWith('-')) {
-                const item = trimmed.slice(1).trim().replace(/^["']|["']$/g, '');
-                if (item) {
-                    currentArray.push(item);
-                }
-                continue;
-            }
+    async saveRuleFile(path: string, content: string): Promise<void> {
+        await this.initialize();
+        const directory = path.slice(0, path.lastIndexOf('/'));
+        if (directory && !await this.app.vault.adapter.exists(directory)) {
+            await this.app.vault.adapter.mkdir(directory);
+        }
+        await this.app.vault.adapter.write(path, content);
+        await this.readFile(path);
+        this.rebuild();
+    }
 
-            // If we were building an array and this line doesn't start with '-', finish the array
-            if (currentArray && currentKey) {
-                result[currentKey] = currentArray;
-                currentArray = null;
-                currentKey = null;
-            }
+    /** Write a rule file from its settings and body. */
+    async saveRule(path: string, values: Record<string, unknown>, body: string): Promise<void> {
+        await this.saveRuleFile(path, serializeFrontmatter(values, body));
+    }
 
-            // Handle key-value pairs
-            const colonIndex = trimmed.indexOf(':');
-            if (colonIndex === -1) continue;
-
-            const key = trimmed.slice(0, colonIndex).trim();
-            let value = trimmed.slice(colonIndex + 1).trim();
-
-            // Parse different value types
-            if (value.startsWith('[') && value.endsWith(']')) {
-                // Inline array
-                const arrayContent = value.slice(1, -1);
-                result[key] = arrayContent.split(',')
-                    .map(item => item.trim().replace(/^["']|["']$/g, ''))
-                    .filter(item => item.length > 0);
-            } else if (value === '' || value === '-') {
-                // Start of multi-line array or empty value
-                // Look ahead to see if next line is an array item
-                if (i + 1 < lines.length && lines[i + 1].trim().startsWith('-')) {
-                    currentKey = key;
-                    currentArray = [];
-                } else {
-                    result[key] = '';
-                }
-            } else if (value === 'true') {
-                result[key] = true;
-            } else if (value === 'false') {
-                result[key] = false;
-            } else if (!isNaN(Number(value))) {
-                result[key] = Number(value);
-            } else {
-                // String value (remove quotes if present)
-                result[key] = value.replace(/^["']|["']$/g, '');
-            }
+    /** Copy a rule file next to it, under a new name. Returns the copy's path. */
+    async duplicateRuleFile(path: string): Promise<string> {
+        const file = this.parsedRules.get(path);
+        if (!file) throw new Error(`No rule file at ${path}`);
+
+        const name = `${file.values.name || path.split('/').pop()?.replace(/\.md$/, '')} (copy)`;
+        const copy = await this.newRulePath(ruleScope(path), name);
+        await this.saveRuleFile(copy, setSetting(file.content, 'name', name));
+        return copy;
+    }
+
+    /** Turn a rule on or off, leaving the rest of its file as written. */
+    async setRuleEnabled(path: string, enabled: boolean): Promise<void> {
+        const file = this.parsedRules.get(path);
+        if (!file) throw new Error(`No rule file at ${path}`);
+        await this.saveRuleFile(path, setSetting(file.content, 'enabled', enabled));
+    }
+
+    async deleteRuleFile(path: string): Promise<void> {
+        await this.initialize();
+        if (await this.app.vault.adapter.exists(path)) {
+            await this.app.vault.adapter.remove(path);
         }
+        deleteKeysWithin(this.parsedRules, path);
+        deleteKeysWithin(this.filePaths, path);
+        this.rebuild();
+    }
 
-        // Don't forget the last array if we ended while building one
-        if (currentArray && currentKey) {
-            result[currentKey] = currentArray;
+    /** Every rule and critic file read, including critics that couldn't be parsed. */
+    private loadedPaths(): string[] {
+        return Array.from(this.filePaths);
+    }
+
+    /**
+     * Build a rule from a parsed rule file, with the rules it extends folded in.
+     * Problems with the file are kept on the rule as diagnostics instead of
+     * failing the scan
+     */
+    private ruleFromFile(file: ComposedRuleFile): NotesCriticRule {
+        const values = ruleSettings(file.values);
+        const { diagnostics } = file;
+
+        return {
+            name: values.name || file.path,
+            enabled: values.enabled ?? true,
+            priority: values.priority ?? 0,
+            extends: values.extends,
+            promptMerge: values.promptMerge,
+            scope: ruleScope(file.path),
+            globs: values.globs ?? [],
+            exclude: values.exclude ?? [],
+            tags: values.tags,
+            properties: values.properties,
+            minWords: values.minWords,
+            maxWords: values.maxWords,
+            contentPatterns: values.contentPatterns,
+            autoTrigger: values.autoTrigger ?? true,
+            feedbackThreshold: values.feedbackThreshold,
+            feedbackThresholdUnit: values.feedbackThresholdUnit,
+            feedbackCooldownSeconds: values.feedbackCooldownSeconds,
+            feedbackTrigger: values.feedbackTrigger,
+            feedbackIdleSeconds: values.feedbackIdleSeconds,
+            diffGranularity: values.diffGranularity,
+            maxDiffTokens: values.maxDiffTokens,
+            inlineAnnotations: values.inlineAnnotations,
+            structuredFeedback: values.structuredFeedback,
+            feedbackOutput: values.feedbackOutput,
+            critics: values.critics,
+            rubric: values.rubric,
+            ignoreFrontmatter: values.ignoreFrontmatter,
+            ignoreWhitespace: values.ignoreWhitespace,
+            ignorePatterns: values.ignorePatterns,
+            feedbackPrompt: file.prompt || undefined,
+            systemPrompt: values.systemPrompt,
+            model: values.model,
+            summarizerModel: values.summarizerModel,
+            maxTokens: values.maxTokens,
+            maxHistoryTokens: values.maxHistoryTokens,
+            thinkingBudgetTokens: values.thinkingBudgetTokens,
+            enabledTools: values.enabledTools,
+            memoryDirectory: values.memoryDirectory,
+            memoryMaxViewCharacters: values.memoryMaxViewCharacters,
+            mcpServers: values.mcpServers,
+            filePath: file.path,
+            content: file.body,
+            diagnostics,
+            inheritedFrom: file.inheritedFrom,
+            bases: file.bases
+        };
+    }
+
+    /**
+     * Parse a critic persona file: optional frontmatter, with the persona's
+     * description as the body
+     */
+    private parseCriticFile(file: RuleFile): CriticPersona | null {
+        const { values, body, diagnostics } = parseFrontmatter(file.content, CRITIC_SCHEMA, false);
+        const settings = criticSettings(values);
+        if (diagnostics.length > 0) {
+            console.warn(diagnostics.map(diagnostic => formatDiagnostic(file.path, diagnostic)).join('\n'));
+        }
+        if (hasErrors(diagnostics)) {
+            return null;
+        }
+        const prompt = body.trim();
+        if (!prompt) {
+            console.warn(`Critic file ${file.path} has no prompt`);
+            return null;
         }
 
-        return result;
+        const fileName = file.path.split('/').pop() ?? file.path;
+        return {
+            name: settings.name || fileName.replace(/\.md$/, ''),
+            enabled: settings.enabled ?? true,
+            model: settings.model || undefined,
+            maxTokens: settings.maxTokens,
+            prompt,
+            filePath: file.path
+        };
     }
 
     /**
-     * Find matching rules for a given file path
+     * Find matching rules for a given file path, closest folder and highest
+     * priority first. A rule matches when the note is inside the rule's folder,
+     * the path relative to that folder matches one of its globs, if it has any,
+     * and the note meets each of its tag, property, word count and content
+     * selectors. Notes are looked up in the metadata cache, and only read when
+     * a rule looks at their text
      */
     async getMatchingRules(filePath: string): Promise<RuleMatch[]> {
-        // Check if we need to rescan rules
-        if (Date.now() - this.lastScanTime > 10000) { // 10 seconds cache
-            await this.scanAndLoadRules();
-        }
+        await this.initialize();
 
         // Check cache first
         if (this.ruleCache.has(filePath)) {
@@ -189,20 +424,42 @@ export class RuleManager {
 
         const matches: RuleMatch[] = [];
         const normalizedPath = normalizePath(filePath);
+        let facts: NoteFacts | null | undefined;
+        const noteFacts = async (withContent: boolean) => {
+            if (facts === undefined || (withContent && facts?.content === null)) {
+                facts = await this.readNoteFacts(normalizedPath, withContent);
+            }
+            return facts;
+        };
 
         for (const rule of this.rules) {
+            // A rule only applies inside its folder, and its patterns are relative to it
+            const scope = rule.scope ?? '';
+            if (scope && !normalizedPath.startsWith(`${scope}/`)) {
+                continue;
+            }
+            const scopedPath = scope ? normalizedPath.slice(scope.length + 1) : normalizedPath;
+
             // Check exclude patterns first
-            if (rule.exclude?.some(pattern => new Minimatch(pattern).match(normalizedPath))) {
+            if (rule.exclude?.some(pattern => new Minimatch(pattern).match(scopedPath))) {
+                continue;
+            }
+
+            // Check include patterns; only count the first match per rule
+            const glob = (rule.globs || []).find(glob => new Minimatch(glob).match(scopedPath));
+            const selects = hasNoteSelectors(rule);
+            if (!glob && (rule.globs?.length || !selects)) {
                 continue;
             }
 
-            // Check include patterns
-            for (const glob of (rule.globs || [])) {
-                if (new Minimatch(glob).match(normalizedPath)) {
-                    matches.push({ rule, matchedPattern: glob });
-                    break; // Only count first match per rule
-                }
+            const matched = glob ? [glob] : [];
+            if (selects) {
+                const note = await noteFacts(needsContent(rule));
+                const selected = note && matchNoteSelectors(rule, note);
+                if (!selected) continue;
+                matched.push(...selected);
             }
+            matches.push({ rule, matchedPattern: matched.join(', ') });
         }
 
         // Cache the result
@@ -210,36 +467,85 @@ export class RuleManager {
         return matches;
     }
 
+    /** Tags, frontmatter and optionally the text of a note, or null if there is no such note. */
+    private async readNoteFacts(path: string, withContent: boolean): Promise<NoteFacts | null> {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) return null;
+
+        const cache = this.app.metadataCache.getFileCache(file);
+        const text = withContent ? await this.app.vault.cachedRead(file) : null;
+        return {
+            tags: noteTags(cache),
+            frontmatter: cache?.frontmatter ?? {},
+            content: text === null ? null : text.slice(cache?.frontmatterPosition?.end.offset ?? 0)
+        };
+    }
+
     /**
      * Get effective configuration for a file by merging global settings with rule overrides
      */
-    async getEffectiveConfig(filePath: string, globalSettings: NotesCriticSettings): Promise<NotesCriticSettings & { matchedRules: RuleMatch[] }> {
+    async getEffectiveConfig(filePath: string, globalSettings: NotesCriticSettings): Promise<EffectiveConfig> {
         const matches = await this.getMatchingRules(filePath);
+        return this.resolveConfig(matches, globalSettings).config;
+    }
 
-        // Start with global settings
-        let effectiveConfig = { ...globalSettings };
-
-        // Apply rule overrides in priority order (highest first)
-        for (const match of matches) {
-            const rule = match.rule;
-
-            // Override settings if defined in rule
-            if (rule.feedbackThreshold !== undefined) effectiveConfig.feedbackThreshold = rule.feedbackThreshold;
-            if (rule.feedbackCooldownSeconds !== undefined) effectiveConfig.feedbackCooldownSeconds = rule.feedbackCooldownSeconds;
-            if (rule.systemPrompt !== undefined) effectiveConfig.systemPrompt = rule.systemPrompt;
-            if (rule.model !== undefined) effectiveConfig.model = rule.model;
-            if (rule.maxTokens !== undefined) effectiveConfig.maxTokens = rule.maxTokens;
-            if (rule.maxHistoryTokens !== undefined) effectiveConfig.maxHistoryTokens = rule.maxHistoryTokens;
-            if (rule.thinkingBudgetTokens !== undefined) effectiveConfig.thinkingBudgetTokens = rule.thinkingBudgetTokens;
-            if (rule.content) {
-                effectiveConfig.feedbackPrompt = rule.content;
+    /**
+     * Get a file's effective configuration along with where each setting that
+     * the matching rules can change comes from
+     */
+    async explainEffectiveConfig(filePath: string, globalSettings: NotesCriticSettings): Promise<{ config: EffectiveConfig; sources: ConfigFieldSource[] }> {
+        const matches = await this.getMatchingRules(filePath);
+        return this.resolveConfig(matches, globalSettings);
+    }
+
+    /**
+     * Apply the matching rules to the plugin settings, shallowest folder and
+     * lowest priority first, so that closer and higher-priority rules win. A
+     * rule's prompts replace the ones before them unless its `promptMerge`
+     * says to add to them, or to its base's when it extends another rule.
+     * Rules another match extends are already part of that match and aren't
+     * applied again
+     */
+    private resolveConfig(matches: RuleMatch[], globalSettings: NotesCriticSettings): { config: EffectiveConfig; sources: ConfigFieldSource[] } {
+        const config: NotesCriticSettings = { ...globalSettings };
+        const fields: Record<string, unknown> = config as unknown as Record<string, unknown>;
+        const sourceRules = new Map<string, string[]>();
+        const extended = new Set(matches.flatMap(match => match.rule.bases ?? []));
+        const applied = matches.filter(match => !extended.has(match.rule.filePath));
+
+        for (const { rule } of [...applied].reverse()) {
+            const label = (field: string) => rule.inheritedFrom?.[field]
+                ? `${rule.name} (from ${rule.inheritedFrom[field]})`
+                : rule.name;
+
+            for (const field of OVERRIDDEN_SETTINGS) {
+                if (rule[field] === undefined) continue;
+                fields[field] = rule[field];
+                sourceRules.set(field, [label(field)]);
+            }
+            if (rule.mcpServers !== undefined) {
+                config.mcpClients = mcpClientsNamed(globalSettings.mcpClients, rule.mcpServers);
+                sourceRules.set('mcpServers', [label('mcpServers')]);
+            }
+            for (const field of MERGED_PROMPTS) {
+                const prompt = rule[field];
+                if (prompt === undefined) continue;
+                // A rule that extends another has already added to that rule's prompts
+                const merge = rule.extends === undefined ? rule.promptMerge ?? 'replace' : 'replace';
+                const replaced = merge === 'replace' || !config[field].trim();
+                fields[field] = mergePrompts(config[field], prompt, merge);
+                sourceRules.set(field, replaced ? [label(field)] : [...(sourceRules.get(field) ?? []), label(field)]);
             }
         }
 
-        return {
-            ...effectiveConfig,
-            matchedRules: matches
-        };
+        const sources: ConfigFieldSource[] = [...OVERRIDDEN_SETTINGS, 'mcpServers', ...MERGED_PROMPTS].map(field => ({
+            field,
+            value: field === 'mcpServers'
+                ? (config.mcpClients ?? []).map(client => client.getServerConfig().name)
+                : fields[field],
+            rules: sourceRules.get(field) ?? []
+        }));
+        return { config: { ...config, matchedRules: matches }, sources };
     }
 
     async getFeedbackPrompt(filePath: string, globalSettings: NotesCriticSettings): Promise<string> {
@@ -257,6 +563,15 @@ export class RuleManager {
         return matches.length === 0 || matches.every(match => match.rule.autoTrigger !== false);
     }
 
+    /**
+     * Forget cached matches for a note, or for every note inside a folder, so
+     * they are re-evaluated on next use (e.g. after a move or delete, or when
+     * the note's tags, properties or text change)
+     */
+    invalidatePath(path: string): void {
+        deleteKeysWithin(this.ruleCache, path);
+    }
+
     /**
      * Get all currently loaded rules
      */
@@ -265,9 +580,45 @@ export class RuleManager {
     }
 
     /**
-     * Force refresh rules from disk
+     * Get every rule file found, including disabled rules and rules that are
+     * disabled due to errors, with their diagnostics
+     */
+    getAllRules(): NotesCriticRule[] {
+        return [...this.ruleFiles];
+    }
+
+    /**
+     * Get all critic personas, including disabled ones
+     */
+    async getCritics(): Promise<CriticPersona[]> {
+        await this.initialize();
+        return [...this.critics];
+    }
+
+    /**
+     * Look up enabled critics by name, in the order given; names without an
+     * enabled critic are returned as missing
+     */
+    async findCritics(names: string[]): Promise<{ critics: CriticPersona[]; missing: string[] }> {
+        const all = await this.getCritics();
+        const critics: CriticPersona[] = [];
+        const missing: string[] = [];
+        for (const name of Array.from(new Set(names.map(name => name.trim()).filter(Boolean)))) {
+            const critic = all.find(candidate => candidate.enabled && candidate.name === name);
+            if (critic) {
+                critics.push(critic);
+            } else {
+                missing.push(name);
+            }
+        }
+        return { critics, missing };
+    }
+
+    /**
+     * Force refresh rules from disk, e.g. after editing them outside Obsidian
      */
     async refreshRules(): Promise<void> {
-        await this.scanAndLoadRules();
+        this.loading = null;
+        await this.initialize();
     }
 } 
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { PromptMerge, RuleDiagnostic } from 'types';
+import { hasErrors, ParsedFrontmatter, ruleSettings, SettingValues, settingLine } from './ruleSchema';
+
+export interface ParsedRuleFile extends ParsedFrontmatter {
+    path: string;
+    content: string;
+}
+
+/** A rule file with the rules it extends folded in. */
+export interface ComposedRuleFile {
+    path: string;
+    values: SettingValues;
+    body: string; // The file's own markdown content after the frontmatter
+    prompt: string; // The feedback prompt, after merging with the extended rule's
+    diagnostics: RuleDiagnostic[];
+    inheritedFrom: Record<string, string>;
+    bases: string[];
+}
+
+/** Settings that belong to a rule itself and aren't taken from the rule it extends. */
+const NOT_INHERITED = ['name', 'enabled', 'extends', 'promptMerge'];
+
+/** Combine a rule's prompt with the one it builds on. */
+export function mergePrompts(base: string, own: string, mode: PromptMerge = 'replace'): string {
+    if (mode === 'replace' || !base.trim()) return own;
+    return mode === 'append' ? `${base}\n\n${own}` : `${own}\n\n${base}`;
+}
+
+/** A rule's name, as shown and as other rules extend it by. */
+export const ruleName = (file: ParsedRuleFile): string => ruleSettings(file.values).name || file.path;
+
+const baseName = (path: string) => (path.split('/').pop() ?? path).replace(/\.md$/, '');
+
+/** The rule a rule file extends, by its name or its file name. */
+function findBase(file: ParsedRuleFile, files: ParsedRuleFile[]): ParsedRuleFile | undefined {
+    const name = ruleSettings(file.values).extends;
+    if (name === undefined) return undefined;
+    return files.find(other => other.values.name === name) ?? files.find(other => baseName(other.path) === name);
+}
+
+/**
+ * Fold the rule a rule file extends into it. The rule keeps the settings it
+ * sets and takes the rest from its base, except for its name and whether it
+ * is enabled; its prompts replace, or with `promptMerge` are added to, the
+ * base's. A missing base, a loop or a base with errors is an error.
+ */
+export function composeRuleFile(file: ParsedRuleFile, files: ParsedRuleFile[]): ComposedRuleFile {
+    const body = file.body.trim();
+    const diagnostics = [...file.diagnostics];
+    if (file.values.feedbackPrompt !== undefined && body) {
+        diagnostics.push({ severity: 'warning', message: '"feedbackPrompt" is set, so the text after the frontmatter is not used' });
+    }
+    const own: ComposedRuleFile = {
+        path: file.path,
+        values: file.values,
+        body,
+        prompt: ruleSettings(file.values).feedbackPrompt ?? body,
+        diagnostics,
+        inheritedFrom: {},
+        bases: []
+    };
+    if (file.values.extends === undefined || hasErrors(diagnostics)) return own;
+
+    const line = settingLine(file.content, 'extends');
+    const base = findBase(file, files);
+    if (!base) {
+        diagnostics.push({ severity: 'error', message: `"extends" names "${file.values.extends}", but there is no rule by that name`, line });
+        return own;
+    }
+    const chain = [file];
+    for (let current: ParsedRuleFile | undefined = base; current; current = findBase(current, files)) {
+        if (chain.includes(current)) {
+            diagnostics.push({ severity: 'error', message: `"extends" goes round in a loop: ${[...chain, current].map(ruleName).join(' → ')}`, line });
+            return own;
+        }
+        chain.push(current);
+    }
+
+    const composedBase = composeRuleFile(base, files);
+    if (hasErrors(composedBase.diagnostics)) {
+        diagnostics.push({ severity: 'error', message: `"extends" names "${file.values.extends}", which has errors`, line });
+        return own;
+    }
+
+    const values = { ...file.values };
+    const inheritedFrom: Record<string, string> = {};
+    for (const [key, value] of Object.entries(composedBase.values)) {
+        if (NOT_INHERITED.includes(key) || key in file.values) continue;
+        values[key] = value;
+        inheritedFrom[key] = composedBase.inheritedFrom[key] ?? ruleName(base);
+    }
+
+    const settings = ruleSettings(file.values);
+    const baseSettings = ruleSettings(composedBase.values);
+    const mode: PromptMerge | undefined = settings.promptMerge;
+    if (settings.systemPrompt !== undefined && baseSettings.systemPrompt !== undefined) {
+        values.systemPrompt = mergePrompts(baseSettings.systemPrompt, settings.systemPrompt, mode);
+    }
+    let prompt = own.prompt;
+    if (prompt) {
+        prompt = mergePrompts(composedBase.prompt, prompt, mode);
+    } else if (composedBase.prompt) {
+        prompt = composedBase.prompt;
+        inheritedFrom.feedbackPrompt = composedBase.inheritedFrom.feedbackPrompt ?? ruleName(base);
+    }
+
+    return { ...own, values, prompt, inheritedFrom, bases: [base.path, ...composedBase.bases] };
+}
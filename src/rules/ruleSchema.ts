@@ -0,0 +1,248 @@
+import { parseYaml, stringifyYaml } from 'obsidian';
+import { CriticPersona, NotesCriticRule, RuleDiagnostic } from 'types';
+import { DIFF_GRANULARITIES, CHANGE_UNITS } from 'diffs';
+import { FEEDBACK_OUTPUTS, FEEDBACK_TRIGGERS, PROMPT_MERGES } from '../constants';
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'string[]' | 'properties';
+
+export interface FieldSchema {
+    type: FieldType;
+    values?: readonly string[]; // Allowed values of a string field
+}
+
+export type FrontmatterSchema = Record<string, FieldSchema>;
+
+/** The settings a rule file's frontmatter may have. */
+export const RULE_SCHEMA: FrontmatterSchema = {
+    name: { type: 'string' },
+    enabled: { type: 'boolean' },
+    priority: { type: 'number' },
+    extends: { type: 'string' },
+    promptMerge: { type: 'string', values: PROMPT_MERGES },
+    globs: { type: 'string[]' },
+    exclude: { type: 'string[]' },
+    tags: { type: 'string[]' },
+    properties: { type: 'properties' },
+    minWords: { type: 'number' },
+    maxWords: { type: 'number' },
+    contentPatterns: { type: 'string[]' },
+    autoTrigger: { type: 'boolean' },
+    feedbackThreshold: { type: 'number' },
+    feedbackThresholdUnit: { type: 'string', values: CHANGE_UNITS },
+    feedbackCooldownSeconds: { type: 'number' },
+    feedbackTrigger: { type: 'string', values: FEEDBACK_TRIGGERS },
+    feedbackIdleSeconds: { type: 'number' },
+    diffGranularity: { type: 'string', values: DIFF_GRANULARITIES },
+    maxDiffTokens: { type: 'number' },
+    inlineAnnotations: { type: 'boolean' },
+    structuredFeedback: { type: 'boolean' },
+    feedbackOutput: { type: 'string', values: FEEDBACK_OUTPUTS },
+    critics: { type: 'string[]' },
+    rubric: { type: 'string[]' },
+    ignoreFrontmatter: { type: 'boolean' },
+    ignoreWhitespace: { type: 'boolean' },
+    ignorePatterns: { type: 'string[]' },
+    feedbackPrompt: { type: 'string' },
+    systemPrompt: { type: 'string' },
+    model: { type: 'string' },
+    summarizerModel: { type: 'string' },
+    maxTokens: { type: 'number' },
+    maxHistoryTokens: { type: 'number' },
+    thinkingBudgetTokens: { type: 'number' },
+    enabledTools: { type: 'string[]' },
+    memoryDirectory: { type: 'string' },
+    memoryMaxViewCharacters: { type: 'number' },
+    mcpServers: { type: 'string[]' }
+};
+
+/** The settings a critic persona file's frontmatter may have. */
+export const CRITIC_SCHEMA: FrontmatterSchema = {
+    name: { type: 'string' },
+    enabled: { type: 'boolean' },
+    model: { type: 'string' },
+    maxTokens: { type: 'number' }
+};
+
+/** Frontmatter settings by name. */
+export type SettingValues = Record<string, unknown>;
+
+/**
+ * The settings of a rule file with their types. parseFrontmatter only keeps
+ * values that `matchesType` of their RULE_SCHEMA field, so they have them.
+ */
+export const ruleSettings = (values: SettingValues) => values as Partial<NotesCriticRule>;
+
+/** The settings of a critic persona file with their types, as checked against CRITIC_SCHEMA. */
+export const criticSettings = (values: SettingValues) => values as Partial<CriticPersona>;
+
+export interface ParsedFrontmatter {
+    values: SettingValues; // Only settings of the schema with the right type
+    body: string;
+    diagnostics: RuleDiagnostic[];
+}
+
+const FRONTMATTER = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[^\S\r\n]*(?:\r?\n([\s\S]*))?$/;
+
+const TYPE_NAMES: Record<FieldType, string> = {
+    string: 'text',
+    number: 'a number',
+    boolean: 'true or false',
+    'string[]': 'a list of text',
+    properties: 'a list of "property: value" lines, with a value or a list of values each'
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Line of the file a top-level key is set on, if it can be found. */
+function keyLine(frontmatterLines: string[], key: string): number | undefined {
+    const pattern = new RegExp(`^["']?${escapeRegExp(key)}["']?\\s*:`);
+    const index = frontmatterLines.findIndex(line => pattern.test(line));
+    // The opening --- is line 1
+    return index === -1 ? undefined : index + 2;
+}
+
+/** Line of the frontmatter a YAML syntax error is on, counting from 0, when the parser says. */
+function yamlErrorLine(error: unknown): number | undefined {
+    const { mark, linePos } = (error ?? {}) as { mark?: { line?: unknown }; linePos?: { line?: unknown }[] };
+    if (typeof mark?.line === 'number') return mark.line;
+    const line = linePos?.[0]?.line;
+    return typeof line === 'number' ? line - 1 : undefined;
+}
+
+const isScalar = (value: unknown) => ['string', 'number', 'boolean'].includes(typeof value);
+
+function matchesType(value: unknown, type: FieldType): boolean {
+    switch (type) {
+        case 'string[]':
+            return Array.isArray(value) && value.every(item => typeof item === 'string');
+        case 'properties':
+            return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+                Object.values(value).every(item => isScalar(item) || (Array.isArray(item) && item.every(isScalar)));
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+/**
+ * Split a rule or critic file into its frontmatter settings and body. The
+ * frontmatter is parsed as YAML and checked against the schema: invalid YAML
+ * is an error, while unknown settings and settings of the wrong type are
+ * warnings and left out of the values.
+ */
+export function parseFrontmatter(content: string, schema: FrontmatterSchema, required: boolean): ParsedFrontmatter {
+    const match = content.match(FRONTMATTER);
+    if (!match) {
+        return {
+            values: {},
+            body: content,
+            diagnostics: required
+                ? [{ severity: 'error', message: 'Missing frontmatter: settings should be between --- lines at the top of the file', line: 1 }]
+                : []
+        };
+    }
+
+    const [, frontmatterText = '', body = ''] = match;
+    let frontmatter: unknown;
+    try {
+        frontmatter = parseYaml(frontmatterText) ?? {};
+    } catch (error) {
+        const line = yamlErrorLine(error);
+        return {
+            values: {},
+            body,
+            diagnostics: [{
+                severity: 'error',
+                message: `Invalid YAML: ${String(error?.reason ?? error?.message ?? error).split('\n')[0]}`,
+                line: line === undefined ? undefined : line + 2
+            }]
+        };
+    }
+    if (typeof frontmatter !== 'object' || Array.isArray(frontmatter)) {
+        return {
+            values: {},
+            body,
+            diagnostics: [{ severity: 'error', message: 'Frontmatter should be a list of "setting: value" lines', line: 2 }]
+        };
+    }
+
+    const lines = frontmatterText.split(/\r?\n/);
+    const values: SettingValues = {};
+    const diagnostics: RuleDiagnostic[] = [];
+    for (const [key, value] of Object.entries(frontmatter as Record<string, unknown>)) {
+        const field = schema[key];
+        const line = keyLine(lines, key);
+        if (!field) {
+            diagnostics.push({ severity: 'warning', message: `Unknown setting "${key}"`, line });
+        } else if (value === null) {
+            // Left empty, e.g. `model:`; same as not set
+        } else if (!matchesType(value, field.type)) {
+            diagnostics.push({ severity: 'warning', message: `"${key}" should be ${TYPE_NAMES[field.type]}, so it is ignored`, line });
+        } else if (field.values && !field.values.includes(value as string)) {
+            diagnostics.push({ severity: 'warning', message: `"${key}" should be one of ${field.values.join(', ')}, so it is ignored`, line });
+        } else {
+            values[key] = value;
+        }
+    }
+    return { values, body, diagnostics };
+}
+
+/** Line of the file a frontmatter setting is on, if it can be found. */
+export function settingLine(content: string, key: string): number | undefined {
+    const match = content.match(FRONTMATTER);
+    return match ? keyLine((match[1] ?? '').split(/\r?\n/), key) : undefined;
+}
+
+/** A rule or critic file with the given settings and body. Unset settings are left out. */
+export function serializeFrontmatter(values: Record<string, unknown>, body: string): string {
+    const set = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined && value !== null && value !== ''));
+    const frontmatter = Object.keys(set).length > 0 ? stringifyYaml(set).trimEnd() : '';
+    return `---\n${frontmatter ? `${frontmatter}\n` : ''}---\n${body.trim() ? `\n${body.trim()}\n` : ''}`;
+}
+
+/**
+ * Change one setting of a file, keeping the rest of the file as written,
+ * comments included. A value that spans several lines is replaced whole, and
+ * an undefined value removes the setting.
+ */
+export function setSetting(content: string, key: string, value: unknown): string {
+    const setting = value === undefined ? [] : [stringifyYaml({ [key]: value }).trimEnd()];
+    const match = content.match(FRONTMATTER);
+    if (!match) {
+        return value === undefined ? content : `---\n${setting[0]}\n---\n${content}`;
+    }
+
+    const lines = content.split('\n');
+    const line = keyLine((match[1] ?? '').split(/\r?\n/), key);
+    if (line === undefined) {
+        lines.splice(1, 0, ...setting);
+        return lines.join('\n');
+    }
+    // Indented lines and list items below the key belong to its value
+    let end = line;
+    while (end < lines.length && /^(?:\s+\S|-(?:\s|$))/.test(lines[end]) && !/^---\s*$/.test(lines[end])) {
+        end++;
+    }
+    lines.splice(line - 1, end - line + 1, ...setting);
+    return lines.join('\n');
+}
+
+/** Replace the body of a file, keeping its frontmatter as written. */
+export function setBody(content: string, body: string): string {
+    const match = content.match(FRONTMATTER);
+    const frontmatter = !match ? '---\n---\n'
+        : match[2] === undefined ? `${content}\n`
+            : content.slice(0, content.length - match[2].length);
+    return `${frontmatter}${body.trim() ? `\n${body.trim()}\n` : ''}`;
+}
+
+/** Whether any of the diagnostics keeps a rule from being used. */
+export function hasErrors(diagnostics: RuleDiagnostic[] = []): boolean {
+    return diagnostics.some(diagnostic => diagnostic.severity === 'error');
+}
+
+/** A diagnostic as `path:line: message`. */
+export function formatDiagnostic(filePath: string, diagnostic: RuleDiagnostic): string {
+    return `${filePath}${diagnostic.line !== undefined ? `:${diagnostic.line}` : ''}: ${diagnostic.message}`;
+}
@@ -0,0 +1,112 @@
+import { CachedMetadata, getAllTags } from 'obsidian';
+import { NotesCriticRule, PropertyCondition, RuleDiagnostic } from 'types';
+import { countWords } from 'diffs';
+
+/** What a rule can select a note on besides its path. */
+export interface NoteFacts {
+    tags: string[];
+    frontmatter: Record<string, unknown>;
+    content: string | null; // The note's text without its frontmatter; only read when a rule needs it
+}
+
+type SelectorRule = Pick<NotesCriticRule, 'tags' | 'properties' | 'minWords' | 'maxWords' | 'contentPatterns'>;
+
+const normalizeTag = (tag: string) => `#${tag.trim().replace(/^#/, '')}`.toLowerCase();
+
+/** Tags of a note, from its text and its frontmatter, as `#tag` in lower case. */
+export function noteTags(cache: CachedMetadata | null): string[] {
+    return Array.from(new Set((cache ? getAllTags(cache) ?? [] : []).map(normalizeTag)));
+}
+
+/** Whether a rule selects notes on anything besides their path. */
+export function hasNoteSelectors(rule: SelectorRule): boolean {
+    return !!rule.tags?.length || !!rule.properties && Object.keys(rule.properties).length > 0 ||
+        rule.minWords !== undefined || rule.maxWords !== undefined || !!rule.contentPatterns?.length;
+}
+
+/** Whether a rule looks at a note's text, which has to be read, rather than only its metadata. */
+export function needsContent(rule: SelectorRule): boolean {
+    return rule.minWords !== undefined || rule.maxWords !== undefined || !!rule.contentPatterns?.length;
+}
+
+/** Compile content patterns, leaving out invalid ones, which are reported when the rule is loaded. */
+function compilePatterns(patterns: string[]): RegExp[] {
+    const compiled: RegExp[] = [];
+    for (const pattern of patterns) {
+        try {
+            compiled.push(new RegExp(pattern, 'm'));
+        } catch {
+            // Reported by checkSelectors
+        }
+    }
+    return compiled;
+}
+
+const sameValue = (a: unknown, b: unknown) => String(a).toLowerCase() === String(b).toLowerCase();
+
+/** Whether a frontmatter value meets a condition; a list on either side matches when they share a value. */
+function matchesProperty(value: unknown, condition: PropertyCondition): boolean {
+    if (value === undefined || value === null) return false;
+    const wanted = Array.isArray(condition) ? condition : [condition];
+    const actual = Array.isArray(value) ? value : [value];
+    return actual.some(item => wanted.some(option => sameValue(item, option)));
+}
+
+function describeProperty(key: string, condition: PropertyCondition): string {
+    return Array.isArray(condition) ? `${key} in [${condition.join(', ')}]` : `${key}: ${condition}`;
+}
+
+/**
+ * Check a note against a rule's tag, property, word count and content
+ * selectors. Returns a description of each selector the note meets, or null
+ * when it misses any of them. Notes meet a tag when they have it or a tag
+ * nested under it, e.g. `#draft/outline` for `draft`.
+ */
+export function matchNoteSelectors(rule: SelectorRule, note: NoteFacts): string[] | null {
+    const matched: string[] = [];
+
+    if (rule.tags?.length) {
+        const tag = rule.tags.map(normalizeTag).find(wanted =>
+            note.tags.some(tag => tag === wanted || tag.startsWith(`${wanted}/`)));
+        if (!tag) return null;
+        matched.push(tag);
+    }
+
+    for (const [key, condition] of Object.entries(rule.properties ?? {})) {
+        if (!matchesProperty(note.frontmatter[key], condition)) return null;
+        matched.push(describeProperty(key, condition));
+    }
+
+    if (!needsContent(rule)) return matched;
+    const content = note.content ?? '';
+
+    if (rule.minWords !== undefined || rule.maxWords !== undefined) {
+        const words = countWords(content);
+        if (words < (rule.minWords ?? 0) || words > (rule.maxWords ?? Infinity)) return null;
+        matched.push(`${words} words`);
+    }
+
+    if (rule.contentPatterns?.length) {
+        const pattern = compilePatterns(rule.contentPatterns).find(pattern => pattern.test(content));
+        if (!pattern) return null;
+        matched.push(`/${pattern.source}/`);
+    }
+
+    return matched;
+}
+
+/** Problems with a rule's selectors that the schema can't catch. */
+export function checkSelectors(rule: SelectorRule, lineOf: (key: string) => number | undefined): RuleDiagnostic[] {
+    const diagnostics: RuleDiagnostic[] = [];
+    for (const pattern of rule.contentPatterns ?? []) {
+        try {
+            new RegExp(pattern);
+        } catch (error) {
+            diagnostics.push({ severity: 'warning', message: `"contentPatterns" has an invalid regular expression, so it is ignored: ${error.message}`, line: lineOf('contentPatterns') });
+        }
+    }
+    if (rule.minWords !== undefined && rule.maxWords !== undefined && rule.minWords > rule.maxWords) {
+        diagnostics.push({ severity: 'warning', message: '"minWords" is more than "maxWords", so no note matches', line: lineOf('minWords') });
+    }
+    return diagnostics;
+}
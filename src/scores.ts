@@ -0,0 +1,140 @@
+import { NoteScore, RubricScores } from 'types';
+import { isStructuredFeedback } from './structuredFeedback';
+
+/** Language tag of the fenced block free-form replies give their rubric scores in. */
+export const SCORE_BLOCK = 'notes-critic-scores';
+
+export const MIN_RUBRIC_SCORE = 1;
+export const MAX_RUBRIC_SCORE = 10;
+
+const BLOCK = new RegExp('```' + SCORE_BLOCK + '[^\\S\\n]*\\n([\\s\\S]*?)(?:```|$)', 'g');
+
+/** Criteria as they are scored: trimmed, lowercase and each only once. */
+export function normalizeRubric(rubric: string[]): string[] {
+    return Array.from(new Set(rubric.map(criterion => criterion.trim().toLowerCase()).filter(Boolean)));
+}
+
+/** What to add to a feedback prompt to have the note scored on a rubric, or '' without one. */
+export function rubricInstructions(rubric: string[], structured: boolean): string {
+    const criteria = normalizeRubric(rubric);
+    if (criteria.length === 0) return '';
+
+    const scale = `from ${MIN_RUBRIC_SCORE} (poor) to ${MAX_RUBRIC_SCORE} (excellent)`;
+    if (structured) {
+        return `Also score the note as it is now, not just the changes, ${scale} on each of: ${criteria.join(', ')}.`;
+    }
+    const example = JSON.stringify(Object.fromEntries(criteria.map(criterion => [criterion, 7])));
+    return `Also score the note as it is now, not just the changes, ${scale} on each of: ${criteria.join(', ')}. Put the scores at the very end of your reply in a fenced code block tagged \`${SCORE_BLOCK}\`:
+\`\`\`${SCORE_BLOCK}
+${example}
+\`\`\``;
+}
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+function readScores(entries: [string, unknown][], rubric?: string[]): RubricScores | null {
+    const criteria = rubric && normalizeRubric(rubric);
+    const scores: RubricScores = {};
+    for (const [name, value] of entries) {
+        const criterion = name.trim().toLowerCase();
+        const score = typeof value === 'string' ? Number(value) : value;
+        if (typeof score !== 'number' || !Number.isFinite(score)) continue;
+        if (!criterion || (criteria && !criteria.includes(criterion))) continue;
+        scores[criterion] = Math.min(MAX_RUBRIC_SCORE, Math.max(MIN_RUBRIC_SCORE, roundToTenth(score)));
+    }
+    return Object.keys(scores).length > 0 ? scores : null;
+}
+
+/**
+ * Read the rubric scores out of a complete reply, from the `scores` of
+ * structured feedback or the score block of a free-form reply. Only criteria
+ * of the rubric are kept, when one is given; returns null without any scores.
+ */
+export function parseScores(response: string, rubric?: string[]): RubricScores | null {
+    if (isStructuredFeedback(response)) {
+        try {
+            const { scores } = JSON.parse(response);
+            if (!Array.isArray(scores)) return null;
+            return readScores(scores
+                .filter(entry => entry && typeof entry.criterion === 'string')
+                .map(entry => [entry.criterion, entry.score]), rubric);
+        } catch {
+            return null;
+        }
+    }
+
+    BLOCK.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    let scores: RubricScores | null = null;
+    // The last block wins, in case the critic corrected itself
+    while ((match = BLOCK.exec(response)) !== null) {
+        try {
+            const parsed = JSON.parse(match[1].trim());
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+                scores = readScores(Object.entries(parsed), rubric) ?? scores;
+            }
+        } catch {
+            // Not JSON; leave the block out
+        }
+    }
+    return scores;
+}
+
+/** The reply without its score block, for display. */
+export function stripScores(response: string): string {
+    return response.replace(BLOCK, '').trimEnd();
+}
+
+/** A score block giving the scores, as the critic would write it. */
+export function formatScoresBlock(scores: RubricScores): string {
+    return ['```' + SCORE_BLOCK, JSON.stringify(scores), '```'].join('\n');
+}
+
+/** The mean of the scores, to one decimal place. */
+export function overallScore(scores: RubricScores): number {
+    const values = Object.values(scores);
+    return values.length > 0 ? roundToTenth(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+}
+
+/** The mean score on each criterion, over the sets of scores that have it. */
+export function averageScores(sets: RubricScores[]): RubricScores | null {
+    const totals = new Map<string, number[]>();
+    for (const scores of sets) {
+        for (const [criterion, score] of Object.entries(scores)) {
+            totals.set(criterion, [...(totals.get(criterion) ?? []), score]);
+        }
+    }
+    if (totals.size === 0) return null;
+    return Object.fromEntries(Array.from(totals.entries())
+        .map(([criterion, values]) => [criterion, roundToTenth(values.reduce((sum, value) => sum + value, 0) / values.length)]));
+}
+
+export interface LowScoringNote {
+    path: string;
+    score: NoteScore; // The note's latest score
+    editedAt: number;
+}
+
+/**
+ * Notes edited since a time, lowest latest overall score first; ties go to
+ * the most recently edited. Notes without an edit time (e.g. deleted ones)
+ * are left out.
+ */
+export function lowestScoringNotes(
+    history: Map<string, NoteScore[]>,
+    editedAt: (path: string) => number | null,
+    since: number,
+    limit: number
+): LowScoringNote[] {
+    const notes: LowScoringNote[] = [];
+    history.forEach((scores, path) => {
+        const edited = editedAt(path);
+        const score = scores[scores.length - 1];
+        if (score && edited !== null && edited >= since) {
+            notes.push({ path, score, editedAt: edited });
+        }
+    });
+    return notes
+        .sort((a, b) => a.score.overall - b.score.overall || b.editedAt - a.editedAt)
+        .slice(0, limit);
+}
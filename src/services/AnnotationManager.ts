@@ -0,0 +1,74 @@
+import { App, MarkdownView } from 'obsidian';
+import { EditorView } from '@codemirror/view';
+import { Extension } from '@codemirror/state';
+import { FeedbackAnnotation } from 'types';
+import { annotationExtension, setAnnotations } from '../editor/annotations';
+import { deleteKeysWithin, rebaseKeys } from '../paths';
+
+/**
+ * Holds the critic's anchored comments for each note and shows them in every
+ * editor the note is open in. New feedback on a note replaces its annotations.
+ */
+export class AnnotationManager {
+    private app: App;
+    private annotations = new Map<string, FeedbackAnnotation[]>();
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /** The editor extension that renders annotations, to register with the plugin. */
+    editorExtension(): Extension {
+        return annotationExtension({
+            load: path => this.get(path),
+            onResolved: (path, id) => this.forget(path, id)
+        });
+    }
+
+    get(path: string): FeedbackAnnotation[] {
+        return this.annotations.get(path) ?? [];
+    }
+
+    set(path: string, annotations: FeedbackAnnotation[]): void {
+        if (annotations.length > 0) {
+            this.annotations.set(path, annotations);
+        } else {
+            this.annotations.delete(path);
+        }
+        this.refresh(path);
+    }
+
+    resolve(path: string, id: string): void {
+        this.forget(path, id);
+        this.refresh(path);
+    }
+
+    /** Show a note's annotations in the editors it is open in, e.g. after the note was opened. */
+    refresh(path: string): void {
+        for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+            const view = leaf.view;
+            if (!(view instanceof MarkdownView) || view.file?.path !== path) continue;
+
+            // Obsidian's Editor wraps the CodeMirror 6 view, which it doesn't expose in its types
+            const editorView = (view.editor as unknown as { cm?: EditorView }).cm;
+            editorView?.dispatch({ effects: setAnnotations.of(this.get(path)) });
+        }
+    }
+
+    handleRename(oldPath: string, newPath: string): void {
+        rebaseKeys(this.annotations, oldPath, newPath);
+    }
+
+    handleDelete(path: string): void {
+        deleteKeysWithin(this.annotations, path);
+    }
+
+    private forget(path: string, id: string): void {
+        const remaining = this.get(path).filter(annotation => annotation.id !== id);
+        if (remaining.length > 0) {
+            this.annotations.set(path, remaining);
+        } else {
+            this.annotations.delete(path);
+        }
+    }
+}
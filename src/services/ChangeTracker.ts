@@ -0,0 +1,295 @@
+import { App, Notice, TAbstractFile, TFile } from 'obsidian';
+import { NoteSnapshot, NotesCriticSettings } from 'types';
+import { changeSize } from 'diffs';
+import { FileManager } from '../FileManager';
+import { RuleManager } from 'rules/RuleManager';
+import { SnapshotStore } from 'services/SnapshotStore';
+import { deleteKeysWithin, isWithin, rebaseKeys, rebasePath } from '../paths';
+import { isSidecarPath } from '../reviewOutput';
+
+export type FeedbackHandler = (file: TFile) => Promise<void>;
+
+interface IdleFeedback {
+    file: TFile;
+    timer: number;
+    notBefore: number; // End of the cooldown, before which feedback must not be sent
+}
+
+/**
+ * Tracks edits across the whole vault, independently of the chat view. Notes
+ * matching a rule are tracked from when they are first opened or edited, from
+ * the baseline kept from a previous session if there is one; any other note
+ * once it is opened in the chat view.
+ * Feedback that comes due while no view is listening is queued until one is.
+ * In 'idle' trigger mode feedback waits until the note has gone quiet.
+ */
+export class ChangeTracker {
+    readonly noteSnapshots = new Map<string, NoteSnapshot>();
+    readonly fileManager: FileManager;
+    private app: App;
+    private settings: NotesCriticSettings;
+    private ruleManager: RuleManager;
+    private snapshotStore: SnapshotStore;
+    private lastFeedbackTimes = new Map<string, Date>();
+    private pendingFeedback: string[] = [];
+    private idleFeedback = new Map<string, IdleFeedback>();
+    private feedbackHandler: FeedbackHandler | null = null;
+    private listeners: Set<() => void> = new Set();
+
+    constructor(app: App, settings: NotesCriticSettings, ruleManager: RuleManager, snapshotStore: SnapshotStore) {
+        this.app = app;
+        this.settings = settings;
+        this.ruleManager = ruleManager;
+        this.snapshotStore = snapshotStore;
+        this.fileManager = new FileManager(
+            app,
+            this.noteSnapshots,
+            () => this.notifyListeners(),
+            snapshotStore,
+            path => this.ruleManager.getEffectiveConfig(path, this.settings)
+        );
+    }
+
+    /** Load rules and the baselines kept from previous sessions. Notes are read only once they are opened or edited. */
+    async start(): Promise<void> {
+        await this.ruleManager.initialize();
+        await this.snapshotStore.load();
+    }
+
+    /** Cancel any feedback still waiting for a note to go quiet. */
+    stop(): void {
+        this.idleFeedback.forEach(idle => window.clearTimeout(idle.timer));
+        this.idleFeedback.clear();
+    }
+
+    /** Start tracking a note regardless of rules, e.g. because it was opened. */
+    async track(file: TFile): Promise<void> {
+        await this.fileManager.initializeFileSnapshot(file);
+    }
+
+    /** Start tracking an opened note if it matches a rule. */
+    async handleOpen(file: TFile): Promise<void> {
+        if (!this.noteSnapshots.has(file.path) && await this.matchesRule(file.path)) {
+            await this.fileManager.initializeFileSnapshot(file);
+            this.notifyListeners();
+        }
+    }
+
+    getSnapshot(path: string): NoteSnapshot | undefined {
+        return this.noteSnapshots.get(path);
+    }
+
+    async handleModify(file: TAbstractFile): Promise<void> {
+        if (!(file instanceof TFile)) return;
+
+        if (this.noteSnapshots.has(file.path)) {
+            await this.fileManager.updateFileSnapshot(file);
+            this.notifyListeners();
+        } else if (await this.matchesRule(file.path)) {
+            await this.fileManager.initializeFileSnapshot(file);
+        } else {
+            return;
+        }
+
+        await this.checkAutoTrigger(file);
+    }
+
+    /**
+     * Carry snapshots, cooldowns and queued feedback over to a renamed or moved
+     * note (or folder), then re-evaluate which rules apply at the new location.
+     */
+    async handleRename(file: TAbstractFile, oldPath: string): Promise<void> {
+        const newPath = file.path;
+
+        this.ruleManager.invalidatePath(oldPath);
+        this.ruleManager.invalidatePath(newPath);
+        rebaseKeys(this.noteSnapshots, oldPath, newPath);
+        rebaseKeys(this.lastFeedbackTimes, oldPath, newPath);
+        rebaseKeys(this.idleFeedback, oldPath, newPath);
+        this.pendingFeedback = this.pendingFeedback.map(path => rebasePath(path, oldPath, newPath) ?? path);
+        await this.snapshotStore.rename(oldPath, newPath);
+
+        // Notes moved into a rule's scope start being tracked
+        const moved = file instanceof TFile ? [file] : this.app.vault.getMarkdownFiles().filter(note => isWithin(note.path, newPath));
+        for (const note of moved) {
+            if (!this.noteSnapshots.has(note.path) && await this.matchesRule(note.path)) {
+                await this.fileManager.initializeFileSnapshot(note);
+            }
+        }
+
+        this.notifyListeners();
+    }
+
+    /**
+     * Re-evaluate which rules apply to a note whose tags, properties or text
+     * changed, and start tracking it if it now matches one.
+     */
+    async handleMetadataChange(file: TFile): Promise<void> {
+        this.ruleManager.invalidatePath(file.path);
+        if (!this.noteSnapshots.has(file.path) && await this.matchesRule(file.path)) {
+            await this.fileManager.initializeFileSnapshot(file);
+            this.notifyListeners();
+        }
+    }
+
+    /** Drop all state for a deleted note, or for every note inside a deleted folder. */
+    async handleDelete(file: TAbstractFile): Promise<void> {
+        this.ruleManager.invalidatePath(file.path);
+        this.idleFeedback.forEach((idle, path) => {
+            if (isWithin(path, file.path)) this.cancelIdleFeedback(path);
+        });
+        deleteKeysWithin(this.noteSnapshots, file.path);
+        deleteKeysWithin(this.lastFeedbackTimes, file.path);
+        this.pendingFeedback = this.pendingFeedback.filter(path => !isWithin(path, file.path));
+        await this.snapshotStore.remove(file.path);
+
+        this.notifyListeners();
+    }
+
+    /**
+     * Send feedback that is waiting for a note to go quiet straight away, e.g.
+     * because the writer left the note or saved it.
+     */
+    async flushIdleFeedback(file: TFile): Promise<void> {
+        if (!this.idleFeedback.has(file.path)) return;
+
+        // Pick up the latest edits before they are reviewed
+        await this.fileManager.updateFileSnapshot(file);
+
+        const idle = this.idleFeedback.get(file.path);
+        if (!idle || Date.now() < idle.notBefore) return;
+        await this.triggerFeedback(file);
+    }
+
+    /** Ask for feedback on a note now, or queue it if no view is listening. */
+    async requestFeedback(file: TFile): Promise<void> {
+        if (this.feedbackHandler) {
+            await this.feedbackHandler(file);
+            return;
+        }
+
+        if (!this.pendingFeedback.includes(file.path)) {
+            this.pendingFeedback.push(file.path);
+            new Notice(`Feedback queued for ${file.basename}`);
+            this.notifyListeners();
+        }
+    }
+
+    /** Register the view that delivers feedback. Queued requests are sent to it straight away. */
+    setFeedbackHandler(handler: FeedbackHandler | null): void {
+        this.feedbackHandler = handler;
+        if (handler) {
+            this.flushPendingFeedback();
+        }
+    }
+
+    getPendingFeedback(): string[] {
+        return [...this.pendingFeedback];
+    }
+
+    /** Move a note's baseline up to its current content after it has been reviewed. */
+    markReviewed(file: TFile, time: Date = new Date()): void {
+        this.fileManager.updateFeedbackBaseline(file);
+        this.recordFeedbackTime(file.path, time);
+        this.notifyListeners();
+    }
+
+    getLastFeedbackTime(path: string): Date | undefined {
+        return this.lastFeedbackTimes.get(path) ?? this.snapshotStore.getLastFeedbackTime(path);
+    }
+
+    addListener(callback: () => void): () => void {
+        this.listeners.add(callback);
+        return () => {
+            this.listeners.delete(callback);
+        };
+    }
+
+    private async matchesRule(path: string): Promise<boolean> {
+        // Review files written next to notes are the critic's, not the writer's
+        if (isSidecarPath(path)) return false;
+        return (await this.ruleManager.getMatchingRules(path)).length > 0;
+    }
+
+    private async checkAutoTrigger(file: TFile): Promise<void> {
+        if (!await this.ruleManager.shouldAutoTrigger(file.path)) return;
+
+        const config = await this.ruleManager.getEffectiveConfig(file.path, this.settings);
+        const snapshot = this.noteSnapshots.get(file.path);
+        if (!snapshot || changeSize(snapshot.changes, config.feedbackThresholdUnit) < config.feedbackThreshold) {
+            this.cancelIdleFeedback(file.path);
+            return;
+        }
+        if (this.pendingFeedback.includes(file.path)) return;
+
+        // Check cooldown period, allowing a trigger if there was no previous feedback
+        const now = Date.now();
+        const lastFeedbackTime = this.getLastFeedbackTime(file.path);
+        const notBefore = lastFeedbackTime ? lastFeedbackTime.getTime() + config.feedbackCooldownSeconds * 1000 : now;
+
+        if (config.feedbackTrigger === 'idle') {
+            // Every edit restarts the wait, so feedback comes once the writer pauses
+            this.scheduleIdleFeedback(file, Math.max(config.feedbackIdleSeconds * 1000, notBefore - now), notBefore);
+            return;
+        }
+
+        if (now < notBefore) return;
+        await this.triggerFeedback(file);
+    }
+
+    private async triggerFeedback(file: TFile): Promise<void> {
+        this.cancelIdleFeedback(file.path);
+        this.recordFeedbackTime(file.path, new Date());
+        await this.requestFeedback(file);
+    }
+
+    private scheduleIdleFeedback(file: TFile, delayMs: number, notBefore: number): void {
+        this.cancelIdleFeedback(file.path);
+        const timer = window.setTimeout(() => {
+            this.triggerFeedback(file).catch(error => {
+                console.error('Error triggering feedback:', error);
+            });
+        }, delayMs);
+        this.idleFeedback.set(file.path, { file, timer, notBefore });
+    }
+
+    private cancelIdleFeedback(path: string): void {
+        const idle = this.idleFeedback.get(path);
+        if (idle) {
+            window.clearTimeout(idle.timer);
+            this.idleFeedback.delete(path);
+        }
+    }
+
+    private async flushPendingFeedback(): Promise<void> {
+        while (this.feedbackHandler && this.pendingFeedback.length > 0) {
+            const path = this.pendingFeedback.shift() as string;
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+
+            try {
+                await this.feedbackHandler(file);
+            } catch (error) {
+                console.error(`Error sending queued feedback for ${path}:`, error);
+            }
+        }
+        this.notifyListeners();
+    }
+
+    private recordFeedbackTime(path: string, time: Date): void {
+        this.lastFeedbackTimes.set(path, time);
+        this.snapshotStore.saveFeedbackTime(path, time).catch(error => {
+            console.error('Error saving feedback time:', error);
+        });
+    }
+
+    private notifyListeners(): void {
+        this.listeners.forEach(callback => {
+            try {
+                callback();
+            } catch (error) {
+                console.error('Error in change tracker listener:', error);
+            }
+        });
+    }
+}
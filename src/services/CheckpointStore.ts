@@ -0,0 +1,60 @@
+import { App } from 'obsidian';
+import { NoteCheckpoint, NotesCriticSettings } from 'types';
+import { listFormat, NoteRecordStore } from './NoteRecordStore';
+
+/**
+ * Keeps named versions of notes that feedback and diffs can be taken against,
+ * independent of the baseline that moves forward after every review. Stored
+ * as one JSON file per note under the configured checkpoint directory.
+ *
+ * Checkpoints of deleted notes are kept, as they may be the only copy left.
+ */
+export class CheckpointStore {
+    private records: NoteRecordStore<NoteCheckpoint[]>;
+
+    constructor(app: App, settings: Pick<NotesCriticSettings, 'checkpointPath'>) {
+        this.records = new NoteRecordStore(app, listFormat('note checkpoints', 'checkpoints', () => settings.checkpointPath));
+    }
+
+    /** Read every stored checkpoint into memory. Safe to call repeatedly. */
+    load(): Promise<void> {
+        return this.records.load();
+    }
+
+    /** Checkpoints of a note, oldest first. */
+    list(path: string): NoteCheckpoint[] {
+        return [...(this.records.get(path) ?? [])];
+    }
+
+    get(path: string, id: string): NoteCheckpoint | undefined {
+        return this.records.get(path)?.find(checkpoint => checkpoint.id === id);
+    }
+
+    async create(path: string, name: string, content: string): Promise<NoteCheckpoint> {
+        await this.load();
+
+        const createdAt = Date.now();
+        const checkpoint: NoteCheckpoint = {
+            id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            name: name.trim() || new Date(createdAt).toLocaleString(),
+            path,
+            content,
+            createdAt
+        };
+        await this.records.save(path, [...this.list(path), checkpoint]);
+        return checkpoint;
+    }
+
+    async delete(path: string, id: string): Promise<void> {
+        await this.load();
+        await this.records.save(path, this.list(path).filter(checkpoint => checkpoint.id !== id));
+    }
+
+    /** Carry checkpoints over to a renamed note, or to the notes of a renamed folder. */
+    async rename(oldPath: string, newPath: string): Promise<void> {
+        await this.records.rename(oldPath, newPath, (checkpoints, movedTo, existing = []) => [
+            ...existing,
+            ...checkpoints.map(checkpoint => ({ ...checkpoint, path: movedTo }))
+        ]);
+    }
+}
@@ -0,0 +1,95 @@
+import { App } from 'obsidian';
+import { ConversationTurn, LLMFile, NoteScore } from 'types';
+import { rebasePath } from '../paths';
+import { overallScore, parseScores } from '../scores';
+
+const basename = (path: string): string => (path.split('/').pop() || '').replace(/\.[^/.]+$/, '');
+
+const relinkFile = (file: LLMFile, oldPath: string, newPath: string): LLMFile => {
+    const movedTo = rebasePath(file.path, oldPath, newPath);
+    if (movedTo === null) return file;
+
+    const renamed = file.name === basename(file.path);
+    return { ...file, path: movedTo, name: renamed ? basename(movedTo) : file.name };
+};
+
+const relinkTurn = (turn: ConversationTurn, oldPath: string, newPath: string): ConversationTurn => {
+    const original = turn.userInput.files || [];
+    const files = original.map(file => relinkFile(file, oldPath, newPath));
+    const movedIndex = files.findIndex((file, index) => file !== original[index]);
+    if (movedIndex === -1) return turn;
+
+    const userInput = { ...turn.userInput, files };
+    // Feedback turns are titled after the note they were about
+    if (userInput.type !== 'chat_message' && userInput.filename === basename(original[movedIndex].path)) {
+        userInput.filename = basename(files[movedIndex].path);
+    }
+    return { ...turn, userInput };
+};
+
+/**
+ * Point the notes attached to logged conversations at their new location after
+ * a note or folder is renamed. Returns the log files that were rewritten.
+ */
+export async function relinkConversationLogs(app: App, logPath: string, oldPath: string, newPath: string): Promise<string[]> {
+    if (!await app.vault.adapter.exists(logPath)) return [];
+
+    const rewritten: string[] = [];
+    const listing = await app.vault.adapter.list(logPath);
+    for (const logFile of listing.files) {
+        if (!logFile.endsWith('.json')) continue;
+        try {
+            const history = JSON.parse(await app.vault.adapter.read(logFile));
+            const conversation: ConversationTurn[] | undefined = history.conversation;
+            if (!conversation) continue;
+
+            const relinked = conversation.map(turn => relinkTurn(turn, oldPath, newPath));
+            if (relinked.every((turn, index) => turn === conversation[index])) continue;
+
+            await app.vault.adapter.write(logFile, JSON.stringify({ ...history, conversation: relinked }));
+            rewritten.push(logFile);
+        } catch (error) {
+            console.error(`Error updating conversation log ${logFile}:`, error);
+        }
+    }
+    return rewritten;
+}
+
+/**
+ * The rubric scores of every logged review, with the note each was about, so
+ * score history can be rebuilt from the conversations already saved.
+ */
+export async function scoresFromConversationLogs(app: App, logPath: string): Promise<{ path: string; score: NoteScore }[]> {
+    if (!await app.vault.adapter.exists(logPath)) return [];
+
+    const found: { path: string; score: NoteScore }[] = [];
+    const listing = await app.vault.adapter.list(logPath);
+    for (const logFile of listing.files) {
+        if (!logFile.endsWith('.json')) continue;
+        try {
+            const history = JSON.parse(await app.vault.adapter.read(logFile));
+            const conversation: ConversationTurn[] = history.conversation ?? [];
+            for (const turn of conversation) {
+                // Feedback turns send the note they are about as their first file
+                const path = turn.userInput.type !== 'chat_message' ? turn.userInput.files?.[0]?.path : undefined;
+                if (!path || turn.error) continue;
+
+                const scores = parseScores(turn.steps.map(step => step.content ?? '').join('\n'));
+                if (!scores) continue;
+                found.push({
+                    path,
+                    score: {
+                        reviewedAt: new Date(turn.timestamp).getTime(),
+                        scores,
+                        overall: overallScore(scores),
+                        conversationId: history.id,
+                        turnId: turn.id
+                    }
+                });
+            }
+        } catch (error) {
+            console.error(`Error reading scores from conversation log ${logFile}:`, error);
+        }
+    }
+    return found;
+}
@@ -0,0 +1,90 @@
+import { App } from 'obsidian';
+import { FeedbackItem, FeedbackItemDecision, FeedbackItemStatus, NotesCriticSettings } from 'types';
+import { feedbackItemKey } from '../structuredFeedback';
+import { listFormat, NoteRecordStore } from './NoteRecordStore';
+
+/**
+ * Remembers which feedback items the writer accepted, dismissed or deferred
+ * on each note, so the critic can be told not to repeat dismissed points.
+ * Stored as one JSON file per note in a `feedback` folder next to the
+ * conversation logs.
+ *
+ * Decisions on deleted notes are kept, as they still count towards what
+ * each rule's feedback tends to get dismissed for.
+ */
+export class FeedbackItemStore {
+    private records: NoteRecordStore<FeedbackItemDecision[]>;
+
+    constructor(app: App, settings: Pick<NotesCriticSettings, 'logPath'>) {
+        this.records = new NoteRecordStore(app, listFormat('feedback item decisions', 'decisions', () => `${settings.logPath}/feedback`));
+    }
+
+    /** Read every stored decision into memory. Safe to call repeatedly. */
+    load(): Promise<void> {
+        return this.records.load();
+    }
+
+    /** Decisions on a note, oldest first. */
+    list(path: string): FeedbackItemDecision[] {
+        return [...(this.records.get(path) ?? [])];
+    }
+
+    get(path: string, item: FeedbackItem): FeedbackItemDecision | undefined {
+        const key = feedbackItemKey(item);
+        return this.records.get(path)?.find(decision => decision.key === key);
+    }
+
+    dismissed(path: string): FeedbackItemDecision[] {
+        return this.list(path).filter(decision => decision.status === 'dismissed');
+    }
+
+    /** Notes with any decisions recorded. */
+    notePaths(): string[] {
+        return this.records.paths();
+    }
+
+    /** Record a decision on an item, replacing any earlier one. */
+    async set(path: string, item: FeedbackItem, status: FeedbackItemStatus, reason?: string): Promise<FeedbackItemDecision> {
+        await this.load();
+
+        const key = feedbackItemKey(item);
+        const decision: FeedbackItemDecision = {
+            key,
+            status,
+            ...(status === 'dismissed' && reason?.trim() && { reason: reason.trim() }),
+            item,
+            decidedAt: Date.now()
+        };
+        await this.records.save(path, [...this.list(path).filter(existing => existing.key !== key), decision]);
+        return decision;
+    }
+
+    /** Forget the decision on an item, leaving it open again. */
+    async clear(path: string, item: FeedbackItem): Promise<void> {
+        await this.load();
+
+        const key = feedbackItemKey(item);
+        await this.records.save(path, this.list(path).filter(decision => decision.key !== key));
+    }
+
+    /** How often each category was dismissed across the given notes, most dismissed first. */
+    dismissedCategories(paths: string[]): { category: string; count: number }[] {
+        const counts = new Map<string, number>();
+        for (const path of paths) {
+            for (const decision of this.dismissed(path)) {
+                counts.set(decision.item.category, (counts.get(decision.item.category) ?? 0) + 1);
+            }
+        }
+        return Array.from(counts.entries())
+            .map(([category, count]) => ({ category, count }))
+            .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category));
+    }
+
+    /** Carry decisions over to a renamed note, or to the notes of a renamed folder. */
+    async rename(oldPath: string, newPath: string): Promise<void> {
+        await this.records.rename(oldPath, newPath, (decisions, movedTo, existing = []) => {
+            const keys = new Set(decisions.map(decision => decision.key));
+            return [...existing.filter(decision => !keys.has(decision.key)), ...decisions];
+        });
+    }
+}
@@ -0,0 +1,184 @@
+import { App } from 'obsidian';
+import { isWithin, rebasePath } from '../paths';
+
+/** A record as read from its file. */
+export type StoredRecord = Record<string, unknown> & { path: string };
+
+/** How a store's records are kept on disk. */
+export interface NoteRecordFormat<T> {
+    name: string; // What the records are, for error messages, e.g. "note scores"
+    directory: () => string;
+    toRecord: (path: string, value: T) => { path: string };
+    fromRecord: (record: StoredRecord) => T | undefined; // Undefined for records that aren't valid
+    isEmpty?: (value: T) => boolean; // Empty values remove the note's file instead of being written
+}
+
+/** The format of stores that keep a list per note, as `{ path, [key]: [...] }`. */
+export function listFormat<T>(name: string, key: string, directory: () => string): NoteRecordFormat<T[]> {
+    return {
+        name,
+        directory,
+        toRecord: (path, list) => ({ path, [key]: list }),
+        fromRecord: record => (Array.isArray(record[key]) ? record[key] as T[] : undefined),
+        isEmpty: list => list.length === 0
+    };
+}
+
+/**
+ * Keeps a record per note in memory and as one JSON file per note in a
+ * directory, holding the note's path. The stores of checkpoints, snapshots, feedback decisions and
+ * scores are built on it.
+ *
+ * Files are written one at a time, so concurrent saves don't interleave.
+ */
+export class NoteRecordStore<T> {
+    private app: App;
+    private format: NoteRecordFormat<T>;
+    private records = new Map<string, T>();
+    private loading: Promise<void> | null = null;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(app: App, format: NoteRecordFormat<T>) {
+        this.app = app;
+        this.format = format;
+    }
+
+    /** Read every stored record into memory. Safe to call repeatedly. */
+    load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.readAll().catch(error => {
+                console.error(`Error loading ${this.format.name}:`, error);
+                this.loading = null;
+            });
+        }
+        return this.loading;
+    }
+
+    get(path: string): T | undefined {
+        return this.records.get(path);
+    }
+
+    /** Notes with a record. */
+    paths(): string[] {
+        return Array.from(this.records.keys());
+    }
+
+    entries(): [string, T][] {
+        return Array.from(this.records.entries());
+    }
+
+    /** Store a note's record, or remove it when it is empty. */
+    async save(path: string, value: T): Promise<void> {
+        if (this.format.isEmpty?.(value)) {
+            await this.delete(path);
+            return;
+        }
+
+        this.records.set(path, value);
+        const directory = this.format.directory();
+        const content = JSON.stringify(this.format.toRecord(path, value), null, 2);
+        await this.serialize(async () => {
+            if (!await this.app.vault.adapter.exists(directory)) {
+                await this.app.vault.adapter.mkdir(directory);
+            }
+            await this.app.vault.adapter.write(this.fileName(path), content);
+        });
+    }
+
+    /** Remove the record of a note, or of every note inside a folder. */
+    async remove(path: string): Promise<void> {
+        for (const stored of this.paths()) {
+            if (isWithin(stored, path)) {
+                await this.delete(stored);
+            }
+        }
+    }
+
+    /**
+     * Carry records over to a renamed note, or to the notes of a renamed
+     * folder, combining each with any record already at its new path.
+     * Returns the new paths.
+     */
+    async rename(oldPath: string, newPath: string, combine: (moved: T, movedTo: string, existing: T | undefined) => T): Promise<string[]> {
+        await this.load();
+
+        const moved: string[] = [];
+        for (const [path, value] of this.entries()) {
+            const movedTo = rebasePath(path, oldPath, newPath);
+            if (movedTo === null) continue;
+
+            await this.delete(path);
+            await this.save(movedTo, combine(value, movedTo, this.records.get(movedTo)));
+            moved.push(movedTo);
+        }
+        return moved;
+    }
+
+    private async delete(path: string): Promise<void> {
+        this.records.delete(path);
+        const file = this.fileName(path);
+        await this.serialize(async () => {
+            if (await this.app.vault.adapter.exists(file)) {
+                await this.app.vault.adapter.remove(file);
+            }
+        });
+    }
+
+    /** Run file operations one at a time, in the order they were asked for. */
+    private serialize(operation: () => Promise<void>): Promise<void> {
+        const result = this.writing.then(operation);
+        this.writing = result.catch(() => undefined);
+        return result;
+    }
+
+    private async readAll(): Promise<void> {
+        const directory = this.format.directory();
+        if (!await this.app.vault.adapter.exists(directory)) return;
+
+        // Files were once named after their note's path, which can be too long for a file name
+        const outdated: { file: string; path: string; value: T }[] = [];
+        const listing = await this.app.vault.adapter.list(directory);
+        for (const file of listing.files) {
+            if (!file.endsWith('.json')) continue;
+            try {
+                const record = JSON.parse(await this.app.vault.adapter.read(file)) as StoredRecord | null;
+                const value = record?.path ? this.format.fromRecord(record) : undefined;
+                if (!record || value === undefined) continue;
+                if (file !== this.fileName(record.path)) {
+                    outdated.push({ file, path: record.path, value });
+                } else if (!this.records.has(record.path)) {
+                    // Keep anything written since the load started
+                    this.records.set(record.path, value);
+                }
+            } catch (error) {
+                console.error(`Error reading ${this.format.name} ${file}:`, error);
+            }
+        }
+
+        for (const { file, path, value } of outdated) {
+            if (!this.records.has(path)) {
+                await this.save(path, value);
+            }
+            await this.serialize(() => this.app.vault.adapter.remove(file));
+        }
+    }
+
+    /** A note's file, named by a hash of its path so the name has the same length for every note. */
+    private fileName(path: string): string {
+        return `${this.format.directory()}/${hashPath(path)}.json`;
+    }
+}
+
+/** A 64-bit hash of a path as 16 hex digits (cyrb53, with both halves kept). */
+function hashPath(path: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < path.length; i++) {
+        const code = path.charCodeAt(i);
+        h1 = Math.imul(h1 ^ code, 2654435761);
+        h2 = Math.imul(h2 ^ code, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return [h2, h1].map(half => (half >>> 0).toString(16).padStart(8, '0')).join('');
+}
@@ -0,0 +1,104 @@
+import { App } from 'obsidian';
+import { NoteScore, NotesCriticSettings } from 'types';
+import { listFormat, NoteRecordStore } from './NoteRecordStore';
+
+/**
+ * Keeps the rubric scores each review gave a note, so it can be seen how the
+ * note improved over its revisions. Stored as one JSON file per note in a
+ * `scores` folder next to the conversation logs.
+ *
+ * Scores of deleted notes are kept along with their conversation logs.
+ */
+export class ScoreStore {
+    private records: NoteRecordStore<NoteScore[]>;
+    private listeners = new Set<() => void>();
+
+    constructor(app: App, settings: Pick<NotesCriticSettings, 'logPath'>) {
+        this.records = new NoteRecordStore(app, listFormat('note scores', 'scores', () => `${settings.logPath}/scores`));
+    }
+
+    /** Read every stored score into memory. Safe to call repeatedly. */
+    load(): Promise<void> {
+        return this.records.load();
+    }
+
+    /** Be told when scores are added or moved. Returns a function that stops listening. */
+    addListener(callback: () => void): () => void {
+        this.listeners.add(callback);
+        return () => {
+            this.listeners.delete(callback);
+        };
+    }
+
+    /** Scores of a note, oldest first. */
+    list(path: string): NoteScore[] {
+        return [...(this.records.get(path) ?? [])];
+    }
+
+    latest(path: string): NoteScore | undefined {
+        return this.records.get(path)?.slice(-1)[0];
+    }
+
+    /** Every note's scores, oldest first. */
+    all(): Map<string, NoteScore[]> {
+        return new Map(this.records.entries().map(([path, scores]) => [path, [...scores]]));
+    }
+
+    /** Record a review's scores. A review that was already recorded is replaced. */
+    async add(path: string, score: NoteScore): Promise<void> {
+        await this.load();
+        await this.records.save(path, this.merge(this.list(path), [score]));
+        this.notifyListeners();
+    }
+
+    /**
+     * Record scores found elsewhere, e.g. in the conversation logs, skipping
+     * reviews that are already recorded. Returns how many were added.
+     */
+    async import(entries: { path: string; score: NoteScore }[]): Promise<number> {
+        await this.load();
+
+        const byPath = new Map<string, NoteScore[]>();
+        for (const { path, score } of entries) {
+            const known = this.list(path).some(existing => sameReview(existing, score));
+            if (!known) byPath.set(path, [...(byPath.get(path) ?? []), score]);
+        }
+
+        let added = 0;
+        for (const [path, scores] of Array.from(byPath.entries())) {
+            await this.records.save(path, this.merge(this.list(path), scores));
+            added += scores.length;
+        }
+        if (added > 0) this.notifyListeners();
+        return added;
+    }
+
+    /** Carry scores over to a renamed note, or to the notes of a renamed folder. */
+    async rename(oldPath: string, newPath: string): Promise<void> {
+        const moved = await this.records.rename(oldPath, newPath, (scores, movedTo, existing = []) => this.merge(existing, scores));
+        if (moved.length > 0) this.notifyListeners();
+    }
+
+    private notifyListeners(): void {
+        this.listeners.forEach(callback => {
+            try {
+                callback();
+            } catch (error) {
+                console.error('Error in note score listener:', error);
+            }
+        });
+    }
+
+    /** Add scores to a list, replacing earlier records of the same review, in review order. */
+    private merge(existing: NoteScore[], added: NoteScore[]): NoteScore[] {
+        return [...existing.filter(score => !added.some(other => sameReview(score, other))), ...added]
+            .sort((a, b) => a.reviewedAt - b.reviewedAt);
+    }
+}
+
+/** Reviews are told apart by their turn, or by when they were made if that isn't known. */
+function sameReview(a: NoteScore, b: NoteScore): boolean {
+    return a.turnId !== undefined || b.turnId !== undefined
+        ? a.turnId === b.turnId && a.conversationId === b.conversationId
+        : a.reviewedAt === b.reviewedAt;
+}
@@ -0,0 +1,80 @@
+import { App } from 'obsidian';
+import { NotesCriticSettings } from 'types';
+import { NoteRecordStore } from './NoteRecordStore';
+
+export interface StoredSnapshot {
+    path: string;
+    baseline?: string; // Unset while only a feedback time is known
+    lastFeedbackTime?: number;
+    updatedAt: number;
+}
+
+/**
+ * Persists the baseline of the last reviewed version of each note, along with
+ * when feedback was last given, so both survive restarts. Records live as one
+ * JSON file per note under the configured snapshot directory.
+ */
+export class SnapshotStore {
+    private records: NoteRecordStore<StoredSnapshot>;
+
+    constructor(app: App, settings: Pick<NotesCriticSettings, 'snapshotPath'>) {
+        this.records = new NoteRecordStore<StoredSnapshot>(app, {
+            name: 'note snapshots',
+            directory: () => settings.snapshotPath,
+            toRecord: (path, snapshot) => snapshot,
+            fromRecord: record => record as unknown as StoredSnapshot
+        });
+    }
+
+    /** Read every stored snapshot into memory. Safe to call repeatedly. */
+    load(): Promise<void> {
+        return this.records.load();
+    }
+
+    get(path: string): StoredSnapshot | undefined {
+        return this.records.get(path);
+    }
+
+    getLastFeedbackTime(path: string): Date | undefined {
+        const time = this.records.get(path)?.lastFeedbackTime;
+        return time !== undefined ? new Date(time) : undefined;
+    }
+
+    async saveBaseline(path: string, baseline: string): Promise<void> {
+        await this.save(path, { baseline });
+    }
+
+    async saveFeedbackTime(path: string, time: Date): Promise<void> {
+        await this.save(path, { lastFeedbackTime: time.getTime() });
+    }
+
+    /** Remove the snapshot for a note, or for every note inside a folder. */
+    async remove(path: string): Promise<void> {
+        await this.records.remove(path);
+    }
+
+    /** Carry snapshots over to a renamed note, or to the notes of a renamed folder. */
+    async rename(oldPath: string, newPath: string): Promise<void> {
+        await this.records.rename(oldPath, newPath, (snapshot, movedTo, existing) => ({ ...existing, ...snapshot, path: movedTo, updatedAt: Date.now() }));
+    }
+
+    /** Drop snapshots whose notes no longer exist. Returns the pruned paths. */
+    async prune(exists: (path: string) => boolean): Promise<string[]> {
+        await this.load();
+
+        const stale = this.records.paths().filter(path => !exists(path));
+        for (const path of stale) {
+            await this.remove(path);
+        }
+        return stale;
+    }
+
+    private async save(path: string, update: Partial<StoredSnapshot>): Promise<void> {
+        await this.records.save(path, {
+            path,
+            ...this.records.get(path),
+            ...update,
+            updatedAt: Date.now()
+        });
+    }
+}
@@ -7,6 +7,7 @@ export interface ConversationTokens {
     totalTokens: number;
     lastUpdateTime: number;
     conversationId: string;
+    byCritic?: Record<string, TokenUsage>; // Share of the totals used by each critic persona
 }
 
 export interface SessionTokens {
@@ -34,7 +35,8 @@ export class TokenTracker {
         };
     }
 
-    addUsage(conversationId: string, usage: TokenUsage): void {
+    /** Add usage to a conversation, attributed to a critic persona when a panel of critics used it. */
+    addUsage(conversationId: string, usage: TokenUsage, critic?: string): void {
         const now = Date.now();
 
         // Update conversation tokens
@@ -57,6 +59,14 @@ export class TokenTracker {
         convTokens.totalTokens += usage.totalTokens;
         convTokens.lastUpdateTime = now;
 
+        if (critic) {
+            const byCritic = convTokens.byCritic ?? (convTokens.byCritic = {});
+            const criticTokens = byCritic[critic] ?? (byCritic[critic] = { inputTokens: 0, outputTokens: 0, totalTokens: 0 });
+            criticTokens.inputTokens += usage.inputTokens;
+            criticTokens.outputTokens += usage.outputTokens;
+            criticTokens.totalTokens += usage.totalTokens;
+        }
+
         // Update session tokens
         this.sessionTokens.totalInputTokens += usage.inputTokens;
         this.sessionTokens.totalOutputTokens += usage.outputTokens;
@@ -71,6 +81,14 @@ export class TokenTracker {
         return this.conversationTokens.get(conversationId) || null;
     }
 
+    /** Tokens each critic persona used in a conversation, most first. */
+    getCriticTokens(conversationId: string): { critic: string; usage: TokenUsage }[] {
+        const byCritic = this.conversationTokens.get(conversationId)?.byCritic ?? {};
+        return Object.entries(byCritic)
+            .map(([critic, usage]) => ({ critic, usage: { ...usage } }))
+            .sort((a, b) => b.usage.totalTokens - a.usage.totalTokens);
+    }
+
     getSessionTokens(): SessionTokens {
         return { ...this.sessionTokens };
     }
@@ -0,0 +1,236 @@
+import React, { useMemo, useState } from 'react';
+import { parseYaml, stringifyYaml } from 'obsidian';
+import { RuleManager } from 'rules/RuleManager';
+import { FieldSchema, hasErrors, parseFrontmatter, RULE_SCHEMA, serializeFrontmatter, setBody, setSetting } from 'rules/ruleSchema';
+
+interface RuleEditorProps {
+    ruleManager: RuleManager;
+    path: string | null; // Null for a new rule
+    onClose: () => void;
+}
+
+/** What each setting does, shown next to its input. */
+const FIELD_DESCRIPTIONS: Record<string, string> = {
+    name: 'Shown in the rule list, and how other rules extend this one',
+    enabled: 'Whether the rule is used',
+    priority: 'Rules with a higher priority win over other rules of the same folder',
+    extends: 'Name or file name of a rule to take settings and the prompt from',
+    promptMerge: 'How the prompt combines with the one of the rule it extends or of lower-priority rules',
+    globs: 'Paths of the notes the rule applies to, relative to the folder the rule is in',
+    exclude: 'Paths of notes to leave out, relative to the same folder',
+    tags: 'Notes with any of these tags',
+    properties: 'Notes whose frontmatter properties have these values, one "property: value" per line',
+    minWords: 'Notes with at least this many words',
+    maxWords: 'Notes with at most this many words',
+    contentPatterns: 'Notes whose text matches any of these regular expressions',
+    systemPrompt: 'Replaces the system prompt of the chat',
+    feedbackPrompt: 'Replaced by the body of the file below when it has one'
+};
+
+/** Settings written in the body instead of a field. */
+const BODY_FIELDS = ['feedbackPrompt'];
+
+const BOOLEAN_OPTIONS: Record<string, string> = { '': 'Default', true: 'Yes', false: 'No' };
+
+type FieldValues = Record<string, string>;
+
+/** A setting as it is typed in its input. */
+function fieldText(value: unknown, field: FieldSchema): string {
+    if (value === undefined || value === null) return '';
+    if (field.type === 'string[]') return (value as string[]).join(', ');
+    if (field.type === 'properties') return stringifyYaml(value).trimEnd();
+    return String(value);
+}
+
+/** A setting from its input; empty inputs leave it unset. */
+function fieldValue(text: string, field: FieldSchema): unknown {
+    if (!text.trim()) return undefined;
+    switch (field.type) {
+        case 'number':
+            return Number(text);
+        case 'boolean':
+            return text === 'true';
+        case 'string[]':
+            return text.split(',').map(item => item.trim()).filter(Boolean);
+        case 'properties':
+            try {
+                return parseYaml(text);
+            } catch {
+                // Saved as typed, so the problem is reported like any other
+                return text;
+            }
+        default:
+            return text;
+    }
+}
+
+/**
+ * A rule file with the settings and body changed in the form. Everything
+ * else stays as written: comments, unknown settings and settings the form
+ * couldn't show.
+ */
+function applyChanges(content: string, initial: FieldValues, fields: FieldValues, initialBody: string, body: string): string {
+    for (const [name, field] of Object.entries(RULE_SCHEMA)) {
+        if (BODY_FIELDS.includes(name) || fields[name] === initial[name]) continue;
+        content = setSetting(content, name, fieldValue(fields[name], field));
+    }
+    return body === initialBody ? content : setBody(content, body);
+}
+
+const FieldInput: React.FC<{ name: string; field: FieldSchema; value: string; onChange: (value: string) => void }> = ({ name, field, value, onChange }) => {
+    if (field.type === 'boolean' || field.values) {
+        const options = field.type === 'boolean'
+            ? BOOLEAN_OPTIONS
+            : { '': 'Default', ...Object.fromEntries((field.values ?? []).map(option => [option, option])) };
+        return (
+            <select className="dropdown" value={value} onChange={(e) => onChange(e.target.value)}>
+                {Object.entries(options).map(([option, label]) => (
+                    <option key={option} value={option}>{label}</option>
+                ))}
+            </select>
+        );
+    }
+    if (field.type === 'properties' || name === 'systemPrompt') {
+        return <textarea className="nc-textarea nc-resize-vertical" rows={3} value={value} onChange={(e) => onChange(e.target.value)} />;
+    }
+    return (
+        <input
+            type={field.type === 'number' ? 'number' : 'text'}
+            className="nc-input"
+            placeholder={field.type === 'string[]' ? 'Separated by commas' : undefined}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+        />
+    );
+};
+
+/**
+ * Form for a rule file: an input per frontmatter setting and the feedback
+ * prompt as the body, with the file's problems shown as it is edited. A file
+ * whose frontmatter can't be read is edited as text instead.
+ */
+export const RuleEditor: React.FC<RuleEditorProps> = ({ ruleManager, path, onClose }) => {
+    const [file] = useState(() => (path && ruleManager.getRuleFile(path)) || undefined);
+    const [initialFields] = useState<FieldValues>(() => {
+        const values = file?.values ?? { name: '', enabled: true };
+        return Object.fromEntries(Object.entries(RULE_SCHEMA).map(([name, field]) => [name, fieldText(values[name], field)]));
+    });
+    const initialBody = file?.body.trim() ?? '';
+    const [fields, setFields] = useState(initialFields);
+    const [body, setBodyText] = useState(initialBody);
+    // The form would lose what it can't read, so such files are edited as they are
+    const [text, setText] = useState(() => file && hasErrors(parseFrontmatter(file.content, RULE_SCHEMA, true).diagnostics) ? file.content : null);
+    const [folder, setFolder] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const content = useMemo(() => {
+        if (text !== null) return text;
+        if (file) return applyChanges(file.content, initialFields, fields, initialBody, body);
+        return serializeFrontmatter(Object.fromEntries(Object.entries(RULE_SCHEMA)
+            .map(([name, field]) => [name, fieldValue(fields[name], field)])), body);
+    }, [text, file, initialFields, fields, initialBody, body]);
+    const diagnostics = useMemo(() => parseFrontmatter(content, RULE_SCHEMA, true).diagnostics, [content]);
+
+    const handleSave = async () => {
+        setSaving(true);
+        setError(null);
+        try {
+            const filePath = path ?? await ruleManager.newRulePath(folder.trim().replace(/^\/+|\/+$/g, ''), fields.name || 'rule');
+            await ruleManager.saveRuleFile(filePath, content);
+            onClose();
+        } catch (err: unknown) {
+            setError(`Couldn't save the rule: ${err instanceof Error ? err.message : String(err)}`);
+            console.error('Error saving rule:', err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="nc-card nc-card--padded nc-space-y-2">
+            <h4 className="nc-m-0 nc-text-lg nc-text-normal">{path ? `Edit ${fields.name || path}` : 'New rule'}</h4>
+            {path ? (
+                <div className="nc-text-xs nc-text-muted nc-font-mono">{path}</div>
+            ) : (
+                <div className="setting-item">
+                    <div className="setting-item-info">
+                        <div className="setting-item-name">Folder</div>
+                        <div className="setting-item-description">Where in the vault the rule file goes, in its .notes-critic/rules folder. Leave empty for the vault root.</div>
+                    </div>
+                    <div className="setting-item-control">
+                        <input type="text" className="nc-input" value={folder} onChange={(e) => setFolder(e.target.value)} />
+                    </div>
+                </div>
+            )}
+
+            {text !== null ? (
+                <div className="setting-item nc-setting-vertical">
+                    <div className="setting-item-info">
+                        <div className="setting-item-name">Rule file</div>
+                        <div className="setting-item-description">The settings of this file can't be read, so it is edited as text to keep everything in it.</div>
+                    </div>
+                    <div className="nc-setting-control-full">
+                        <textarea
+                            className="nc-textarea nc-font-mono nc-min-h-32 nc-max-h-80 nc-resize-vertical"
+                            rows={12}
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                        />
+                    </div>
+                </div>
+            ) : (
+                <>
+                    {Object.entries(RULE_SCHEMA).filter(([name]) => !BODY_FIELDS.includes(name)).map(([name, field]) => (
+                        <div key={name} className="setting-item">
+                            <div className="setting-item-info">
+                                <div className="setting-item-name nc-font-mono">{name}</div>
+                                {FIELD_DESCRIPTIONS[name] && <div className="setting-item-description">{FIELD_DESCRIPTIONS[name]}</div>}
+                            </div>
+                            <div className="setting-item-control">
+                                <FieldInput name={name} field={field} value={fields[name]} onChange={(value) => setFields({ ...fields, [name]: value })} />
+                            </div>
+                        </div>
+                    ))}
+
+                    <div className="setting-item nc-setting-vertical">
+                        <div className="setting-item-info">
+                            <div className="setting-item-name">Feedback prompt</div>
+                            <div className="setting-item-description">
+                                The body of the rule file. Macros: {'${notePath}'}, {'${noteTitle}'}, {'${diff}'}, {'${sectionSummary}'}, {'${changedSections}'}
+                            </div>
+                        </div>
+                        <div className="nc-setting-control-full">
+                            <textarea
+                                className="nc-textarea nc-min-h-32 nc-max-h-80 nc-resize-vertical"
+                                rows={8}
+                                value={body}
+                                onChange={(e) => setBodyText(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                </>
+            )}
+
+            {diagnostics.length > 0 && (
+                <ul className="nc-rule-diagnostics nc-text-sm">
+                    {diagnostics.map((diagnostic, index) => (
+                        <li key={index} className={diagnostic.severity === 'error' ? 'nc-text-error' : 'nc-text-warning'}>
+                            {diagnostic.line !== undefined && <span className="nc-font-mono">line {diagnostic.line}</span>} {diagnostic.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {error && <p className="nc-text-error nc-text-sm">{error}</p>}
+
+            <div className="nc-flex nc-gap-2">
+                <button className="nc-btn nc-btn--primary nc-btn--sm" onClick={handleSave} disabled={saving}>
+                    {saving ? 'Saving...' : 'Save'}
+                </button>
+                <button className="nc-btn nc-btn--secondary nc-btn--sm" onClick={onClose} disabled={saving}>
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+};
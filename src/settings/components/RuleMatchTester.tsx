@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { TFile } from 'obsidian';
+import { RuleManager } from 'rules/RuleManager';
+import { useSettings } from 'hooks/useSettings';
+import { buildFeedbackPrompt } from 'feedbackPrompt';
+import { ExplainedConfig, MatchedRules, SourcesTable } from 'views/components/EffectiveConfigPanel';
+
+interface RuleMatchTesterProps {
+    ruleManager: RuleManager;
+}
+
+interface TestResult extends ExplainedConfig {
+    path: string;
+    prompt: string;
+}
+
+/**
+ * Shows which rules match a path, in the order they apply, the settings they
+ * add up to and the feedback prompt that would be sent for the note.
+ */
+export const RuleMatchTester: React.FC<RuleMatchTesterProps> = ({ ruleManager }) => {
+    const { app, plugin } = useSettings();
+    const [path, setPath] = useState(() => app.workspace.getActiveFile()?.path ?? '');
+    const [result, setResult] = useState<TestResult | null>(null);
+    const [testing, setTesting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleTest = async () => {
+        const notePath = path.trim();
+        if (!notePath) return;
+
+        setTesting(true);
+        setError(null);
+        try {
+            const { config, sources } = await ruleManager.explainEffectiveConfig(notePath, plugin.settings);
+            // The changes since the last review when the note is tracked, else the note as it is
+            const file = app.vault.getAbstractFileByPath(notePath);
+            const text = file instanceof TFile ? await app.vault.cachedRead(file) : '';
+            const snapshot = plugin.changeTracker?.getSnapshot(notePath);
+            const title = notePath.split('/').pop()?.replace(/\.md$/, '') ?? notePath;
+            const { prompt } = buildFeedbackPrompt(config, { path: notePath, title }, snapshot?.baseline ?? '', snapshot?.current ?? text);
+            setResult({ path: notePath, matchedRules: config.matchedRules, sources, prompt });
+        } catch (err: unknown) {
+            setError(`Couldn't test ${notePath}: ${err instanceof Error ? err.message : String(err)}`);
+            console.error('Error testing rules:', err);
+        } finally {
+            setTesting(false);
+        }
+    };
+
+    return (
+        <div className="nc-space-y-2">
+            <div className="nc-flex nc-gap-2">
+                <input
+                    type="text"
+                    className="nc-input nc-flex-1"
+                    placeholder="Path of a note, e.g. blog/post.md"
+                    value={path}
+                    onChange={(e) => setPath(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleTest()}
+                />
+                <button className="nc-btn nc-btn--secondary nc-btn--sm" onClick={handleTest} disabled={testing || !path.trim()}>
+                    {testing ? 'Testing...' : 'Test'}
+                </button>
+            </div>
+            {error && <p className="nc-text-error nc-text-sm">{error}</p>}
+            {result && (
+                <>
+                    <section className="nc-space-y-2">
+                        <h4 className="nc-m-0">Matching rules</h4>
+                        <MatchedRules matchedRules={result.matchedRules} />
+                    </section>
+                    <section className="nc-space-y-2">
+                        <h4 className="nc-m-0">Settings</h4>
+                        <SourcesTable sources={result.sources} />
+                    </section>
+                    <section className="nc-space-y-2">
+                        <h4 className="nc-m-0">Feedback prompt</h4>
+                        <pre className="nc-text-xs nc-max-h-80 nc-overflow-y-auto nc-whitespace-pre-wrap">{result.prompt}</pre>
+                    </section>
+                </>
+            )}
+        </div>
+    );
+};
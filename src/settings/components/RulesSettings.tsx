@@ -1,15 +1,34 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { App } from 'obsidian';
 import { RuleManager } from 'rules/RuleManager';
+import { hasErrors } from 'rules/ruleSchema';
+import { hasNoteSelectors } from 'rules/ruleSelectors';
 import { NotesCriticRule } from 'types';
 import { useSettings, SettingsProvider } from 'hooks/useSettings';
+import { RuleEditor } from 'settings/components/RuleEditor';
+import { RuleMatchTester } from 'settings/components/RuleMatchTester';
+
+/** Categories shown in a rule's most-dismissed summary. */
+const MAX_DISMISSED_CATEGORIES = 5;
+
+interface DismissedCategory {
+    category: string;
+    count: number;
+}
 
 interface RuleCardProps {
     rule: NotesCriticRule;
+    dismissedCategories?: DismissedCategory[];
+    onEdit: () => void;
+    onDuplicate: () => Promise<void>;
+    onToggle: () => Promise<void>;
+    onDelete: () => Promise<void>;
 }
 
-const RuleCard: React.FC<RuleCardProps> = ({ rule }) => {
-    const cardClass = `nc-card nc-card--padded ${!rule.enabled ? 'nc-opacity-60 nc-border-faint' : ''}`;
+const RuleCard: React.FC<RuleCardProps> = ({ rule, dismissedCategories, onEdit, onDuplicate, onToggle, onDelete }) => {
+    const broken = hasErrors(rule.diagnostics);
+    const [confirmingDelete, setConfirmingDelete] = useState(false);
+    const cardClass = `nc-card nc-card--padded ${!rule.enabled || broken ? 'nc-opacity-60 nc-border-faint' : ''}`;
 
     return (
         <div className={cardClass}>
@@ -20,69 +39,198 @@ const RuleCard: React.FC<RuleCardProps> = ({ rule }) => {
             
             <div className="nc-space-y-1">
                 {rule.globs && rule.globs.length > 0 && (
-                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Patterns:</strong> {rule.globs.join(', ')}</p>
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Patterns:</strong> {rule.globs.join(', ')}{rule.scope ? ` in ${rule.scope}/` : ''}</p>
                 )}
                 
+                {hasNoteSelectors(rule) && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Notes:</strong> {[
+                        rule.tags?.length && `tagged ${rule.tags.join(' or ')}`,
+                        ...Object.entries(rule.properties ?? {}).map(([key, condition]) =>
+                            Array.isArray(condition) ? `${key} in [${condition.join(', ')}]` : `${key}: ${condition}`),
+                        (rule.minWords !== undefined || rule.maxWords !== undefined) && `${rule.minWords ?? 0}–${rule.maxWords ?? '∞'} words`,
+                        rule.contentPatterns?.length && `text matching ${rule.contentPatterns.map(pattern => `/${pattern}/`).join(' or ')}`
+                    ].filter(Boolean).join(', ')}</p>
+                )}
+
+                {rule.extends && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Extends:</strong> {rule.extends}{rule.promptMerge && rule.promptMerge !== 'replace' ? ` (prompts ${rule.promptMerge}ed)` : ''}</p>
+                )}
+
                 {rule.feedbackThreshold && (
-                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Threshold:</strong> {rule.feedbackThreshold} paragraphs</p>
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Threshold:</strong> {rule.feedbackThreshold} {rule.feedbackThresholdUnit ?? 'paragraphs'}</p>
                 )}
                 
                 {rule.feedbackCooldownSeconds && (
                     <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Cooldown:</strong> {rule.feedbackCooldownSeconds}s</p>
                 )}
+
+                {rule.feedbackTrigger && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Trigger:</strong> {rule.feedbackTrigger}{rule.feedbackTrigger === 'idle' && rule.feedbackIdleSeconds ? ` (${rule.feedbackIdleSeconds}s)` : ''}</p>
+                )}
+                
+                {rule.diffGranularity && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Diff granularity:</strong> {rule.diffGranularity}</p>
+                )}
+                
+                {(rule.ignoreFrontmatter || rule.ignoreWhitespace || rule.ignorePatterns?.length) && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Ignores:</strong> {[
+                        rule.ignoreFrontmatter && 'frontmatter',
+                        rule.ignoreWhitespace && 'whitespace and formatting',
+                        rule.ignorePatterns?.length && `${rule.ignorePatterns.length} pattern${rule.ignorePatterns.length === 1 ? '' : 's'}`
+                    ].filter(Boolean).join(', ')}</p>
+                )}
+                
+                {rule.feedbackOutput && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Output:</strong> {rule.feedbackOutput}</p>
+                )}
+                
+                {rule.critics && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Critics:</strong> {rule.critics.join(', ') || 'none'}</p>
+                )}
+                
+                {rule.rubric && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Rubric:</strong> {rule.rubric.join(', ') || 'none'}</p>
+                )}
                 
                 {rule.model && (
                     <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Model:</strong> {rule.model}</p>
                 )}
+
+                {rule.systemPrompt && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">System prompt:</strong> own</p>
+                )}
+
+                {rule.enabledTools && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Tools:</strong> {rule.enabledTools.join(', ') || 'none'}</p>
+                )}
+
+                {rule.mcpServers && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">MCP servers:</strong> {rule.mcpServers.join(', ') || 'none'}</p>
+                )}
+
+                {rule.memoryDirectory && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Memory:</strong> {rule.memoryDirectory}</p>
+                )}
                 
                 <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Auto-trigger:</strong> {rule.autoTrigger ? 'Yes' : 'No'}</p>
+
+                {dismissedCategories && dismissedCategories.length > 0 && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted" title="Feedback categories most often dismissed on notes this rule matches">
+                        <strong className="nc-text-normal">Most dismissed:</strong> {dismissedCategories
+                            .slice(0, MAX_DISMISSED_CATEGORIES)
+                            .map(({ category, count }) => `${category} (${count})`)
+                            .join(', ')}
+                    </p>
+                )}
                 
-                {!rule.enabled && (
-                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Status:</strong> <span className="nc-text-error">Disabled</span></p>
+                {(broken || !rule.enabled) && (
+                    <p className="nc-m-0 nc-text-sm nc-text-muted"><strong className="nc-text-normal">Status:</strong> <span className="nc-text-error">{broken ? 'Disabled due to errors' : 'Disabled'}</span></p>
+                )}
+
+                {rule.diagnostics && rule.diagnostics.length > 0 && (
+                    <ul className="nc-rule-diagnostics nc-text-sm">
+                        {rule.diagnostics.map((diagnostic, index) => (
+                            <li key={index} className={diagnostic.severity === 'error' ? 'nc-text-error' : 'nc-text-warning'}>
+                                <span className="nc-font-mono">{rule.filePath}{diagnostic.line !== undefined && `:${diagnostic.line}`}</span> {diagnostic.message}
+                            </li>
+                        ))}
+                    </ul>
                 )}
             </div>
+
+            <div className="nc-flex nc-gap-2 nc-mt-2">
+                <button className="nc-btn nc-btn--secondary nc-btn--sm" onClick={onEdit}>Edit</button>
+                <button className="nc-btn nc-btn--secondary nc-btn--sm" onClick={onDuplicate}>Duplicate</button>
+                <button className="nc-btn nc-btn--secondary nc-btn--sm" onClick={onToggle}>{rule.enabled ? 'Disable' : 'Enable'}</button>
+                <button
+                    className="nc-btn nc-btn--danger nc-btn--sm"
+                    title={confirmingDelete ? 'Click again to delete the rule file' : 'Delete the rule file'}
+                    onClick={() => confirmingDelete ? onDelete() : setConfirmingDelete(true)}
+                    onBlur={() => setConfirmingDelete(false)}
+                >
+                    {confirmingDelete ? 'Confirm delete' : 'Delete'}
+                </button>
+            </div>
         </div>
     );
 };
 
 export const RulesSettings: React.FC = () => {
-    const { app } = useSettings();
+    const { app, plugin } = useSettings();
     const [rules, setRules] = useState<NotesCriticRule[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [isRefreshing, setIsRefreshing] = useState(false);
-    const [ruleManager] = useState(() => new RuleManager(app));
+    const [ruleManager] = useState(() => plugin.ruleManager ?? new RuleManager(app));
+    const [dismissedByRule, setDismissedByRule] = useState<Map<string, DismissedCategory[]>>(new Map());
+    // Path of the rule being edited, or null for a new one
+    const [editing, setEditing] = useState<{ path: string | null } | null>(null);
+
+    // Group the notes with dismissed feedback by the rules that match them
+    const loadDismissedCategories = useCallback(async () => {
+        const store = plugin.feedbackItemStore;
+        if (!store) return;
+
+        try {
+            await store.load();
+            const notesByRule = new Map<string, string[]>();
+            for (const path of store.notePaths()) {
+                for (const { rule } of await ruleManager.getMatchingRules(path)) {
+                    notesByRule.set(rule.filePath, [...(notesByRule.get(rule.filePath) ?? []), path]);
+                }
+            }
+            setDismissedByRule(new Map(Array.from(notesByRule.entries())
+                .map(([filePath, paths]) => [filePath, store.dismissedCategories(paths)])));
+        } catch (err: any) {
+            console.error('Error counting dismissed feedback:', err);
+        }
+    }, [plugin, ruleManager]);
 
     const loadRules = useCallback(async () => {
         try {
             setError(null);
             await ruleManager.initialize();
-            const loadedRules = ruleManager.getRules();
+            const loadedRules = ruleManager.getAllRules();
             setRules(loadedRules);
+            await loadDismissedCategories();
         } catch (err: any) {
             setError(`Error loading rules: ${err.message}`);
             console.error('Error loading rules:', err);
         } finally {
             setIsLoading(false);
         }
-    }, [ruleManager]);
+    }, [ruleManager, loadDismissedCategories]);
 
     const handleRefresh = useCallback(async () => {
         setIsRefreshing(true);
         try {
+            // Listeners are told, which reloads the list
             await ruleManager.refreshRules();
-            await loadRules();
         } catch (err: any) {
             setError(`Error refreshing rules: ${err.message}`);
             console.error('Error refreshing rules:', err);
         } finally {
             setIsRefreshing(false);
         }
-    }, [ruleManager, loadRules]);
+    }, [ruleManager]);
+
+    // Changes are read back right away, and the listener reloads the list
+    const changeRule = useCallback(async (description: string, change: () => Promise<unknown>) => {
+        try {
+            setError(null);
+            await change();
+        } catch (err: unknown) {
+            setError(`Error ${description}: ${err instanceof Error ? err.message : String(err)}`);
+            console.error(`Error ${description}:`, err);
+        }
+    }, []);
 
     useEffect(() => {
         loadRules();
-    }, [loadRules]);
+        return ruleManager.addListener(() => {
+            loadRules();
+        });
+    }, [ruleManager, loadRules]);
 
     const renderContent = () => {
         if (isLoading) {
@@ -93,10 +241,14 @@ export const RulesSettings: React.FC = () => {
             return <p className="nc-text-error nc-bg-danger/10 nc-p-3 nc-rounded nc-text-sm">{error}</p>;
         }
 
+        if (editing) {
+            return <RuleEditor key={editing.path ?? ''} ruleManager={ruleManager} path={editing.path} onClose={() => setEditing(null)} />;
+        }
+
         if (rules.length === 0) {
             return (
                 <p className="nc-text-center nc-text-muted nc-italic nc-p-8">
-                    No rules found. Create a rule file in .notes-critic/rules/ to get started.
+                    No rules found. Add a rule or create a rule file in .notes-critic/rules/ to get started.
                 </p>
             );
         }
@@ -104,7 +256,15 @@ export const RulesSettings: React.FC = () => {
         return (
             <div className="nc-max-h-80 nc-overflow-y-auto">
                 {rules.map((rule, index) => (
-                    <RuleCard key={`${rule.filePath}-${index}`} rule={rule} />
+                    <RuleCard
+                        key={`${rule.filePath}-${index}`}
+                        rule={rule}
+                        dismissedCategories={dismissedByRule.get(rule.filePath)}
+                        onEdit={() => setEditing({ path: rule.filePath })}
+                        onDuplicate={() => changeRule('duplicating the rule', () => ruleManager.duplicateRuleFile(rule.filePath))}
+                        onToggle={() => changeRule('changing the rule', () => ruleManager.setRuleEnabled(rule.filePath, !rule.enabled))}
+                        onDelete={() => changeRule('deleting the rule', () => ruleManager.deleteRuleFile(rule.filePath))}
+                    />
                 ))}
             </div>
         );
@@ -125,9 +285,22 @@ export const RulesSettings: React.FC = () => {
                 >
                     {isRefreshing ? 'Refreshing...' : 'Refresh Rules'}
                 </button>
+                <button
+                    className="nc-btn nc-btn--secondary nc-btn--base"
+                    onClick={() => setEditing({ path: null })}
+                    disabled={editing !== null}
+                >
+                    New Rule
+                </button>
             </div>
             
             {renderContent()}
+
+            <h4 className="nc-mt-4">Test a path</h4>
+            <p className="nc-mb-2 nc-text-muted nc-text-sm">
+                See which rules match a note, the settings they add up to and the feedback prompt it would get.
+            </p>
+            <RuleMatchTester ruleManager={ruleManager} />
         </div>
     );
 };
@@ -6,6 +6,7 @@ import { RulesSettings } from 'settings/components/RulesSettings';
 import { MCPSettingsReact } from 'settings/components/MCPSettings';
 import { ToolsSettingsReact } from 'settings/components/ToolsSettings';
 import { useSettings } from 'hooks/useSettings';
+import { DiffGranularity, ChangeUnit, FeedbackOutput, FeedbackTrigger } from 'types';
 
 interface TextSettingProps {
     name: string;
@@ -36,6 +37,21 @@ interface TextAreaSettingProps {
     onChange: (value: string) => Promise<void>;
 }
 
+interface ToggleSettingProps {
+    name: string;
+    desc: string;
+    value: boolean;
+    onChange: (value: boolean) => Promise<void>;
+}
+
+interface SelectSettingProps {
+    name: string;
+    desc: string;
+    value: string;
+    options: Record<string, string>;
+    onChange: (value: string) => Promise<void>;
+}
+
 const SectionHeader: React.FC<{ title: string }> = ({ title }) => (
     <h3 className="notes-critic-settings-section">{title}</h3>
 );
@@ -188,6 +204,83 @@ const TextAreaSetting: React.FC<TextAreaSettingProps> = ({
     );
 };
 
+const SelectSetting: React.FC<SelectSettingProps> = ({
+    name,
+    desc,
+    value,
+    options,
+    onChange
+}) => {
+    return (
+        <div className="setting-item">
+            <div className="setting-item-info">
+                <div className="setting-item-name">{name}</div>
+                <div className="setting-item-description">{desc}</div>
+            </div>
+            <div className="setting-item-control">
+                <select
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    className="dropdown"
+                >
+                    {Object.entries(options).map(([optionValue, label]) => (
+                        <option key={optionValue} value={optionValue}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+};
+
+const ToggleSetting: React.FC<ToggleSettingProps> = ({
+    name,
+    desc,
+    value,
+    onChange
+}) => {
+    return (
+        <div className="setting-item mod-toggle">
+            <div className="setting-item-info">
+                <div className="setting-item-name">{name}</div>
+                <div className="setting-item-description">{desc}</div>
+            </div>
+            <div className="setting-item-control">
+                <div
+                    className={`checkbox-container${value ? ' is-enabled' : ''}`}
+                    onClick={() => onChange(!value)}
+                >
+                    <input type="checkbox" checked={value} readOnly tabIndex={0} />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const CHANGE_UNIT_LABELS: Record<ChangeUnit, string> = {
+    paragraphs: 'Paragraphs',
+    words: 'Words'
+};
+
+const FEEDBACK_TRIGGER_LABELS: Record<FeedbackTrigger, string> = {
+    immediate: 'As soon as the threshold is reached',
+    idle: 'When I pause, leave the note or save'
+};
+
+const FEEDBACK_OUTPUT_LABELS: Record<FeedbackOutput, string> = {
+    chat: 'Only in the chat',
+    callouts: 'Callouts in the note',
+    sidecar: 'A review file next to the note',
+    frontmatter: 'Score and review date in frontmatter'
+};
+
+const DIFF_GRANULARITY_LABELS: Record<DiffGranularity, string> = {
+    line: 'Lines',
+    word: 'Words',
+    sentence: 'Sentences'
+};
+
 export const SettingsTabReact: React.FC = () => {
     const { settings, updateSetting, app, plugin } = useSettings();
 
@@ -260,7 +353,7 @@ export const SettingsTabReact: React.FC = () => {
 
             <TextSetting
                 name="Feedback Threshold"
-                desc="Number of paragraphs that must change before auto-triggering feedback"
+                desc="How much of a note must change (in the units below) before auto-triggering feedback"
                 placeholder="3"
                 value={settings.feedbackThreshold}
                 onChange={async (value) => {
@@ -270,6 +363,14 @@ export const SettingsTabReact: React.FC = () => {
                 parser={(value) => parseInteger(value, 1)}
             />
 
+            <SelectSetting
+                name="Feedback Threshold Unit"
+                desc="Whether the threshold counts changed paragraphs (added, removed or rewritten) or changed words"
+                value={settings.feedbackThresholdUnit}
+                options={CHANGE_UNIT_LABELS}
+                onChange={(value) => updateSetting('feedbackThresholdUnit', value as ChangeUnit)}
+            />
+
             <TextSetting
                 name="Feedback Cooldown"
                 desc="Minimum seconds between auto-triggered feedback"
@@ -282,6 +383,108 @@ export const SettingsTabReact: React.FC = () => {
                 parser={(value) => parseInteger(value, 0)}
             />
 
+            <SelectSetting
+                name="Feedback Trigger"
+                desc="When auto-triggered feedback is sent once the threshold is reached"
+                value={settings.feedbackTrigger}
+                options={FEEDBACK_TRIGGER_LABELS}
+                onChange={(value) => updateSetting('feedbackTrigger', value as FeedbackTrigger)}
+            />
+
+            {settings.feedbackTrigger === 'idle' && (
+                <TextSetting
+                    name="Idle Delay"
+                    desc="Seconds a note must go without edits before feedback is sent"
+                    placeholder="10"
+                    value={settings.feedbackIdleSeconds}
+                    onChange={async (value) => {
+                        const parsed = parseInteger(value, 1);
+                        if (parsed !== undefined) await updateSetting('feedbackIdleSeconds', parsed);
+                    }}
+                    parser={(value) => parseInteger(value, 1)}
+                />
+            )}
+
+            <SelectSetting
+                name="Diff Granularity"
+                desc="How changes are shown to the AI: whole lines, or inline [-removed-]{+added+} words or sentences"
+                value={settings.diffGranularity}
+                options={DIFF_GRANULARITY_LABELS}
+                onChange={(value) => updateSetting('diffGranularity', value as DiffGranularity)}
+            />
+
+            <TextSetting
+                name="Diff Token Budget"
+                desc="Estimated tokens a diff may use before it is shortened to a section summary and the first changes, with a note on what was left out"
+                placeholder="8000"
+                value={settings.maxDiffTokens}
+                onChange={async (value) => {
+                    const parsed = parseInteger(value, 100);
+                    if (parsed !== undefined) await updateSetting('maxDiffTokens', parsed);
+                }}
+                parser={(value) => parseInteger(value, 100)}
+            />
+
+            <ToggleSetting
+                name="Inline Annotations"
+                desc="Ask the AI to anchor comments to passages of the note, and show them in the editor as underlines and gutter markers until resolved"
+                value={settings.inlineAnnotations}
+                onChange={(value) => updateSetting('inlineAnnotations', value)}
+            />
+
+            <ToggleSetting
+                name="Structured Feedback"
+                desc="Ask for feedback as a list of issues with a category, severity, quote and suggested replacement, shown as a list you can sort and filter. Follow-up chat replies stay free-form"
+                value={settings.structuredFeedback}
+                onChange={(value) => updateSetting('structuredFeedback', value)}
+            />
+
+            <SelectSetting
+                name="Feedback Output"
+                desc="Also write each review into the vault. Re-reviews replace what the last review wrote rather than adding to it"
+                value={settings.feedbackOutput}
+                options={FEEDBACK_OUTPUT_LABELS}
+                onChange={(value) => updateSetting('feedbackOutput', value as FeedbackOutput)}
+            />
+
+            <TextAreaSetting
+                name="Critics"
+                desc="Names of critic personas, one per line, to review each change side by side. Each is a file in a .notes-critic/critics/ folder, and runs with its own model if it names one. Their replies are merged into one report. Leave empty for a single critic"
+                placeholder={'structure editor\nfact checker\ncopy editor'}
+                value={settings.critics.join('\n')}
+                onChange={(value) => updateSetting('critics', value.split('\n'))}
+            />
+
+            <TextAreaSetting
+                name="Rubric"
+                desc="Criteria, one per line, the critic scores each note on from 1 to 10. Scores are kept per note so the Note scores view can chart how it improves. Leave empty to not score notes"
+                placeholder={'clarity\nstructure\ncompleteness'}
+                value={settings.rubric.join('\n')}
+                onChange={(value) => updateSetting('rubric', value.split('\n'))}
+            />
+
+            <ToggleSetting
+                name="Ignore Frontmatter"
+                desc="Don't count edits to a note's frontmatter (e.g. updated: timestamps) as changes"
+                value={settings.ignoreFrontmatter}
+                onChange={(value) => updateSetting('ignoreFrontmatter', value)}
+            />
+
+            <ToggleSetting
+                name="Ignore Whitespace and Formatting"
+                desc="Don't count reflowed lines, trailing or repeated spaces, blank lines, list markers or emphasis style as changes"
+                value={settings.ignoreWhitespace}
+                onChange={(value) => updateSetting('ignoreWhitespace', value)}
+            />
+
+            <TextAreaSetting
+                name="Ignore Patterns"
+                desc="Regular expressions, one per line, for text that should not count as a change. Matches are removed before changes are measured and diffed"
+                placeholder="^updated: .*$"
+                value={settings.ignorePatterns.join('\n')}
+                onChange={(value) => updateSetting('ignorePatterns', value.split('\n'))}
+            />
+
             <TextSetting
                 name="Max Tokens"
                 desc="Maximum number of tokens to include from conversation history"
@@ -329,6 +532,22 @@ export const SettingsTabReact: React.FC = () => {
                 onChange={(value) => updateSetting('logPath', value)}
             />
 
+            <TextSetting
+                name="Snapshot Path"
+                desc="Path to the directory where the last reviewed version of each note is kept between sessions"
+                placeholder=".notes-critic/snapshots"
+                value={settings.snapshotPath}
+                onChange={(value) => updateSetting('snapshotPath', value)}
+            />
+
+            <TextSetting
+                name="Checkpoint Path"
+                desc="Path to the directory where named checkpoints of notes are saved"
+                placeholder=".notes-critic/checkpoints"
+                value={settings.checkpointPath}
+                onChange={(value) => updateSetting('checkpointPath', value)}
+            />
+
             <TextSetting
                 name="Memory Directory"
                 desc="Path to the directory where AI memory files will be stored"
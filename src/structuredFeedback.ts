@@ -0,0 +1,251 @@
+import { ConversationTurn, FeedbackItem, FeedbackItemDecision, FeedbackSeverity, NotesCriticSettings } from 'types';
+import { RawAnnotation } from './annotations';
+
+/** Most severe first. */
+export const FEEDBACK_SEVERITIES: FeedbackSeverity[] = ['critical', 'major', 'minor', 'suggestion'];
+
+/** Name of the tool Anthropic models are made to call with their feedback. */
+export const STRUCTURED_FEEDBACK_TOOL = 'report_feedback';
+
+export const STRUCTURED_FEEDBACK_INSTRUCTIONS = `Report your feedback as a list of issues, in the order they appear in the note. Quote the note exactly and keep quotes short; leave the quote empty for issues about the note as a whole. Only suggest a replacement where a concrete rewrite of the quote helps.`;
+
+/** Points taken off a note's score of 100 for each issue of a severity. */
+export const SEVERITY_PENALTIES: Record<FeedbackSeverity, number> = {
+    critical: 25,
+    major: 10,
+    minor: 3,
+    suggestion: 1
+};
+
+/** Most recent dismissals listed in a feedback prompt; older ones are left out to keep it short. */
+export const MAX_DISMISSED_IN_PROMPT = 20;
+
+export interface JsonSchema {
+    type?: string | string[];
+    description?: string;
+    enum?: unknown[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+}
+
+// Every property is required and nullable instead of optional, as OpenAI's strict mode demands
+export const FEEDBACK_ITEM_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        category: {
+            type: 'string',
+            description: 'Short lowercase label for the kind of issue, e.g. clarity, structure, accuracy, style'
+        },
+        severity: {
+            type: 'string',
+            enum: FEEDBACK_SEVERITIES,
+            description: 'critical: wrong or misleading; major: noticeably weakens the note; minor: a small flaw; suggestion: an optional improvement'
+        },
+        quote: {
+            type: 'string',
+            description: 'Exact text from the note the issue is about, or an empty string for the note as a whole'
+        },
+        explanation: {
+            type: 'string',
+            description: 'What the problem is and why it matters'
+        },
+        suggestedReplacement: {
+            type: ['string', 'null'],
+            description: 'Text to replace the quote with, or null'
+        }
+    },
+    required: ['category', 'severity', 'quote', 'explanation', 'suggestedReplacement'],
+    additionalProperties: false
+};
+
+export const STRUCTURED_FEEDBACK_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        items: { type: 'array', items: FEEDBACK_ITEM_SCHEMA }
+    },
+    required: ['items'],
+    additionalProperties: false
+};
+
+/**
+ * The schema structured feedback is asked for in. With a rubric, the critic
+ * also scores the note on each of its criteria.
+ */
+export function structuredFeedbackSchema(rubric: string[]): JsonSchema {
+    if (rubric.length === 0) return STRUCTURED_FEEDBACK_SCHEMA;
+    return {
+        ...STRUCTURED_FEEDBACK_SCHEMA,
+        properties: {
+            ...STRUCTURED_FEEDBACK_SCHEMA.properties,
+            scores: {
+                type: 'array',
+                description: 'A score from 1 (poor) to 10 (excellent) for the note as it is now on each criterion',
+                items: {
+                    type: 'object',
+                    properties: {
+                        criterion: { type: 'string', enum: rubric },
+                        score: { type: 'integer' }
+                    },
+                    required: ['criterion', 'score'],
+                    additionalProperties: false
+                }
+            }
+        },
+        required: ['items', 'scores']
+    };
+}
+
+export interface StructuredFeedback {
+    items: FeedbackItem[];
+    errors: string[]; // One message per problem with the items that were left out
+}
+
+export type FeedbackSortOrder = 'note' | 'severity' | 'category';
+
+/** Structured feedback is only asked for on note changes; chat replies stay free-form. */
+export function wantsStructuredFeedback(settings: NotesCriticSettings, messages: ConversationTurn[]): boolean {
+    const last = messages[messages.length - 1];
+    return !!settings.structuredFeedback && !!last && last.userInput.type !== 'chat_message';
+}
+
+const typeOf = (value: unknown): string =>
+    value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * Check a value against the parts of JSON Schema the feedback schema uses.
+ * Returns one message per problem, empty when the value is valid.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+    const types = schema.type === undefined ? [] : ([] as string[]).concat(schema.type);
+    const matches = (type: string) => type === typeOf(value) || (type === 'integer' && Number.isInteger(value));
+    if (types.length > 0 && !types.some(matches)) {
+        return [`${path} should be ${types.join(' or ')}`];
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} should be one of ${schema.enum.join(', ')}`];
+    }
+
+    const errors: string[] = [];
+    if (typeOf(value) === 'object') {
+        const object = value as Record<string, unknown>;
+        for (const key of schema.required ?? []) {
+            if (!(key in object)) errors.push(`${path}.${key} is missing`);
+        }
+        for (const key of Object.keys(object)) {
+            const property = schema.properties?.[key];
+            if (property) {
+                errors.push(...validateSchema(object[key], property, `${path}.${key}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${key} is not allowed`);
+            }
+        }
+    }
+    if (Array.isArray(value) && schema.items) {
+        const itemSchema = schema.items;
+        value.forEach((item, index) => errors.push(...validateSchema(item, itemSchema, `${path}[${index}]`)));
+    }
+    return errors;
+}
+
+/** Whether a reply is, or is being streamed as, structured feedback. */
+export function isStructuredFeedback(response: string): boolean {
+    return /^\s*\{\s*"items"/.test(response);
+}
+
+/**
+ * Read structured feedback out of a complete reply. Items that don't match
+ * the schema are left out and reported in `errors`; returns null when the
+ * reply isn't structured feedback at all.
+ */
+export function parseStructuredFeedback(response: string): StructuredFeedback | null {
+    if (!isStructuredFeedback(response)) return null;
+
+    let parsed: { items?: unknown };
+    try {
+        parsed = JSON.parse(response);
+    } catch {
+        return null;
+    }
+    if (!Array.isArray(parsed.items)) return null;
+
+    const feedback: StructuredFeedback = { items: [], errors: [] };
+    parsed.items.forEach((entry: unknown, index: number) => {
+        // Models not held to the schema tend to leave out an empty replacement. `critics` is only
+        // ever set by a merged multi-critic report, not by a model, so it isn't in the schema
+        const { critics, ...fields } = typeOf(entry) === 'object' ? entry as { critics?: unknown } : { critics: undefined };
+        const candidate = typeOf(entry) === 'object' ? { suggestedReplacement: null, ...fields } : entry;
+        const path = `items[${index}]`;
+        const errors = validateSchema(candidate, FEEDBACK_ITEM_SCHEMA, path);
+        if (errors.length > 0) {
+            feedback.errors.push(...errors);
+            return;
+        }
+
+        const { category, severity, quote, explanation, suggestedReplacement } = candidate as Record<string, string>;
+        if (!category.trim() || !explanation.trim()) {
+            feedback.errors.push(`${path} has no ${category.trim() ? 'explanation' : 'category'}`);
+            return;
+        }
+        feedback.items.push({
+            category: category.trim().toLowerCase(),
+            severity: severity as FeedbackSeverity,
+            quote,
+            explanation: explanation.trim(),
+            ...(suggestedReplacement !== null && { suggestedReplacement }),
+            ...(Array.isArray(critics) && critics.length > 0 && { critics: critics.map(String) })
+        });
+    });
+    return feedback;
+}
+
+/** Items in note order, by severity (most severe first) or by category; ties keep note order. */
+export function sortFeedbackItems(items: FeedbackItem[], order: FeedbackSortOrder): FeedbackItem[] {
+    const sorted = items.slice();
+    if (order === 'severity') {
+        sorted.sort((a, b) => FEEDBACK_SEVERITIES.indexOf(a.severity) - FEEDBACK_SEVERITIES.indexOf(b.severity));
+    } else if (order === 'category') {
+        sorted.sort((a, b) => a.category.localeCompare(b.category));
+    }
+    return sorted;
+}
+
+/** A score out of 100 for a note, lower the more and the more severe its issues. */
+export function feedbackScore(items: FeedbackItem[]): number {
+    return Math.max(0, items.reduce((score, item) => score - SEVERITY_PENALTIES[item.severity], 100));
+}
+
+/** Items that quote the note, as comments to anchor in the editor. */
+export function feedbackAnnotations(items: FeedbackItem[]): RawAnnotation[] {
+    return items
+        .filter(item => item.quote.trim())
+        .map(item => ({
+            quote: item.quote,
+            comment: item.suggestedReplacement !== undefined
+                ? `${item.explanation}\nSuggested: ${item.suggestedReplacement}`
+                : item.explanation
+        }));
+}
+
+/** Identifies an item across renders and sessions; the same point made in other words is a different item. */
+export function feedbackItemKey(item: FeedbackItem): string {
+    return [item.category, item.quote.trim(), item.explanation.trim()].join('\n');
+}
+
+const clip = (text: string, length: number) => text.length > length ? `${text.slice(0, length)}…` : text;
+
+/** A prompt section telling the critic what the writer has rejected before, or '' if nothing was. */
+export function formatDismissedFeedback(dismissed: FeedbackItemDecision[]): string {
+    if (dismissed.length === 0) return '';
+
+    const lines = dismissed
+        .slice()
+        .sort((a, b) => b.decidedAt - a.decidedAt)
+        .slice(0, MAX_DISMISSED_IN_PROMPT)
+        .map(({ item, reason }) => {
+            const quote = item.quote.trim() ? ` "${clip(item.quote.trim(), 80)}":` : '';
+            return `- [${item.category}]${quote} ${clip(item.explanation, 200)}${reason ? ` (dismissed because: ${reason})` : ''}`;
+        });
+    return `The writer has previously dismissed this feedback on the note. Do not repeat these points, or make the same point about other text:\n${lines.join('\n')}`;
+}
@@ -0,0 +1,131 @@
+import { FeedbackItem } from 'types';
+import { locateQuote } from './annotations';
+
+/** Share of a quote's characters that may differ for it to still match text in the note. */
+export const MAX_FUZZY_ERROR_RATE = 0.2;
+
+export interface PlannedEdit {
+    item: FeedbackItem;
+    oldStr: string; // The text in the note that will be replaced
+    newStr: string;
+    fuzzy: boolean; // The quote didn't match the note exactly
+}
+
+export interface SkippedEdit {
+    item: FeedbackItem;
+    reason: string;
+}
+
+/** The edits that applying suggestions would make to a note, and the note before and after. */
+export interface EditPlan {
+    path: string;
+    before: string;
+    after: string;
+    edits: PlannedEdit[];
+    skipped: SkippedEdit[];
+}
+
+const countOf = (text: string, search: string) => text.split(search).length - 1;
+
+/**
+ * Find the part of `text` closest to `pattern` by edit distance, allowing at
+ * most `maxErrorRate` of the pattern's characters to differ. Ties go to the
+ * earliest match, made as long as it can be.
+ */
+export function fuzzyFind(text: string, pattern: string, maxErrorRate = MAX_FUZZY_ERROR_RATE): { from: number; to: number; distance: number } | null {
+    const m = pattern.length;
+    if (m === 0) return null;
+
+    // Column of the edit distance table for the text read so far, with where each alignment started
+    let costs = Array.from({ length: m + 1 }, (_, i) => i);
+    let starts = new Array<number>(m + 1).fill(0);
+    let best: { from: number; to: number; distance: number } | null = null;
+
+    for (let j = 1; j <= text.length; j++) {
+        const nextCosts = [0];
+        const nextStarts = [j];
+        for (let i = 1; i <= m; i++) {
+            const substitute = costs[i - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+            const skipText = costs[i] + 1;
+            const skipPattern = nextCosts[i - 1] + 1;
+            if (substitute <= skipText && substitute <= skipPattern) {
+                nextCosts.push(substitute);
+                nextStarts.push(starts[i - 1]);
+            } else if (skipText <= skipPattern) {
+                nextCosts.push(skipText);
+                nextStarts.push(starts[i]);
+            } else {
+                nextCosts.push(skipPattern);
+                nextStarts.push(nextStarts[i - 1]);
+            }
+        }
+        costs = nextCosts;
+        starts = nextStarts;
+
+        // An equally close match from the same start is extended, so trailing characters aren't left behind
+        if (!best || costs[m] < best.distance || (costs[m] === best.distance && starts[m] === best.from)) {
+            best = { from: starts[m], to: j, distance: costs[m] };
+        }
+    }
+
+    return best && best.distance <= Math.floor(m * maxErrorRate) ? best : null;
+}
+
+function locate(content: string, quote: string): { from: number; to: number; fuzzy: boolean } | string {
+    const exact = countOf(content, quote);
+    if (exact === 1) {
+        const from = content.indexOf(quote);
+        return { from, to: from + quote.length, fuzzy: false };
+    }
+    if (exact > 1) return `the quote appears ${exact} times in the note`;
+
+    const found = locateQuote(content, quote) ?? fuzzyFind(content, quote);
+    if (!found) return 'the quoted text is no longer in the note';
+    const matched = content.slice(found.from, found.to);
+    if (countOf(content, matched) > 1) return `the closest match appears ${countOf(content, matched)} times in the note`;
+    return { ...found, fuzzy: true };
+}
+
+/**
+ * Work out the replacements that would apply the items' suggestions to a
+ * note. Quotes that no longer match exactly are matched loosely and flagged;
+ * items that can't be placed, or that overlap an earlier item, are skipped.
+ */
+export function planEdits(path: string, content: string, items: FeedbackItem[]): EditPlan {
+    const spans: { from: number; to: number; edit: PlannedEdit }[] = [];
+    const skipped: SkippedEdit[] = [];
+
+    for (const item of items) {
+        if (item.suggestedReplacement === undefined) {
+            skipped.push({ item, reason: 'there is no suggested replacement' });
+            continue;
+        }
+        if (!item.quote.trim()) {
+            skipped.push({ item, reason: 'it is about the note as a whole' });
+            continue;
+        }
+
+        const found = locate(content, item.quote);
+        if (typeof found === 'string') {
+            skipped.push({ item, reason: found });
+            continue;
+        }
+        if (spans.some(span => found.from < span.to && span.from < found.to)) {
+            skipped.push({ item, reason: 'it overlaps another suggestion' });
+            continue;
+        }
+
+        spans.push({
+            from: found.from,
+            to: found.to,
+            edit: { item, oldStr: content.slice(found.from, found.to), newStr: item.suggestedReplacement, fuzzy: found.fuzzy }
+        });
+    }
+
+    let after = content;
+    for (const span of spans.slice().sort((a, b) => b.from - a.from)) {
+        after = after.slice(0, span.from) + span.edit.newStr + after.slice(span.to);
+    }
+
+    return { path, before: content, after, edits: spans.map(span => span.edit), skipped };
+}
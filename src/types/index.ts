@@ -1,9 +1,80 @@
 import { Tool } from "llm/mcpClient";
 
+export type DiffGranularity = 'line' | 'word' | 'sentence';
+
+export type ChangeUnit = 'paragraphs' | 'words';
+
+export type FeedbackTrigger = 'immediate' | 'idle';
+
+/** Where feedback is written in the vault besides the chat: nowhere, callouts in the note, a sidecar file or frontmatter properties. */
+export type FeedbackOutput = 'chat' | 'callouts' | 'sidecar' | 'frontmatter';
+
+/** How a rule's prompts combine with those of the rules it builds on. */
+export type PromptMerge = 'replace' | 'append' | 'prepend';
+
+export interface ChangeMetrics {
+    addedParagraphs: number;
+    removedParagraphs: number;
+    modifiedParagraphs: number;
+    changedParagraphs: number; // added + removed + modified
+    changedWords: number;
+}
+
 export interface NoteSnapshot {
     baseline: string;
     current: string;
-    changeCount: number;
+    changeCount: number; // Paragraphs changed since the baseline
+    changes: ChangeMetrics;
+}
+
+/** A comment from the critic pinned to a passage of a note. */
+export interface FeedbackAnnotation {
+    id: string;
+    quote: string;
+    comment: string;
+}
+
+export type FeedbackSeverity = 'critical' | 'major' | 'minor' | 'suggestion';
+
+/** One issue the critic found when asked for structured feedback. */
+export interface FeedbackItem {
+    category: string;
+    severity: FeedbackSeverity;
+    quote: string; // Empty when the issue is about the note as a whole
+    explanation: string;
+    suggestedReplacement?: string;
+    critics?: string[]; // Personas that raised the issue, in a merged multi-critic report
+}
+
+export type FeedbackItemStatus = 'accepted' | 'dismissed' | 'deferred';
+
+/** What the writer decided to do about a feedback item on a note. */
+export interface FeedbackItemDecision {
+    key: string; // Identifies the item, see feedbackItemKey
+    status: FeedbackItemStatus;
+    reason?: string; // Why a dismissed item was dismissed
+    item: FeedbackItem;
+    decidedAt: number;
+}
+
+export interface NoteCheckpoint {
+    id: string;
+    name: string;
+    path: string;
+    content: string;
+    createdAt: number;
+}
+
+/** Scores out of 10 on each criterion of a rubric, e.g. `{ clarity: 7, structure: 5 }`. */
+export type RubricScores = Record<string, number>;
+
+/** The rubric scores one review gave a note. */
+export interface NoteScore {
+    reviewedAt: number;
+    scores: RubricScores;
+    overall: number; // Mean of the scores
+    conversationId?: string; // The conversation and turn the review is in
+    turnId?: string;
 }
 
 export interface ToolCall {
@@ -31,13 +102,34 @@ export interface TurnStep {
     error?: string;
 }
 
+/** One persona's reply within a turn that fanned out to several critics. */
+export interface CriticRun {
+    critic: string; // Persona name
+    model: string;
+    steps: TurnStep[];
+    isComplete: boolean;
+    error?: string;
+    tokenUsage?: TokenUsage;
+}
+
 export interface ConversationTurn {
     id: string;
     timestamp: Date;
     userInput: UserInput;
-    steps: TurnStep[];
+    steps: TurnStep[]; // For multi-critic turns, the merged report once every critic is done
     isComplete: boolean;
     error?: string;
+    critics?: CriticRun[];
+}
+
+/** A critic persona feedback can fan out to, defined by a file in a `.notes-critic/critics/` folder. */
+export interface CriticPersona {
+    name: string;
+    enabled: boolean;
+    model?: string; // Defaults to the note's model
+    maxTokens?: number;
+    prompt: string; // Describes the persona; added to the system prompt
+    filePath: string;
 }
 
 export type UserInput =
@@ -60,9 +152,24 @@ export interface NotesCriticSettings {
     mcpServerUrl: string;
     mcpMode: 'disabled' | 'enabled';
     feedbackThreshold: number;
+    feedbackThresholdUnit: ChangeUnit;
     feedbackCooldownSeconds: number;
+    feedbackTrigger: FeedbackTrigger;
+    feedbackIdleSeconds: number; // Quiet time before feedback in 'idle' mode
     feedbackPrompt: string;
+    diffGranularity: DiffGranularity;
+    maxDiffTokens: number; // Diffs estimated above this are shortened before being sent
+    inlineAnnotations: boolean; // Ask for comments anchored to text and show them in the editor
+    structuredFeedback: boolean; // Ask for feedback as typed issues instead of free-form text
+    feedbackOutput: FeedbackOutput;
+    critics: string[]; // Personas every feedback request fans out to; empty for a single critic
+    rubric: string[]; // Criteria each review scores the note on; empty for no scores
+    ignoreFrontmatter: boolean;
+    ignoreWhitespace: boolean;
+    ignorePatterns: string[]; // Regexes for text that should not count as a change
     logPath: string;
+    snapshotPath: string;
+    checkpointPath: string;
     memoryDirectory: string;
     memoryMaxViewCharacters: number;
     enabledTools: string[];
@@ -153,32 +260,93 @@ export const CHAT_VIEW_CONFIG = {
     icon: 'message-square'
 };
 
+export const SCORES_VIEW_CONFIG = {
+    type: 'notes-critic-scores',
+    name: 'Note Scores',
+    icon: 'line-chart'
+};
+
+export const RULES_EXPLAIN_VIEW_CONFIG = {
+    type: 'notes-critic-rules-explain',
+    name: 'Effective Rules',
+    icon: 'list-tree'
+};
+
+/** A problem found in a rule file. Rules with errors are disabled; warnings only drop the setting. */
+export interface RuleDiagnostic {
+    severity: 'error' | 'warning';
+    message: string;
+    line?: number; // Line of the rule file, counting from 1
+}
+
+/** A frontmatter property value a rule selects notes on; a list matches any of its values. */
+export type PropertyValue = string | number | boolean;
+export type PropertyCondition = PropertyValue | PropertyValue[];
+
 export interface NotesCriticRule {
     // Meta information
     name: string;
     enabled: boolean;
     priority: number;
+    extends?: string; // Name of the rule whose settings this one starts from
+    promptMerge?: PromptMerge;
 
     // File matching
+    scope?: string; // Folder the rule applies within, which its globs are relative to; '' for the whole vault
     globs: string[];
     exclude?: string[];
+    tags?: string[]; // Notes with any of these tags, or tags nested under them
+    properties?: Record<string, PropertyCondition>; // Frontmatter properties the note must have
+    minWords?: number;
+    maxWords?: number;
+    contentPatterns?: string[]; // Regular expressions, any of which the note's text must match
 
     // Feedback behavior
     autoTrigger: boolean;
     feedbackThreshold?: number;
+    feedbackThresholdUnit?: ChangeUnit;
     feedbackCooldownSeconds?: number;
+    feedbackTrigger?: FeedbackTrigger;
+    feedbackIdleSeconds?: number;
+    diffGranularity?: DiffGranularity;
+    maxDiffTokens?: number;
+    inlineAnnotations?: boolean;
+    structuredFeedback?: boolean;
+    feedbackOutput?: FeedbackOutput;
+    critics?: string[];
+    rubric?: string[];
+    ignoreFrontmatter?: boolean;
+    ignoreWhitespace?: boolean;
+    ignorePatterns?: string[];
 
     // LLM configuration
-    feedbackPrompt?: string;
+    feedbackPrompt?: string; // Instead of the markdown content
     systemPrompt?: string;
     model?: string;
+    summarizerModel?: string;
     maxTokens?: number;
     maxHistoryTokens?: number;
     thinkingBudgetTokens?: number;
 
+    // Tools
+    enabledTools?: string[];
+    memoryDirectory?: string;
+    memoryMaxViewCharacters?: number;
+    mcpServers?: string[]; // Names or ids of the MCP servers to use; empty for none
+
     // Rule source info
     filePath: string;
     content: string; // The markdown content after frontmatter
+    diagnostics?: RuleDiagnostic[];
+    inheritedFrom?: Record<string, string>; // Settings taken from an extended rule, and that rule's name
+    bases?: string[]; // Paths of the rules extended, nearest first
+}
+
+/** Where a setting of a note's effective configuration comes from. */
+export interface ConfigFieldSource {
+    field: string;
+    value: unknown;
+    rules: string[]; // The rules that set it, in the order applied; empty when it comes from the plugin settings
 }
 
 export interface RuleMatch {
@@ -1,36 +1,67 @@
 import { ItemView, WorkspaceLeaf, TFile, Notice, Plugin } from 'obsidian';
-import { CHAT_VIEW_CONFIG, NoteSnapshot, ConversationTurn, NotesCriticSettings } from 'types';
-import { generateDiff } from 'diffs';
+import { CHAT_VIEW_CONFIG, ConversationTurn, CriticPersona, FeedbackItem, FeedbackItemStatus, FeedbackOutput, NoteCheckpoint, NotesCriticSettings } from 'types';
 import { ChatViewComponent } from 'views/components/Chat';
 import { FileManager } from 'FileManager';
+import { buildFeedbackPrompt, diffNote } from 'feedbackPrompt';
+import { anchorAnnotations, parseAnnotations } from 'annotations';
+import { feedbackAnnotations, formatDismissedFeedback, parseStructuredFeedback } from 'structuredFeedback';
+import { EditPlan, planEdits } from 'suggestions';
+import { overallScore, parseScores } from 'scores';
+import { reviewFromResponse, sidecarPath, updateReviewProperties, writeCallouts, writeSidecar } from 'reviewOutput';
+import { TextEditorTool } from 'llm/tools';
 import { ApiKeySetup } from 'views/components/ApiKeySetup';
 import { ConversationChunk } from 'hooks/useConversationManager';
 import { ConversationProvider } from 'hooks/useConversationContext';
 import { HistoryProvider } from 'hooks/useHistoryContext';
 import { RuleManager } from 'rules/RuleManager';
+import { ChangeTracker } from 'services/ChangeTracker';
+import { CheckpointStore } from 'services/CheckpointStore';
+import { FeedbackItemStore } from 'services/FeedbackItemStore';
+import { ScoreStore } from 'services/ScoreStore';
+import { AnnotationManager } from 'services/AnnotationManager';
+import { CheckpointControls, CURRENT_VERSION } from 'views/components/CheckpointPanel';
+import { FeedbackDecisionControls, SuggestionControls } from 'views/components/FeedbackItemList';
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { SettingsProvider } from 'hooks/useSettings';
 
+type NotesCriticPlugin = Plugin & {
+    settings: NotesCriticSettings;
+    saveSettings(): Promise<void>;
+    ruleManager: RuleManager;
+    changeTracker: ChangeTracker;
+    checkpointStore: CheckpointStore;
+    feedbackItemStore: FeedbackItemStore;
+    scoreStore: ScoreStore;
+    currentConversationId: string | null;
+    annotationManager: AnnotationManager;
+};
+
 export class ChatView extends ItemView {
     private currentFile: TFile | null = null;
-    private plugin: Plugin & { settings: NotesCriticSettings; saveSettings(): Promise<void> };
-    private noteSnapshots: Map<string, NoteSnapshot> = new Map();
-    private lastFeedbackTimes: Map<string, Date> = new Map();
+    private plugin: NotesCriticPlugin;
+    private changeTracker: ChangeTracker;
     private ruleManager: RuleManager;
+    private checkpointStore: CheckpointStore;
+    private feedbackItemStore: FeedbackItemStore;
+    private removeTrackerListener: () => void = () => { };
+    private removeRulesListener: () => void = () => { };
     // Components
     private reactRoot: any;
     private reactContainer: HTMLElement;
     private updateReactComponents: () => void = () => { };
     private sendFeedbackMessage: (prompt: string, files?: any[], overrideSettings?: NotesCriticSettings) => Promise<void> = async () => { };
-    private sendFileFeedbackMessage: (filename: string, diff: string, prompt: string, files?: any[], overrideSettings?: NotesCriticSettings) => Promise<void> = async () => { };
+    private sendFileFeedbackMessage: (filename: string, diff: string, prompt: string, files?: any[], overrideSettings?: NotesCriticSettings, critics?: CriticPersona[]) => Promise<void> = async () => { };
     private fileManager: FileManager;
 
-    constructor(leaf: WorkspaceLeaf, plugin: Plugin & { settings: NotesCriticSettings; saveSettings(): Promise<void> }) {
+    constructor(leaf: WorkspaceLeaf, plugin: NotesCriticPlugin) {
         super(leaf);
         this.plugin = plugin;
-        this.fileManager = new FileManager(this.app, this.noteSnapshots, this.onFileChange.bind(this));
-        this.ruleManager = new RuleManager(this.app);
+        this.changeTracker = plugin.changeTracker;
+        this.fileManager = plugin.changeTracker.fileManager;
+        this.ruleManager = plugin.ruleManager;
+        this.checkpointStore = plugin.checkpointStore;
+        this.feedbackItemStore = plugin.feedbackItemStore;
     }
 
     getViewType() {
@@ -62,9 +93,6 @@ export class ChatView extends ItemView {
         this.buildUI(container);
         this.initializeView();
         this.registerEventListeners();
-
-        // Initialize rule manager
-        await this.ruleManager.initialize();
     }
 
     private buildUI(container: Element) {
@@ -91,8 +119,13 @@ export class ChatView extends ItemView {
                                 },
                                 onTriggerFileFeedbackMessage: (fileFeedbackFunction) => {
                                     this.sendFileFeedbackMessage = fileFeedbackFunction;
+                                    // Only take feedback requests once the conversation can send them
+                                    this.changeTracker.setFeedbackHandler(this.feedbackFor.bind(this));
                                 },
                                 vault: this.app.vault,
+                                checkpoints: this.checkpointControls(),
+                                suggestions: this.suggestionControls(),
+                                decisions: this.decisionControls(),
                             })
                         })
                     })
@@ -107,6 +140,8 @@ export class ChatView extends ItemView {
     private initializeView() {
         this.updateActiveFile();
         this.updateUI();
+        this.checkpointStore.load().then(() => this.updateUI());
+        this.feedbackItemStore.load().then(() => this.updateUI());
     }
 
     private registerEventListeners() {
@@ -120,13 +155,8 @@ export class ChatView extends ItemView {
             this.app.workspace.on('file-open', () => this.updateActiveFile())
         );
 
-        this.registerEvent(
-            this.app.vault.on('modify', (file) => {
-                if (file instanceof TFile && file === this.currentFile) {
-                    this.onFileModified(file);
-                }
-            })
-        );
+        this.removeTrackerListener = this.changeTracker.addListener(() => this.updateUI());
+        this.removeRulesListener = this.ruleManager.addListener(() => this.updateUI());
     }
 
     private updateActiveFile() {
@@ -134,59 +164,105 @@ export class ChatView extends ItemView {
         if (newFile !== this.currentFile) {
             this.currentFile = newFile;
             if (newFile) {
-                this.fileManager.initializeFileSnapshot(newFile);
+                this.changeTracker.track(newFile);
             }
+            this.updateUI();
         }
     }
 
-    private onFileChange(file: TFile) {
-        this.updateUI();
+    private updateUI() {
+        this.updateReactComponents();
     }
 
-    private updateUI() {
+    private handleConversationChunk(chunk: ConversationChunk) {
+        if (chunk.type === 'turn_complete' && chunk.turn?.userInput.type === 'file_change') {
+            const turn = chunk.turn;
+            this.recordScores(turn).catch(error => {
+                console.error('Error recording note scores:', error);
+            });
+            this.applyReview(turn).catch(error => {
+                console.error('Error applying the review:', error);
+            });
+        }
         this.updateReactComponents();
     }
 
-    private async currentConfig(): Promise<NotesCriticSettings | undefined> {
-        return this.currentFile ? await this.ruleManager.getEffectiveConfig(this.currentFile.path, this.plugin.settings) : undefined;
+    /**
+     * Annotate the reviewed note and write the review into the vault, as its
+     * settings say. The note is the finished turn's own, since several reviews
+     * can be under way at once
+     */
+    private async applyReview(turn: ConversationTurn) {
+        const path = turn.userInput.files?.[0]?.path;
+        const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+        if (!path || !(file instanceof TFile)) return;
+
+        const config = await this.ruleManager.getEffectiveConfig(path, this.plugin.settings);
+        if (config.inlineAnnotations) {
+            this.showAnnotations(file, turn).catch(error => {
+                console.error('Error showing feedback annotations:', error);
+            });
+        }
+        if (config.feedbackOutput !== 'chat') {
+            this.writeReview(file, config.feedbackOutput, turn).catch(error => {
+                new Notice(`Couldn't write the review of ${file.basename}: ${error.message}`);
+            });
+        }
     }
 
-    private async onFileModified(file: TFile) {
-        if (!file) return;
+    /** Pin the comments the critic anchored to passages of the note in its editors. */
+    private async showAnnotations(file: TFile, turn: ConversationTurn) {
+        const response = turn.steps.map(step => step.content ?? '').join('\n');
+        const structured = parseStructuredFeedback(response);
+        const content = await this.app.vault.read(file);
+        const raw = structured ? feedbackAnnotations(structured.items) : parseAnnotations(response);
+        this.plugin.annotationManager.set(file.path, anchorAnnotations(content, raw));
+    }
 
-        await this.fileManager.updateFileSnapshot(file);
-        this.updateUI();
+    /** Keep the rubric scores the critic gave the reviewed note, to chart how it improves. */
+    private async recordScores(turn: ConversationTurn) {
+        const path = turn.userInput.files?.[0]?.path;
+        if (!path || turn.error) return;
+
+        const scores = parseScores(turn.steps.map(step => step.content ?? '').join('\n'));
+        if (!scores) return;
+
+        await this.plugin.scoreStore.add(path, {
+            reviewedAt: turn.timestamp.getTime(),
+            scores,
+            overall: overallScore(scores),
+            conversationId: this.plugin.currentConversationId ?? undefined,
+            turnId: turn.id
+        });
+    }
 
-        // Check if auto-triggering is enabled for this file
-        const shouldAutoTrigger = await this.ruleManager.shouldAutoTrigger(file.path);
-        if (!shouldAutoTrigger) return;
-
-        // Get effective configuration for this file
-        const config = await this.currentConfig();
-
-        // Check if we should auto-trigger feedback
-        const snapshot = this.noteSnapshots.get(file.path);
-        if (snapshot && snapshot.changeCount >= (config?.feedbackThreshold ?? 0)) {
-            // Check cooldown period
-            const now = new Date();
-            const cooldownMs = (config?.feedbackCooldownSeconds ?? 0) * 1000;
-            const lastFeedbackTime = this.lastFeedbackTimes.get(file.path);
-            const timeSinceLastFeedback = lastFeedbackTime ?
-                now.getTime() - lastFeedbackTime.getTime() :
-                cooldownMs; // If no previous feedback, allow trigger
-
-            if (timeSinceLastFeedback >= cooldownMs) {
-                this.lastFeedbackTimes.set(file.path, now);
-                this.triggerFeedback();
+    /** Write the critic's review into the vault as callouts, a sidecar file or frontmatter properties. */
+    private async writeReview(file: TFile, output: FeedbackOutput, turn: ConversationTurn) {
+        const response = turn.steps.map(step => step.content ?? '').join('\n');
+        if (turn.error || !response.trim()) return;
+
+        const review = reviewFromResponse(response, await this.app.vault.read(file));
+        switch (output) {
+            case 'callouts':
+                await this.app.vault.process(file, content => writeCallouts(content, review));
+                break;
+            case 'sidecar': {
+                const path = sidecarPath(file.path);
+                const link = this.app.fileManager.generateMarkdownLink(file, path);
+                const existing = this.app.vault.getAbstractFileByPath(path);
+                if (existing instanceof TFile) {
+                    await this.app.vault.process(existing, content => writeSidecar(content, link, review));
+                } else {
+                    await this.app.vault.create(path, writeSidecar(null, link, review));
+                }
+                break;
             }
+            case 'frontmatter':
+                await this.app.fileManager.processFrontMatter(file, frontmatter => updateReviewProperties(frontmatter, review));
+                break;
         }
     }
 
-
-    private handleConversationChunk(chunk: ConversationChunk) {
-        this.updateReactComponents();
-    }
-
     public async triggerFeedback() {
         this.updateActiveFile();
 
@@ -195,41 +271,187 @@ export class ChatView extends ItemView {
             return;
         }
 
-        const snapshot = this.noteSnapshots.get(this.currentFile.path);
+        await this.feedbackFor(this.currentFile);
+    }
+
+    private checkpointControls(): CheckpointControls {
+        const notePath = this.currentFile?.path ?? null;
+        return {
+            notePath,
+            checkpoints: notePath ? this.checkpointStore.list(notePath) : [],
+            onSave: this.saveCheckpoint.bind(this),
+            onDelete: this.deleteCheckpoint.bind(this),
+            onDiff: this.diffCheckpoints.bind(this),
+            onFeedbackSince: this.feedbackSinceCheckpoint.bind(this)
+        };
+    }
+
+    private suggestionControls(): SuggestionControls {
+        return {
+            plan: this.planSuggestions.bind(this),
+            apply: this.applySuggestions.bind(this)
+        };
+    }
+
+    private decisionControls(): FeedbackDecisionControls {
+        return {
+            decisionOf: (notePath, item) => this.feedbackItemStore.get(notePath, item),
+            decide: this.decideFeedbackItem.bind(this),
+            undo: this.undoFeedbackDecision.bind(this)
+        };
+    }
+
+    private async decideFeedbackItem(notePath: string, item: FeedbackItem, status: FeedbackItemStatus, reason?: string) {
+        try {
+            await this.feedbackItemStore.set(notePath, item, status, reason);
+        } catch (error) {
+            new Notice(`Error saving feedback decision: ${error.message}`);
+        }
+        this.updateUI();
+    }
+
+    private async undoFeedbackDecision(notePath: string, item: FeedbackItem) {
+        try {
+            await this.feedbackItemStore.clear(notePath, item);
+        } catch (error) {
+            new Notice(`Error saving feedback decision: ${error.message}`);
+        }
+        this.updateUI();
+    }
+
+    private async planSuggestions(path: string, items: FeedbackItem[]): Promise<EditPlan> {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            return { path, before: '', after: '', edits: [], skipped: items.map(item => ({ item, reason: 'the note no longer exists' })) };
+        }
+        return planEdits(path, await this.app.vault.read(file), items);
+    }
+
+    /** Make all of a plan's edits at once and resolve the comments they dealt with. */
+    private async applySuggestions(plan: EditPlan): Promise<boolean> {
+        const result = await new TextEditorTool(this.app).replaceAll(plan.edits.map(edit => ({
+            command: 'str_replace' as const,
+            path: plan.path,
+            old_str: edit.oldStr,
+            new_str: edit.newStr
+        })));
+        if (!result.success) {
+            new Notice(`Couldn't apply suggestions: ${result.error}`);
+            return false;
+        }
+
+        for (const edit of plan.edits) {
+            await this.feedbackItemStore.set(plan.path, edit.item, 'accepted').catch(error => {
+                console.error('Error saving feedback decision:', error);
+            });
+        }
+        this.updateUI();
+
+        const quotes = plan.edits.map(edit => edit.item.quote);
+        for (const annotation of this.plugin.annotationManager.get(plan.path)) {
+            if (quotes.includes(annotation.quote)) this.plugin.annotationManager.resolve(plan.path, annotation.id);
+        }
+
+        const fuzzy = plan.edits.filter(edit => edit.fuzzy).length;
+        new Notice(`Applied ${plan.edits.length} suggestion${plan.edits.length === 1 ? '' : 's'}` +
+            (fuzzy > 0 ? `; ${fuzzy} matched the note only approximately` : ''));
+        return true;
+    }
+
+    private async saveCheckpoint(name: string) {
+        if (!this.currentFile) return;
+
+        try {
+            const content = await this.app.vault.read(this.currentFile);
+            const checkpoint = await this.checkpointStore.create(this.currentFile.path, name, content);
+            new Notice(`Saved checkpoint "${checkpoint.name}"`);
+        } catch (error) {
+            new Notice(`Error saving checkpoint: ${error.message}`);
+        }
+        this.updateUI();
+    }
+
+    private async deleteCheckpoint(id: string) {
+        if (!this.currentFile) return;
+
+        await this.checkpointStore.delete(this.currentFile.path, id);
+        this.updateUI();
+    }
+
+    /** Diff two versions of the active note, each either a checkpoint or the note as it is now. */
+    private async diffCheckpoints(fromId: string, toId: string): Promise<string> {
+        const file = this.currentFile;
+        if (!file) return '';
+
+        const contentOf = async (id: string) => id === CURRENT_VERSION
+            ? this.app.vault.read(file)
+            : this.checkpointStore.get(file.path, id)?.content ?? '';
+
+        const config = await this.ruleManager.getEffectiveConfig(file.path, this.plugin.settings);
+        return diffNote(config, await contentOf(fromId), await contentOf(toId));
+    }
+
+    private async feedbackSinceCheckpoint(id: string) {
+        const checkpoint = this.currentFile && this.checkpointStore.get(this.currentFile.path, id);
+        if (!this.currentFile || !checkpoint) {
+            new Notice('Checkpoint not found.');
+            return;
+        }
+
+        await this.feedbackFor(this.currentFile, checkpoint);
+    }
+
+    /**
+     * Send feedback on the changes to any tracked note, not only the active one.
+     * Changes are measured from the last review, or from a checkpoint if given.
+     */
+    private async feedbackFor(file: TFile, since?: NoteCheckpoint) {
+        const snapshot = this.changeTracker.getSnapshot(file.path);
         if (!snapshot) {
             new Notice('No snapshot available for current note. Please wait for initialization.');
             return;
         }
 
-        const diff = generateDiff(snapshot.baseline, snapshot.current);
-
-        const feedbackPrompt = await this.ruleManager.getFeedbackPrompt(this.currentFile.path, this.plugin.settings);
-        const prompt = feedbackPrompt
-            .replace(/\${notePath}/g, this.currentFile.path)
-            .replace(/\${noteTitle}/g, this.currentFile.basename)
-            .replace(/\${diff}/g, diff); // Keep full prompt with diff for LLM processing
+        const config = await this.ruleManager.getEffectiveConfig(file.path, this.plugin.settings);
+        const built = buildFeedbackPrompt(
+            config,
+            { path: file.path, title: file.basename },
+            since ? since.content : snapshot.baseline,
+            snapshot.current
+        );
+        const diff = built.diff;
+        let prompt = built.prompt;
+        // Keep the critic from raising points the writer already rejected
+        await this.feedbackItemStore.load();
+        const dismissed = formatDismissedFeedback(this.feedbackItemStore.dismissed(file.path));
+        if (dismissed) {
+            prompt += `\n\n${dismissed}`;
+        }
 
         const files = [{
             type: 'text' as const,
-            path: this.currentFile.path,
-            name: this.currentFile.basename
+            path: file.path,
+            name: file.basename
         }];
 
+        const { critics, missing } = await this.ruleManager.findCritics(config.critics);
+        if (missing.length > 0) {
+            new Notice(`Critics not found or disabled: ${missing.join(', ')}`);
+        }
+
         try {
             // Use structured file feedback instead of plain text
             await this.sendFileFeedbackMessage(
-                this.currentFile.basename, 
-                diff, 
-                prompt, 
-                files, 
-                await this.currentConfig()
+                file.basename,
+                diff,
+                prompt,
+                files,
+                config,
+                critics
             );
 
-            // Update snapshot baseline
-            this.fileManager.updateFeedbackBaseline(this.currentFile!);
-
-            // Update last feedback time for this file
-            this.lastFeedbackTimes.set(this.currentFile.path, new Date());
+            // Update snapshot baseline and last feedback time for this file
+            this.changeTracker.markReviewed(file);
 
             this.updateUI();
         } catch (error) {
@@ -238,6 +460,9 @@ export class ChatView extends ItemView {
     }
 
     async onClose() {
+        this.changeTracker.setFeedbackHandler(null);
+        this.removeTrackerListener();
+        this.removeRulesListener();
         if (this.reactRoot) {
             this.reactRoot.unmount();
         }
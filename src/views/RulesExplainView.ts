@@ -0,0 +1,91 @@
+import { ItemView, WorkspaceLeaf, TFile, Notice, Plugin } from 'obsidian';
+import { NotesCriticSettings, RULES_EXPLAIN_VIEW_CONFIG } from 'types';
+import { RuleManager } from 'rules/RuleManager';
+import { EffectiveConfigPanel, ExplainedConfig } from 'views/components/EffectiveConfigPanel';
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+
+type NotesCriticPlugin = Plugin & {
+    settings: NotesCriticSettings;
+    ruleManager: RuleManager;
+};
+
+/**
+ * Shows which rules match the active note and which of them each setting of
+ * the note's effective configuration comes from.
+ */
+export class RulesExplainView extends ItemView {
+    private plugin: NotesCriticPlugin;
+    private reactRoot: Root | null = null;
+    private currentFile: TFile | null = null;
+    private explained: ExplainedConfig | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: NotesCriticPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType() {
+        return RULES_EXPLAIN_VIEW_CONFIG.type;
+    }
+
+    getDisplayText() {
+        return RULES_EXPLAIN_VIEW_CONFIG.name;
+    }
+
+    getIcon() {
+        return RULES_EXPLAIN_VIEW_CONFIG.icon;
+    }
+
+    async onOpen() {
+        const container = this.containerEl.children[1];
+        container.empty();
+        const reactContainer = container.createDiv();
+        reactContainer.addClass('nc-h-full', 'nc-overflow-y-auto');
+        this.reactRoot = createRoot(reactContainer);
+
+        this.currentFile = this.app.workspace.getActiveFile();
+        this.registerEvent(
+            this.app.workspace.on('file-open', (file: TFile | null) => {
+                // Keep showing the last note while another pane, e.g. this one, is focused
+                if (file) {
+                    this.currentFile = file;
+                    void this.explain();
+                }
+            })
+        );
+
+        await this.explain();
+    }
+
+    private async explain(reload = false) {
+        const file = this.currentFile;
+        this.explained = null;
+        this.render();
+        if (!file) return;
+
+        try {
+            if (reload) await this.plugin.ruleManager.refreshRules();
+            const { config, sources } = await this.plugin.ruleManager.explainEffectiveConfig(file.path, this.plugin.settings);
+            // Another note may have been opened meanwhile
+            if (file !== this.currentFile) return;
+            this.explained = { matchedRules: config.matchedRules, sources };
+        } catch (error) {
+            new Notice(`Couldn't explain the rules for ${file.path}: ${error.message}`);
+        }
+        this.render();
+    }
+
+    private render() {
+        this.reactRoot?.render(React.createElement(EffectiveConfigPanel, {
+            notePath: this.currentFile?.path ?? null,
+            explained: this.explained,
+            onReload: () => this.explain(true)
+        }));
+    }
+
+    async onClose() {
+        this.reactRoot?.unmount();
+        this.reactRoot = null;
+    }
+}
@@ -0,0 +1,114 @@
+import { ItemView, WorkspaceLeaf, TFile, Notice, Plugin } from 'obsidian';
+import { NotesCriticSettings, SCORES_VIEW_CONFIG } from 'types';
+import { lowestScoringNotes } from 'scores';
+import { ScoreStore } from 'services/ScoreStore';
+import { scoresFromConversationLogs } from 'services/ConversationLogs';
+import { RECENT_EDIT_WINDOWS, ScoreControls, ScoresPanel } from 'views/components/ScoresPanel';
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+
+type NotesCriticPlugin = Plugin & {
+    settings: NotesCriticSettings;
+    scoreStore: ScoreStore;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOWEST_SCORING_LIMIT = 10;
+
+/**
+ * Shows how the active note's rubric scores changed across its reviews, and
+ * which recently edited notes in the vault score lowest.
+ */
+export class ScoresView extends ItemView {
+    private plugin: NotesCriticPlugin;
+    private scoreStore: ScoreStore;
+    private reactRoot: Root | null = null;
+    private currentFile: TFile | null = null;
+    private days = RECENT_EDIT_WINDOWS[0];
+    private removeStoreListener: () => void = () => { };
+
+    constructor(leaf: WorkspaceLeaf, plugin: NotesCriticPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+        this.scoreStore = plugin.scoreStore;
+    }
+
+    getViewType() {
+        return SCORES_VIEW_CONFIG.type;
+    }
+
+    getDisplayText() {
+        return SCORES_VIEW_CONFIG.name;
+    }
+
+    getIcon() {
+        return SCORES_VIEW_CONFIG.icon;
+    }
+
+    async onOpen() {
+        const container = this.containerEl.children[1];
+        container.empty();
+        const reactContainer = container.createDiv();
+        reactContainer.addClass('nc-h-full', 'nc-overflow-y-auto');
+        this.reactRoot = createRoot(reactContainer);
+
+        this.currentFile = this.app.workspace.getActiveFile();
+        this.registerEvent(
+            this.app.workspace.on('file-open', (file: TFile | null) => {
+                // Keep showing the last note while another pane, e.g. this one, is focused
+                if (file) {
+                    this.currentFile = file;
+                    this.render();
+                }
+            })
+        );
+        this.removeStoreListener = this.scoreStore.addListener(() => this.render());
+
+        this.render();
+        await this.scoreStore.load();
+        this.render();
+    }
+
+    private controls(): ScoreControls {
+        const notePath = this.currentFile?.path ?? null;
+        const editedAt = (path: string) => {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            return file instanceof TFile ? file.stat.mtime : null;
+        };
+
+        return {
+            notePath,
+            history: notePath ? this.scoreStore.list(notePath) : [],
+            lowest: lowestScoringNotes(this.scoreStore.all(), editedAt, Date.now() - this.days * DAY_MS, LOWEST_SCORING_LIMIT),
+            days: this.days,
+            onDaysChange: (days) => {
+                this.days = days;
+                this.render();
+            },
+            onOpenNote: (path) => {
+                this.app.workspace.openLinkText(path, '', false).catch(error => {
+                    new Notice(`Couldn't open ${path}: ${error.message}`);
+                });
+            },
+            onImport: async () => {
+                try {
+                    const found = await scoresFromConversationLogs(this.app, this.plugin.settings.logPath);
+                    const added = await this.scoreStore.import(found);
+                    new Notice(added > 0 ? `Imported ${added} score${added === 1 ? '' : 's'}` : 'No new scores found');
+                } catch (error) {
+                    new Notice(`Couldn't import scores: ${error.message}`);
+                }
+            }
+        };
+    }
+
+    private render() {
+        this.reactRoot?.render(React.createElement(ScoresPanel, { controls: this.controls() }));
+    }
+
+    async onClose() {
+        this.removeStoreListener();
+        this.reactRoot?.unmount();
+        this.reactRoot = null;
+    }
+}
@@ -1,10 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { ConversationTurn, NotesCriticSettings, UserInput, LLMFile } from 'types';
+import { ConversationTurn, CriticPersona, NotesCriticSettings, UserInput, LLMFile } from 'types';
 import { Vault } from 'obsidian';
 import { loadLLMFileContent } from './FilePicker';
 import { FeedbackDisplayReact } from 'views/components/FeedbackDisplay';
 import { ChatInputReact } from 'views/components/ChatInput';
 import { ControlPanelReact } from 'views/components/ControlPanel';
+import { CheckpointPanel, CheckpointControls } from 'views/components/CheckpointPanel';
+import { FeedbackDecisionControls, SuggestionControls } from 'views/components/FeedbackItemList';
 import { useConversationContext } from 'hooks/useConversationContext';
 import { useHistoryContext } from 'hooks/useHistoryContext';
 import { useTokenTracker } from 'hooks/useSettings';
@@ -14,8 +16,11 @@ interface ChatViewComponentProps {
     onFeedback: () => void;
     onChunkReceived?: (chunk: any, turn: ConversationTurn) => void;
     onTriggerFeedbackMessage?: (feedbackFunction: (prompt: string, files?: any[], overrideSettings?: NotesCriticSettings) => Promise<void>) => void;
-    onTriggerFileFeedbackMessage?: (fileFeedbackFunction: (filename: string, diff: string, prompt: string, files?: any[], overrideSettings?: NotesCriticSettings) => Promise<void>) => void;
+    onTriggerFileFeedbackMessage?: (fileFeedbackFunction: (filename: string, diff: string, prompt: string, files?: any[], overrideSettings?: NotesCriticSettings, critics?: CriticPersona[]) => Promise<void>) => void;
     vault?: Vault;
+    checkpoints?: CheckpointControls;
+    suggestions?: SuggestionControls;
+    decisions?: FeedbackDecisionControls;
 }
 
 const MainChatInput = ({onSend, conversation, cancelInference, onRestorePrompt, fullConversation, vault}: {
@@ -77,6 +82,9 @@ export const ChatViewComponent: React.FC<ChatViewComponentProps> = ({
     onTriggerFeedbackMessage,
     onTriggerFileFeedbackMessage,
     vault,
+    checkpoints,
+    suggestions,
+    decisions,
 }) => {
     const { 
         conversation,
@@ -163,7 +171,8 @@ export const ChatViewComponent: React.FC<ChatViewComponentProps> = ({
         diff: string, 
         prompt: string, 
         files?: LLMFile[], 
-        overrideSettings?: NotesCriticSettings
+        overrideSettings?: NotesCriticSettings,
+        critics?: CriticPersona[]
     ) => {
         try {
             // Lazy load file contents if files are provided
@@ -194,6 +203,7 @@ export const ChatViewComponent: React.FC<ChatViewComponentProps> = ({
                 files: loadedFiles.length > 0 ? loadedFiles : undefined,
                 overrideSettings,
                 userInput, // Pass structured user input
+                critics,
                 callback: (chunk) => {
                     if (chunk.type === 'turn_complete' && chunk.turn) {
                         handleTurnComplete(chunk.turn);
@@ -285,6 +295,7 @@ export const ChatViewComponent: React.FC<ChatViewComponentProps> = ({
     };
 
     const scrollContainerRef = React.useRef<HTMLDivElement>(null);
+    const [showCheckpoints, setShowCheckpoints] = useState(false);
 
     return (
         <div className="nc-flex nc-flex-col nc-h-full" onKeyDown={handleKeyDown}>
@@ -293,7 +304,13 @@ export const ChatViewComponent: React.FC<ChatViewComponentProps> = ({
                     <ControlPanelReact
                         onFeedback={onFeedback}
                         onClear={handleClear}
+                        onCheckpoints={checkpoints ? () => setShowCheckpoints(!showCheckpoints) : undefined}
                     />
+                    {checkpoints && showCheckpoints && (
+                        <div className="nc-mt-1">
+                            <CheckpointPanel controls={checkpoints} />
+                        </div>
+                    )}
                 </div>
                 
                 <FeedbackDisplayReact 
@@ -301,6 +318,8 @@ export const ChatViewComponent: React.FC<ChatViewComponentProps> = ({
                     isInferenceRunning={isInferenceRunning}
                     onRerun={handleRerun}
                     scrollContainerRef={scrollContainerRef}
+                    suggestions={suggestions}
+                    decisions={decisions}
                 />
             </div>
             
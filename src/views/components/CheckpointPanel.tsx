@@ -0,0 +1,126 @@
+import React from 'react';
+import { NoteCheckpoint } from 'types';
+import { DiffViewer } from './DiffViewer';
+
+/** Stands in for the note as it is now wherever a checkpoint id is expected. */
+export const CURRENT_VERSION = 'current';
+
+export interface CheckpointControls {
+    notePath: string | null;
+    checkpoints: NoteCheckpoint[];
+    onSave: (name: string) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+    onDiff: (fromId: string, toId: string) => Promise<string>;
+    onFeedbackSince: (id: string) => Promise<void>;
+}
+
+interface CheckpointPanelProps {
+    controls: CheckpointControls;
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+export const CheckpointPanel: React.FC<CheckpointPanelProps> = ({ controls }) => {
+    const { notePath, checkpoints, onSave, onDelete, onDiff, onFeedbackSince } = controls;
+    const [name, setName] = React.useState('');
+    const [fromId, setFromId] = React.useState('');
+    const [toId, setToId] = React.useState(CURRENT_VERSION);
+    const [diff, setDiff] = React.useState<string | null>(null);
+
+    // Start comparing from the latest checkpoint, and forget diffs of other notes
+    React.useEffect(() => {
+        setFromId(checkpoints.length > 0 ? checkpoints[checkpoints.length - 1].id : '');
+        setToId(CURRENT_VERSION);
+        setDiff(null);
+    }, [notePath, checkpoints.length]);
+
+    if (!notePath) {
+        return <div className="nc-text-sm nc-text-muted">Open a note to save or compare checkpoints.</div>;
+    }
+
+    const handleSave = async () => {
+        await onSave(name);
+        setName('');
+    };
+
+    const handleCompare = async () => {
+        setDiff(await onDiff(fromId, toId));
+    };
+
+    const versionOptions = (
+        <>
+            {checkpoints.map(checkpoint => (
+                <option key={checkpoint.id} value={checkpoint.id}>{checkpoint.name}</option>
+            ))}
+            <option value={CURRENT_VERSION}>Current note</option>
+        </>
+    );
+
+    return (
+        <div className="nc-space-y-2 nc-max-h-80 nc-overflow-y-auto">
+            <div className="nc-flex nc-gap-2">
+                <input
+                    type="text"
+                    className="nc-flex-1 nc-min-w-0"
+                    placeholder="Checkpoint name, e.g. draft 1"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleSave();
+                    }}
+                />
+                <button className="nc-btn nc-btn--primary nc-btn--sm" onClick={handleSave}>
+                    Save checkpoint
+                </button>
+            </div>
+
+            {checkpoints.length === 0 ? (
+                <div className="nc-text-sm nc-text-muted">No checkpoints for this note yet.</div>
+            ) : (
+                <>
+                    {checkpoints.map(checkpoint => (
+                        <div key={checkpoint.id} className="nc-flex nc-items-center nc-gap-2 nc-text-sm">
+                            <span className="nc-flex-1 nc-truncate" title={formatTime(checkpoint.createdAt)}>
+                                {checkpoint.name}
+                                <span className="nc-text-muted"> · {formatTime(checkpoint.createdAt)}</span>
+                            </span>
+                            <button
+                                className="nc-btn nc-btn--secondary nc-btn--xs"
+                                title="Get feedback on everything changed since this checkpoint"
+                                onClick={() => onFeedbackSince(checkpoint.id)}
+                            >
+                                💬
+                            </button>
+                            <button
+                                className="nc-btn nc-btn--danger nc-btn--xs"
+                                title="Delete this checkpoint"
+                                onClick={() => onDelete(checkpoint.id)}
+                            >
+                                🗑️
+                            </button>
+                        </div>
+                    ))}
+
+                    <div className="nc-flex nc-items-center nc-gap-2 nc-text-sm">
+                        <select className="dropdown nc-flex-1 nc-min-w-0" value={fromId} onChange={(e) => setFromId(e.target.value)}>
+                            {versionOptions}
+                        </select>
+                        <span>→</span>
+                        <select className="dropdown nc-flex-1 nc-min-w-0" value={toId} onChange={(e) => setToId(e.target.value)}>
+                            {versionOptions}
+                        </select>
+                        <button className="nc-btn nc-btn--secondary nc-btn--sm" onClick={handleCompare}>
+                            Compare
+                        </button>
+                    </div>
+
+                    {diff !== null && (
+                        diff
+                            ? <DiffViewer diff={diff} />
+                            : <div className="nc-text-sm nc-text-muted">No differences.</div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -5,11 +5,13 @@ import { useConversationContext } from 'hooks/useConversationContext';
 interface ControlPanelReactProps {
     onFeedback: () => void;
     onClear: () => void;
+    onCheckpoints?: () => void;
 }
 
 export const ControlPanelReact: React.FC<ControlPanelReactProps> = ({
     onFeedback,
     onClear,
+    onCheckpoints,
 }) => {
     const { history, historyList, listHistory, loadHistory: loadHistoryFromFile, deleteHistory } = useHistoryContext();
     const { conversationId, loadHistory: loadHistoryIntoConversation, clearConversation } = useConversationContext();
@@ -122,6 +124,15 @@ export const ControlPanelReact: React.FC<ControlPanelReactProps> = ({
                 >
                     💬
                 </button>
+                {onCheckpoints && (
+                    <button
+                        className="nc-btn nc-btn--secondary nc-btn--base"
+                        title="Checkpoints"
+                        onClick={onCheckpoints}
+                    >
+                        📌
+                    </button>
+                )}
                 <button
                     className="nc-btn nc-btn--secondary nc-btn--base"
                     title="Clear Current"
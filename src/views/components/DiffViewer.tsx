@@ -1,4 +1,5 @@
 import React from 'react';
+import { InlineSegment, inlineDiff, parseInlineMarkup } from 'diffs';
 
 const DIFF_CLASSES = {
     container: 'nc-font-mono nc-text-sm nc-bg-primary-alt nc-border nc-rounded nc-p-3 nc-overflow-x-auto nc-leading-tight',
@@ -8,18 +9,47 @@ const DIFF_CLASSES = {
     removed: 'nc-text-danger nc-bg-danger/10 nc-px-1 nc-rounded-sm',
     meta: 'nc-text-muted nc-italic',
     context: 'nc-text-normal',
+    inline: 'nc-text-normal nc-px-1',
+    inlineAdded: 'nc-text-success nc-bg-success/25 nc-rounded-sm',
+    inlineRemoved: 'nc-text-danger nc-bg-danger/25 nc-rounded-sm nc-line-through',
 } as const;
 
 interface DiffViewerProps {
     diff: string;
 }
 
-const DiffLine: React.FC<{ line: string }> = ({ line }) => {
+const InlineSegments: React.FC<{ segments: InlineSegment[]; show?: InlineSegment['type'] }> = ({ segments, show }) => (
+    <>
+        {segments
+            .filter(segment => segment.type === 'equal' || !show || segment.type === show)
+            .map((segment, index) => {
+                switch (segment.type) {
+                    case 'added':
+                        return <span key={index} className={DIFF_CLASSES.inlineAdded}>{segment.text}</span>;
+                    case 'removed':
+                        return <span key={index} className={DIFF_CLASSES.inlineRemoved}>{segment.text}</span>;
+                    default:
+                        return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+                }
+            })}
+    </>
+);
+
+const DiffLine: React.FC<{ line: string; segments?: InlineSegment[] }> = ({ line, segments }) => {
     // Handle empty lines
     if (line.trim() === '') {
         return <div className={DIFF_CLASSES.context}>&nbsp;</div>;
     }
 
+    // Word level diffs mark changed lines with '~' and inline markup
+    if (line.startsWith('~')) {
+        return (
+            <div className={DIFF_CLASSES.inline}>
+                <InlineSegments segments={parseInlineMarkup(line.slice(1))} />
+            </div>
+        );
+    }
+
     // Match diff patterns more precisely
     let className: string = DIFF_CLASSES.context;
 
@@ -29,8 +59,14 @@ const DiffLine: React.FC<{ line: string }> = ({ line }) => {
         className = DIFF_CLASSES.header;
     } else if (line.startsWith('+') && !line.startsWith('+++')) {
         className = DIFF_CLASSES.added;
+        if (segments) {
+            return <div className={className}>+<InlineSegments segments={segments} show="added" /></div>;
+        }
     } else if (line.startsWith('-') && !line.startsWith('---')) {
         className = DIFF_CLASSES.removed;
+        if (segments) {
+            return <div className={className}>-<InlineSegments segments={segments} show="removed" /></div>;
+        }
     } else if (line.startsWith('\\')) {
         className = DIFF_CLASSES.meta;
     }
@@ -38,16 +74,51 @@ const DiffLine: React.FC<{ line: string }> = ({ line }) => {
     return <div className={className}>{line}</div>;
 };
 
+/**
+ * Pair up runs of removed lines with the added lines that directly follow them,
+ * so a line-level diff can still highlight which words changed.
+ */
+const pairChangedLines = (lines: string[]): Map<number, InlineSegment[]> => {
+    const isRemoved = (line: string) => line.startsWith('-') && !line.startsWith('---');
+    const isAdded = (line: string) => line.startsWith('+') && !line.startsWith('+++');
+    const pairs = new Map<number, InlineSegment[]>();
+
+    let i = 0;
+    while (i < lines.length) {
+        const removedStart = i;
+        while (i < lines.length && isRemoved(lines[i])) i++;
+        const addedStart = i;
+        while (i < lines.length && isAdded(lines[i])) i++;
+
+        const removedCount = addedStart - removedStart;
+        if (removedCount > 0 && removedCount === i - addedStart) {
+            for (let j = 0; j < removedCount; j++) {
+                const segments = inlineDiff(lines[removedStart + j].slice(1), lines[addedStart + j].slice(1));
+                // Only worth highlighting when most of the line survived
+                const unchanged = segments.filter(s => s.type === 'equal').reduce((sum, s) => sum + s.text.length, 0);
+                if (unchanged * 2 >= lines[addedStart + j].length - 1) {
+                    pairs.set(removedStart + j, segments);
+                    pairs.set(addedStart + j, segments);
+                }
+            }
+        }
+        if (i === removedStart) i++;
+    }
+
+    return pairs;
+};
+
 export const DiffViewer: React.FC<DiffViewerProps> = ({ diff }) => {
-    if (!diff) return null;
+    const lines = React.useMemo(() => diff ? diff.split('\n') : [], [diff]);
+    const pairs = React.useMemo(() => pairChangedLines(lines), [lines]);
 
-    const lines = diff.split('\n');
+    if (!diff) return null;
 
     return (
         <div className={DIFF_CLASSES.container}>
             {lines.map((line, index) => (
-                <DiffLine key={index} line={line} />
+                <DiffLine key={index} line={line} segments={pairs.get(index)} />
             ))}
         </div>
     );
-};
\ No newline at end of file
+};
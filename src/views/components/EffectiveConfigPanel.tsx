@@ -0,0 +1,106 @@
+import React from 'react';
+import { ConfigFieldSource, RuleMatch } from 'types';
+
+export interface ExplainedConfig {
+    matchedRules: RuleMatch[]; // Highest priority first
+    sources: ConfigFieldSource[];
+}
+
+interface EffectiveConfigPanelProps {
+    notePath: string | null;
+    explained: ExplainedConfig | null; // Null while it is worked out
+    onReload: () => Promise<void>;
+}
+
+const MAX_VALUE_LENGTH = 80;
+
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null || value === '') return '–';
+    const text = Array.isArray(value) ? value.join(', ') || 'none' : String(value);
+    const line = text.replace(/\s+/g, ' ').trim();
+    return line.length > MAX_VALUE_LENGTH ? `${line.slice(0, MAX_VALUE_LENGTH)}…` : line;
+}
+
+export const MatchedRules: React.FC<{ matchedRules: RuleMatch[] }> = ({ matchedRules }) => {
+    if (matchedRules.length === 0) {
+        return <div className="nc-text-sm nc-text-muted">No rules match this note, so it uses the plugin settings.</div>;
+    }
+    return (
+        <ol className="nc-m-0 nc-text-sm">
+            {matchedRules.map(({ rule, matchedPattern }) => (
+                <li key={rule.filePath}>
+                    <strong>{rule.name}</strong>
+                    <span className="nc-text-muted"> · priority {rule.priority} · {matchedPattern}</span>
+                    {rule.extends && <span className="nc-text-muted"> · extends {rule.extends}</span>}
+                    <div className="nc-text-xs nc-text-faint nc-font-mono">{rule.filePath}</div>
+                </li>
+            ))}
+        </ol>
+    );
+};
+
+export const SourcesTable: React.FC<{ sources: ConfigFieldSource[] }> = ({ sources }) => (
+    <table className="nc-score-table nc-text-xs">
+        <thead>
+            <tr>
+                <th>Setting</th>
+                <th>Value</th>
+                <th>From</th>
+            </tr>
+        </thead>
+        <tbody>
+            {sources.map(({ field, value, rules }) => (
+                <tr key={field} className={rules.length === 0 ? 'nc-text-muted' : undefined}>
+                    <td className="nc-font-mono">{field}</td>
+                    <td title={typeof value === 'string' ? value : undefined}>{formatValue(value)}</td>
+                    <td>{rules.length > 0 ? rules.join(' + ') : 'Plugin settings'}</td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+export const EffectiveConfigPanel: React.FC<EffectiveConfigPanelProps> = ({ notePath, explained, onReload }) => {
+    const [reloading, setReloading] = React.useState(false);
+
+    const handleReload = async () => {
+        setReloading(true);
+        try {
+            await onReload();
+        } finally {
+            setReloading(false);
+        }
+    };
+
+    if (!notePath) {
+        return <div className="nc-p-4 nc-text-sm nc-text-muted">Open a note to see which rules apply to it.</div>;
+    }
+
+    return (
+        <div className="nc-p-4 nc-space-y-4">
+            <div className="nc-text-xs nc-text-muted nc-font-mono">{notePath}</div>
+            {!explained ? (
+                <div className="nc-text-sm nc-text-muted">Working out the rules…</div>
+            ) : (
+                <>
+                    <section className="nc-space-y-2">
+                        <h4 className="nc-m-0">Matching rules</h4>
+                        <MatchedRules matchedRules={explained.matchedRules} />
+                    </section>
+                    <section className="nc-space-y-2">
+                        <h4 className="nc-m-0">Settings</h4>
+                        <SourcesTable sources={explained.sources} />
+                    </section>
+                </>
+            )}
+            <button
+                className="nc-btn nc-btn--secondary nc-btn--sm"
+                title="Read the rule files again"
+                disabled={reloading}
+                onClick={handleReload}
+            >
+                {reloading ? 'Reloading…' : 'Reload rules'}
+            </button>
+        </div>
+    );
+};
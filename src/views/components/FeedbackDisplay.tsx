@@ -1,7 +1,11 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { ConversationTurn, UserInput, TurnStep, TurnChunk } from 'types';
+import { ConversationTurn, CriticRun, UserInput, TurnStep, TurnChunk } from 'types';
 import { ChatInputReact } from 'views/components/ChatInput';
 import { formatJson } from 'views/formatters';
+import { stripAnnotations } from 'annotations';
+import { isStructuredFeedback, parseStructuredFeedback } from 'structuredFeedback';
+import { overallScore, parseScores, stripScores } from 'scores';
+import { FeedbackDecisionControls, FeedbackItemList, SuggestionControls } from 'views/components/FeedbackItemList';
 import { FileChangeViewer } from 'views/components/FileChangeViewer';
 import { ChatMessage } from 'views/components/ChatMessage';
 import { ManualFeedbackViewer } from 'views/components/ManualFeedbackViewer';
@@ -35,6 +39,8 @@ interface FeedbackDisplayProps {
     isInferenceRunning: boolean;
     onRerun?: (turn: ConversationTurn, newMessage?: string) => void;
     scrollContainerRef?: React.RefObject<HTMLDivElement>;
+    suggestions?: SuggestionControls;
+    decisions?: FeedbackDecisionControls;
 }
 
 const FormattedUserInput: React.FC<{ userInput: UserInput }> = ({ userInput }) => {
@@ -128,7 +134,10 @@ const DetailsSection: React.FC<{ title: string | React.ReactNode; children: Reac
 const ChunkRenderer: React.FC<{
     chunk: TurnChunk;
     shouldShowCursor: boolean;
-}> = ({ chunk, shouldShowCursor }) => {
+    notePath?: string;
+    suggestions?: SuggestionControls;
+    decisions?: FeedbackDecisionControls;
+}> = ({ chunk, shouldShowCursor, notePath, suggestions, decisions }) => {
     switch (chunk.type) {
         case 'thinking':
             return (
@@ -139,12 +148,36 @@ const ChunkRenderer: React.FC<{
                 </DetailsSection>
             );
         
-        case 'content':
-            return (
-                <div className={CSS_CLASSES.responseContent}>
-                    {chunk.content || ''}{shouldShowCursor && '▋'}
+        case 'content': {
+            const scores = !shouldShowCursor && parseScores(chunk.content || '');
+            const scoreLine = scores && (
+                <div className="nc-score-line nc-text-xs nc-text-muted">
+                    <strong>{overallScore(scores)}</strong> · {Object.entries(scores).map(([criterion, score]) => `${criterion} ${score}`).join(' · ')}
                 </div>
             );
+            if (isStructuredFeedback(chunk.content || '')) {
+                const feedback = parseStructuredFeedback(chunk.content);
+                if (feedback) {
+                    return (
+                        <>
+                            {scoreLine}
+                            <FeedbackItemList feedback={feedback} notePath={notePath} suggestions={suggestions} decisions={decisions} />
+                        </>
+                    );
+                }
+                // Partial JSON can't be shown as a list until the reply is complete
+                if (shouldShowCursor) return <ProcessingIndicator message="Collecting feedback" />;
+            }
+            // Anchored comments are shown in the editor instead, and scores above the reply
+            return (
+                <>
+                    {scoreLine}
+                    <div className={CSS_CLASSES.responseContent}>
+                        {stripScores(stripAnnotations(chunk.content || ''))}{shouldShowCursor && '▋'}
+                    </div>
+                </>
+            );
+        }
         
         case 'tool_call':
         case 'tool_call_result':
@@ -197,7 +230,10 @@ const ChunkRenderer: React.FC<{
 const StepElement: React.FC<{
     step: TurnStep;
     streamingState: StreamingState;
-}> = ({ step, streamingState }) => {
+    notePath?: string;
+    suggestions?: SuggestionControls;
+    decisions?: FeedbackDecisionControls;
+}> = ({ step, streamingState, notePath, suggestions, decisions }) => {
     if (step.chunks && step.chunks.length > 0) {
         return (
             <div className={CSS_CLASSES.stepContainer}>
@@ -210,6 +246,9 @@ const StepElement: React.FC<{
                             key={index}
                             chunk={chunk}
                             shouldShowCursor={shouldShowCursor}
+                            notePath={notePath}
+                            suggestions={suggestions}
+                            decisions={decisions}
                         />
                     );
                 })}
@@ -224,13 +263,52 @@ const StepElement: React.FC<{
     }
 };
 
+const MERGED_TAB = 'merged';
+
+/** Tabs to switch between a critic panel's merged report and each critic's own reply. */
+const CriticTabs: React.FC<{
+    runs: CriticRun[];
+    active: string;
+    onSelect: (tab: string) => void;
+}> = ({ runs, active, onSelect }) => {
+    const tabClass = (tab: string) => `nc-critic-tab${tab === active ? ' nc-critic-tab--active' : ''}`;
+    return (
+        <div className="nc-critic-tabs" role="tablist">
+            <button role="tab" aria-selected={active === MERGED_TAB} className={tabClass(MERGED_TAB)} onClick={() => onSelect(MERGED_TAB)}>
+                Merged
+            </button>
+            {runs.map(run => (
+                <button
+                    key={run.critic}
+                    role="tab"
+                    aria-selected={active === run.critic}
+                    className={tabClass(run.critic)}
+                    title={`${run.model}${run.tokenUsage ? ` · ${run.tokenUsage.totalTokens.toLocaleString()} tokens` : ''}`}
+                    onClick={() => onSelect(run.critic)}
+                >
+                    {run.critic}
+                    {run.error ? ' ⚠' : !run.isComplete ? ' …' : ''}
+                </button>
+            ))}
+        </div>
+    );
+};
+
 const AIResponseElement: React.FC<{
     turn: ConversationTurn;
     isStreaming: boolean;
     onRerun?: (turn: ConversationTurn) => void;
-}> = ({ turn, isStreaming, onRerun }) => {
+    suggestions?: SuggestionControls;
+    decisions?: FeedbackDecisionControls;
+}> = ({ turn, isStreaming, onRerun, suggestions, decisions }) => {
+    const [activeTab, setActiveTab] = useState(MERGED_TAB);
+    const activeRun = turn.critics?.find(run => run.critic === activeTab);
+    const steps = activeRun ? activeRun.steps : turn.steps;
+    // The merged report only exists once every critic is done
+    const waitingForCritics = !!turn.critics && !activeRun && !turn.isComplete;
+
     const getStreamingState = (step: TurnStep, index: number, totalSteps: number): StreamingState => ({
-        isStreaming: isStreaming && index === totalSteps - 1,
+        isStreaming: isStreaming && (!activeRun || !activeRun.isComplete) && index === totalSteps - 1,
         isLastStep: index === totalSteps - 1,
         hasThinking: !!step.thinking,
         hasToolCalls: Object.keys(step.toolCalls).length > 0,
@@ -244,18 +322,35 @@ const AIResponseElement: React.FC<{
         (step.chunks && step.chunks.length > 0)
     );
 
+    // Feedback turns send the note they are about as their first file
+    const notePath = turn.userInput.type !== 'chat_message' ? turn.userInput.files?.[0]?.path : undefined;
+
     // Only show processing indicator for streaming turns, not completed turns without content
     const shouldShowProcessing = !turn.steps.length && isStreaming;
 
     return (
         <div className={CSS_CLASSES.aiResponseElement}>
+            {turn.critics && <CriticTabs runs={turn.critics} active={activeRun ? activeTab : MERGED_TAB} onSelect={setActiveTab} />}
+
             {shouldShowProcessing && <ProcessingIndicator message="Processing" />}
-            
-            {turn.steps.map((step, index) => (
+            {waitingForCritics && isStreaming && <ProcessingIndicator message="Waiting for critics" />}
+
+            {activeRun?.error && (
+                <div className={CSS_CLASSES.responseContent}>
+                    <span className="nc-text-danger nc-selectable">
+                        Error: {activeRun.error}
+                    </span>
+                </div>
+            )}
+
+            {!waitingForCritics && steps.map((step, index) => (
                     <StepElement
                         key={index}
                         step={step}
-                        streamingState={getStreamingState(step, index, turn.steps.length)}
+                        streamingState={getStreamingState(step, index, steps.length)}
+                        notePath={notePath}
+                        suggestions={suggestions}
+                        decisions={decisions}
                     />
             ))}
             
@@ -285,6 +380,8 @@ export const FeedbackDisplayReact: React.FC<FeedbackDisplayProps> = ({
     isInferenceRunning,
     onRerun,
     scrollContainerRef,
+    suggestions,
+    decisions,
 }) => {
     const scrollToBottom = useCallback(() => {
         if (scrollContainerRef?.current) {
@@ -305,6 +402,8 @@ export const FeedbackDisplayReact: React.FC<FeedbackDisplayProps> = ({
                         turn={turn}
                         isStreaming={isInferenceRunning && !turn.isComplete}
                         onRerun={onRerun}
+                        suggestions={suggestions}
+                        decisions={decisions}
                     />
                 </React.Fragment>
             ))}
@@ -0,0 +1,279 @@
+import React from 'react';
+import { FeedbackItem, FeedbackItemDecision, FeedbackItemStatus, FeedbackSeverity } from 'types';
+import { FEEDBACK_SEVERITIES, FeedbackSortOrder, StructuredFeedback, sortFeedbackItems } from 'structuredFeedback';
+import { EditPlan } from 'suggestions';
+import { generateDiff } from 'diffs';
+import { DiffViewer } from './DiffViewer';
+
+const SORT_LABELS: Record<FeedbackSortOrder, string> = {
+    note: 'Order in note',
+    severity: 'Severity',
+    category: 'Category'
+};
+
+const ALL_CATEGORIES = '';
+
+export interface SuggestionControls {
+    /** Work out the edits that would apply the items' suggestions to a note, to preview them. */
+    plan: (notePath: string, items: FeedbackItem[]) => Promise<EditPlan>;
+    /** Make the planned edits; resolves to whether they were made. */
+    apply: (plan: EditPlan) => Promise<boolean>;
+}
+
+export interface FeedbackDecisionControls {
+    /** The writer's standing decision on an item, if any. */
+    decisionOf: (notePath: string, item: FeedbackItem) => FeedbackItemDecision | undefined;
+    decide: (notePath: string, item: FeedbackItem, status: FeedbackItemStatus, reason?: string) => Promise<void>;
+    /** Forget the decision, leaving the item open again. */
+    undo: (notePath: string, item: FeedbackItem) => Promise<void>;
+}
+
+interface FeedbackItemListProps {
+    feedback: StructuredFeedback;
+    notePath?: string; // The note the feedback is about
+    suggestions?: SuggestionControls;
+    decisions?: FeedbackDecisionControls;
+}
+
+const DECISION_LABELS: Record<FeedbackItemStatus, string> = {
+    accepted: '✓ Accepted',
+    dismissed: '✕ Dismissed',
+    deferred: '⏸ Deferred'
+};
+
+const truncate = (text: string, length = 60) => text.length > length ? `${text.slice(0, length)}…` : text;
+
+const SuggestionPreview: React.FC<{
+    plan: EditPlan;
+    onApply: () => void;
+    onCancel: () => void;
+}> = ({ plan, onApply, onCancel }) => {
+    const fuzzy = plan.edits.filter(edit => edit.fuzzy);
+    return (
+        <div className="nc-space-y-2 nc-border nc-rounded nc-p-2">
+            {fuzzy.length > 0 && (
+                <div className="nc-text-xs nc-text-error">
+                    ⚠️ {fuzzy.length === 1 ? 'A quote no longer matches' : `${fuzzy.length} quotes no longer match`} the note exactly, so the closest text will be replaced. Check the preview before applying.
+                </div>
+            )}
+            {plan.skipped.map((skipped, index) => (
+                <div key={index} className="nc-text-xs nc-text-muted">
+                    Skipped “{truncate(skipped.item.quote)}”: {skipped.reason}.
+                </div>
+            ))}
+            {plan.edits.length > 0 && (
+                <div className="nc-max-h-48 nc-overflow-y-auto">
+                    <DiffViewer diff={generateDiff(plan.before, plan.after, 'word')} />
+                </div>
+            )}
+            <div className="nc-flex nc-gap-2">
+                <button className="nc-btn nc-btn--primary nc-btn--sm" disabled={plan.edits.length === 0} onClick={onApply}>
+                    Apply {plan.edits.length} edit{plan.edits.length === 1 ? '' : 's'}
+                </button>
+                <button className="nc-btn nc-btn--secondary nc-btn--sm" onClick={onCancel}>
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const DecisionControls: React.FC<{
+    decision: FeedbackItemDecision | undefined;
+    onDecide: (status: FeedbackItemStatus, reason?: string) => void;
+    onUndo: () => void;
+}> = ({ decision, onDecide, onUndo }) => {
+    const [dismissing, setDismissing] = React.useState(false);
+    const [reason, setReason] = React.useState('');
+
+    if (decision) {
+        return (
+            <div className="nc-flex nc-items-center nc-gap-2 nc-text-xs nc-text-muted">
+                <span>{DECISION_LABELS[decision.status]}{decision.reason && `: ${decision.reason}`}</span>
+                <button className="nc-btn nc-btn--secondary nc-btn--xs" title="Forget this decision" onClick={onUndo}>
+                    Undo
+                </button>
+            </div>
+        );
+    }
+
+    if (dismissing) {
+        const dismiss = () => {
+            onDecide('dismissed', reason);
+            setDismissing(false);
+        };
+        return (
+            <div className="nc-flex nc-items-center nc-gap-2">
+                <input
+                    type="text"
+                    className="nc-flex-1 nc-min-w-0"
+                    placeholder="Why? (optional)"
+                    value={reason}
+                    autoFocus
+                    onChange={(e) => setReason(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') dismiss();
+                        if (e.key === 'Escape') setDismissing(false);
+                    }}
+                />
+                <button className="nc-btn nc-btn--danger nc-btn--xs" onClick={dismiss}>Dismiss</button>
+                <button className="nc-btn nc-btn--secondary nc-btn--xs" onClick={() => setDismissing(false)}>Cancel</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="nc-flex nc-items-center nc-gap-2">
+            <button className="nc-btn nc-btn--secondary nc-btn--xs" title="Agree with this feedback" onClick={() => onDecide('accepted')}>
+                Accept
+            </button>
+            <button className="nc-btn nc-btn--secondary nc-btn--xs" title="Reject this feedback; the critic won't raise it again" onClick={() => setDismissing(true)}>
+                Dismiss
+            </button>
+            <button className="nc-btn nc-btn--secondary nc-btn--xs" title="Come back to this later" onClick={() => onDecide('deferred')}>
+                Defer
+            </button>
+        </div>
+    );
+};
+
+export const FeedbackItemList: React.FC<FeedbackItemListProps> = ({ feedback, notePath, suggestions, decisions }) => {
+    const { items, errors } = feedback;
+    const [sortOrder, setSortOrder] = React.useState<FeedbackSortOrder>('note');
+    const [hiddenSeverities, setHiddenSeverities] = React.useState<FeedbackSeverity[]>([]);
+    const [category, setCategory] = React.useState(ALL_CATEGORIES);
+    // Items are reparsed on every render, so they are tracked by their position in the reply
+    const [applied, setApplied] = React.useState<number[]>([]);
+    const [pending, setPending] = React.useState<{ plan: EditPlan; indices: number[] } | null>(null);
+
+    const categories = Array.from(new Set(items.map(item => item.category))).sort();
+    const countOf = (severity: FeedbackSeverity) => items.filter(item => item.severity === severity).length;
+
+    const toggleSeverity = (severity: FeedbackSeverity) => {
+        setHiddenSeverities(hidden => hidden.includes(severity)
+            ? hidden.filter(s => s !== severity)
+            : [...hidden, severity]);
+    };
+
+    const shown = sortFeedbackItems(items, sortOrder).filter(item =>
+        !hiddenSeverities.includes(item.severity) &&
+        (category === ALL_CATEGORIES || item.category === category));
+
+    const decisionOf = (item: FeedbackItem) => decisions && notePath ? decisions.decisionOf(notePath, item) : undefined;
+
+    const canApply = (item: FeedbackItem) => !!suggestions && !!notePath &&
+        item.suggestedReplacement !== undefined && !!item.quote.trim() && !applied.includes(items.indexOf(item)) &&
+        decisionOf(item)?.status !== 'dismissed';
+    const applicable = shown.filter(canApply);
+
+    const handlePreview = async (selected: FeedbackItem[]) => {
+        if (!suggestions || !notePath) return;
+        const plan = await suggestions.plan(notePath, selected);
+        setPending({ plan, indices: plan.edits.map(edit => items.indexOf(edit.item)) });
+    };
+
+    const handleApply = async () => {
+        if (!suggestions || !pending) return;
+        if (await suggestions.apply(pending.plan)) {
+            setApplied(previous => [...previous, ...pending.indices]);
+        }
+        setPending(null);
+    };
+
+    return (
+        <div className="nc-space-y-2">
+            {items.length === 0 ? (
+                <div className="nc-text-sm nc-text-muted">No issues found.</div>
+            ) : (
+                <>
+                    <div className="nc-flex nc-items-center nc-gap-2 nc-text-sm">
+                        {FEEDBACK_SEVERITIES.filter(severity => countOf(severity) > 0).map(severity => (
+                            <button
+                                key={severity}
+                                className={`nc-btn nc-btn--xs ${hiddenSeverities.includes(severity) ? 'nc-btn--secondary' : 'nc-btn--primary'}`}
+                                title={hiddenSeverities.includes(severity) ? `Show ${severity} issues` : `Hide ${severity} issues`}
+                                onClick={() => toggleSeverity(severity)}
+                            >
+                                {severity} ({countOf(severity)})
+                            </button>
+                        ))}
+                    </div>
+                    <div className="nc-flex nc-items-center nc-gap-2 nc-text-sm">
+                        <select className="dropdown nc-flex-1 nc-min-w-0" value={category} onChange={(e) => setCategory(e.target.value)}>
+                            <option value={ALL_CATEGORIES}>All categories</option>
+                            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                        <select className="dropdown nc-flex-1 nc-min-w-0" value={sortOrder} onChange={(e) => setSortOrder(e.target.value as FeedbackSortOrder)}>
+                            {Object.entries(SORT_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                        {applicable.length > 1 && (
+                            <button
+                                className="nc-btn nc-btn--secondary nc-btn--sm"
+                                title="Preview and apply every suggested replacement shown"
+                                onClick={() => handlePreview(applicable)}
+                            >
+                                Apply all ({applicable.length})
+                            </button>
+                        )}
+                    </div>
+
+                    {pending && (
+                        <SuggestionPreview plan={pending.plan} onApply={handleApply} onCancel={() => setPending(null)} />
+                    )}
+
+                    {shown.length === 0 && (
+                        <div className="nc-text-sm nc-text-muted">No issues match the filters.</div>
+                    )}
+                    {shown.map((item, index) => (
+                        <div
+                            key={index}
+                            className={`nc-feedback-item nc-feedback-severity--${item.severity}${decisionOf(item)?.status === 'dismissed' ? ' nc-feedback-item--dismissed' : ''}`}
+                        >
+                            <div className="nc-flex nc-items-center nc-gap-2 nc-text-xs nc-text-muted">
+                                <span className="nc-feedback-severity">{item.severity}</span>
+                                <span>{item.category}</span>
+                                {item.critics && <span className="nc-feedback-critics">{item.critics.join(', ')}</span>}
+                            </div>
+                            {item.quote && <blockquote className="nc-feedback-quote nc-selectable">{item.quote}</blockquote>}
+                            <div className="nc-text-sm nc-selectable">{item.explanation}</div>
+                            {item.suggestedReplacement !== undefined && (
+                                <div className="nc-text-sm nc-selectable">
+                                    <span className="nc-text-muted">Suggested: </span>{item.suggestedReplacement}
+                                </div>
+                            )}
+                            {applied.includes(items.indexOf(item)) ? (
+                                <div className="nc-text-xs nc-text-success">✓ Applied</div>
+                            ) : canApply(item) && (
+                                <button
+                                    className="nc-btn nc-btn--secondary nc-btn--xs"
+                                    title="Preview and apply the suggested replacement"
+                                    onClick={() => handlePreview([item])}
+                                >
+                                    Apply
+                                </button>
+                            )}
+                            {decisions && notePath && !applied.includes(items.indexOf(item)) && (
+                                <DecisionControls
+                                    decision={decisionOf(item)}
+                                    onDecide={(status, reason) => decisions.decide(notePath, item, status, reason)}
+                                    onUndo={() => decisions.undo(notePath, item)}
+                                />
+                            )}
+                        </div>
+                    ))}
+                </>
+            )}
+
+            {errors.length > 0 && (
+                <details className="nc-text-xs nc-text-muted">
+                    <summary>{errors.length} problem{errors.length === 1 ? '' : 's'} with the reply; some issues were left out</summary>
+                    <ul>
+                        {errors.map((error, index) => <li key={index}>{error}</li>)}
+                    </ul>
+                </details>
+            )}
+        </div>
+    );
+};
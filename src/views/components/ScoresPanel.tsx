@@ -0,0 +1,181 @@
+import React from 'react';
+import { NoteScore } from 'types';
+import { LowScoringNote, MAX_RUBRIC_SCORE, MIN_RUBRIC_SCORE } from 'scores';
+
+/** How far back "recently edited" reaches, in days. */
+export const RECENT_EDIT_WINDOWS = [7, 30, 90];
+
+export interface ScoreControls {
+    notePath: string | null;
+    history: NoteScore[]; // The note's scores, oldest first
+    lowest: LowScoringNote[];
+    days: number;
+    onDaysChange: (days: number) => void;
+    onOpenNote: (path: string) => void;
+    onImport: () => Promise<void>;
+}
+
+interface ScoresPanelProps {
+    controls: ScoreControls;
+}
+
+const OVERALL = 'overall';
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 24;
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+const formatDate = (time: number) => new Date(time).toLocaleDateString();
+const seriesColor = (index: number) => `hsl(${(index * 137) % 360}, 60%, 55%)`;
+
+/** Criteria scored in any of the reviews, in the order they first appear. */
+const criteriaOf = (history: NoteScore[]) =>
+    Array.from(new Set(history.flatMap(score => Object.keys(score.scores))));
+
+/** A line per criterion and a heavier one for the overall score, over the note's reviews. */
+const ScoreChart: React.FC<{ history: NoteScore[] }> = ({ history }) => {
+    const criteria = criteriaOf(history);
+    const x = (index: number) => history.length === 1
+        ? CHART_WIDTH / 2
+        : CHART_PADDING + index * (CHART_WIDTH - 2 * CHART_PADDING) / (history.length - 1);
+    const y = (score: number) => CHART_HEIGHT - CHART_PADDING -
+        (score - MIN_RUBRIC_SCORE) * (CHART_HEIGHT - 2 * CHART_PADDING) / (MAX_RUBRIC_SCORE - MIN_RUBRIC_SCORE);
+
+    const line = (value: (score: NoteScore) => number | undefined) => history
+        .map((score, index) => ({ index, value: value(score) }))
+        .filter((point): point is { index: number; value: number } => point.value !== undefined)
+        .map(point => `${x(point.index)},${y(point.value)}`)
+        .join(' ');
+
+    return (
+        <div className="nc-space-y-1">
+            <svg className="nc-score-chart" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img" aria-label="Scores by review">
+                {[MIN_RUBRIC_SCORE, (MIN_RUBRIC_SCORE + MAX_RUBRIC_SCORE) / 2, MAX_RUBRIC_SCORE].map(level => (
+                    <g key={level}>
+                        <line className="nc-score-chart__grid" x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(level)} y2={y(level)} />
+                        <text className="nc-score-chart__label" x={4} y={y(level) + 4}>{level}</text>
+                    </g>
+                ))}
+                {criteria.map((criterion, index) => (
+                    <polyline key={criterion} className="nc-score-chart__line" stroke={seriesColor(index)} points={line(score => score.scores[criterion])} />
+                ))}
+                <polyline className="nc-score-chart__line nc-score-chart__line--overall" points={line(score => score.overall)} />
+                {history.map((score, index) => (
+                    <circle key={index} className="nc-score-chart__point" cx={x(index)} cy={y(score.overall)} r={3}>
+                        <title>{`${formatTime(score.reviewedAt)}: ${score.overall}`}</title>
+                    </circle>
+                ))}
+            </svg>
+            <div className="nc-score-legends nc-text-xs nc-text-muted">
+                <span className="nc-score-legend nc-score-legend--overall">{OVERALL}</span>
+                {criteria.map((criterion, index) => (
+                    <span key={criterion} className="nc-score-legend" style={{ borderColor: seriesColor(index) }}>{criterion}</span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const NoteHistory: React.FC<{ notePath: string | null; history: NoteScore[] }> = ({ notePath, history }) => {
+    if (!notePath) {
+        return <div className="nc-text-sm nc-text-muted">Open a note to see how its scores changed.</div>;
+    }
+    if (history.length === 0) {
+        return <div className="nc-text-sm nc-text-muted">This note hasn't been scored yet.</div>;
+    }
+
+    const latest = history[history.length - 1];
+    const first = history[0];
+    const change = Math.round((latest.overall - first.overall) * 10) / 10;
+    return (
+        <div className="nc-space-y-2">
+            <div className="nc-text-sm">
+                Latest: <strong>{latest.overall}</strong>/{MAX_RUBRIC_SCORE}
+                {history.length > 1 && (
+                    <span className="nc-text-muted"> ({change >= 0 ? '+' : ''}{change} over {history.length} reviews)</span>
+                )}
+            </div>
+            <ScoreChart history={history} />
+        </div>
+    );
+};
+
+const LowestScoringTable: React.FC<{ controls: ScoreControls }> = ({ controls }) => {
+    const { lowest, days, onDaysChange, onOpenNote } = controls;
+    const criteria = Array.from(new Set(lowest.flatMap(note => Object.keys(note.score.scores))));
+
+    return (
+        <div className="nc-space-y-2">
+            <div className="nc-flex nc-items-center nc-gap-2 nc-text-sm">
+                <span className="nc-flex-1">Lowest scoring notes edited in the last</span>
+                <select className="dropdown" value={days} onChange={(e) => onDaysChange(Number(e.target.value))}>
+                    {RECENT_EDIT_WINDOWS.map(window => (
+                        <option key={window} value={window}>{window} days</option>
+                    ))}
+                </select>
+            </div>
+            {lowest.length === 0 ? (
+                <div className="nc-text-sm nc-text-muted">No scored notes were edited in this time.</div>
+            ) : (
+                <table className="nc-score-table nc-text-xs">
+                    <thead>
+                        <tr>
+                            <th>Note</th>
+                            <th>{OVERALL}</th>
+                            {criteria.map(criterion => <th key={criterion}>{criterion}</th>)}
+                            <th>Edited</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {lowest.map(note => (
+                            <tr key={note.path}>
+                                <td>
+                                    <a className="nc-score-table__note" title={note.path} onClick={() => onOpenNote(note.path)}>
+                                        {note.path.split('/').pop()?.replace(/\.md$/, '')}
+                                    </a>
+                                </td>
+                                <td><strong>{note.score.overall}</strong></td>
+                                {criteria.map(criterion => <td key={criterion}>{note.score.scores[criterion] ?? '–'}</td>)}
+                                <td>{formatDate(note.editedAt)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export const ScoresPanel: React.FC<ScoresPanelProps> = ({ controls }) => {
+    const [importing, setImporting] = React.useState(false);
+
+    const handleImport = async () => {
+        setImporting(true);
+        try {
+            await controls.onImport();
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    return (
+        <div className="nc-p-4 nc-space-y-4">
+            <section className="nc-space-y-2">
+                <h4 className="nc-m-0">This note</h4>
+                <NoteHistory notePath={controls.notePath} history={controls.history} />
+            </section>
+            <section className="nc-space-y-2">
+                <h4 className="nc-m-0">Vault</h4>
+                <LowestScoringTable controls={controls} />
+            </section>
+            <button
+                className="nc-btn nc-btn--secondary nc-btn--sm"
+                title="Add the scores of reviews in saved conversations that aren't recorded yet"
+                disabled={importing}
+                onClick={handleImport}
+            >
+                {importing ? 'Importing…' : 'Import scores from conversations'}
+            </button>
+        </div>
+    );
+};
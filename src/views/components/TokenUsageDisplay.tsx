@@ -56,13 +56,15 @@ const DetailedView: React.FC<DetailedViewProps> = ({
         outputTokens: displayTokens.totalOutputTokens,
         totalTokens: displayTokens.totalTokens
     }, currentModel);
+    const criticTokens = conversationTokens ? tokenTracker.getCriticTokens(conversationTokens.conversationId) : [];
 
     return (
         <div 
             ref={popupRef} 
             className="nc-card nc-absolute nc-z-1000 nc-bg-primary nc-border nc-rounded-lg nc-shadow-md nc-text-sm nc-left-0 nc-p-3"
             style={{
-                top: '-220px',
+                // Grows upwards, as the per-critic breakdown makes its height vary
+                bottom: '100%',
                 minWidth: '200px',
                 maxWidth: '250px'
             }}
@@ -106,6 +108,17 @@ const DetailedView: React.FC<DetailedViewProps> = ({
                             </div>
                         </div>
                     )}
+                    {criticTokens.length > 0 && (
+                        <div className="nc-mt-1 nc-pt-1 nc-border-t nc-space-y-1">
+                            <div className="nc-font-medium nc-text-xs nc-text-muted">By critic</div>
+                            {criticTokens.map(({ critic, usage }) => (
+                                <div key={critic} className="nc-flex nc-justify-between nc-gap-2">
+                                    <span className="nc-truncate">{critic}:</span>
+                                    <span>{tokenTracker.formatTokenCount(usage.totalTokens)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -1,6 +1,7 @@
 import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import { FileManager } from '../src/FileManager';
 import { NoteSnapshot } from '../src/types';
+import { emptyChangeMetrics, measureChanges } from '../src/diffs';
 
 // Mock Obsidian modules
 jest.mock('obsidian', () => ({
@@ -103,7 +104,8 @@ describe('FileManager', () => {
       expect(snapshot).toEqual({
         baseline: content,
         current: content,
-        changeCount: 0
+        changeCount: 0,
+        changes: emptyChangeMetrics()
       });
 
       expect(onFileChangeMock).toHaveBeenCalledWith(mockFile);
@@ -126,40 +128,132 @@ describe('FileManager', () => {
     });
   });
 
+  describe('with a snapshot store', () => {
+    let snapshotStore: any;
+
+    beforeEach(() => {
+      snapshotStore = {
+        load: jest.fn(async () => undefined),
+        get: jest.fn(),
+        saveBaseline: jest.fn(async () => undefined)
+      };
+      fileManager = new FileManager(mockApp, noteSnapshots, onFileChangeMock, snapshotStore);
+    });
+
+    it('should resume from the stored baseline instead of the current content', async () => {
+      snapshotStore.get.mockReturnValue({ path: 'test.md', baseline: 'Reviewed content', updatedAt: 0 });
+      mockApp.vault.cachedRead.mockResolvedValue('Reviewed content\n\nWritten since');
+
+      await fileManager.initializeFileSnapshot(mockFile);
+
+      const snapshot = noteSnapshots.get('test.md');
+      expect(snapshotStore.load).toHaveBeenCalled();
+      expect(snapshot?.baseline).toBe('Reviewed content');
+      expect(snapshot?.changeCount).toBe(1);
+      expect(snapshotStore.saveBaseline).not.toHaveBeenCalled();
+    });
+
+    it('should start from the current content when only a feedback time was stored', async () => {
+      snapshotStore.get.mockReturnValue({ path: 'test.md', lastFeedbackTime: 0, updatedAt: 0 });
+      mockApp.vault.cachedRead.mockResolvedValue('Current content');
+
+      await fileManager.initializeFileSnapshot(mockFile);
+
+      expect(noteSnapshots.get('test.md')?.changeCount).toBe(0);
+      expect(snapshotStore.saveBaseline).toHaveBeenCalledWith('test.md', 'Current content');
+    });
+
+    it('should persist the baseline of a note seen for the first time', async () => {
+      mockApp.vault.cachedRead.mockResolvedValue('Fresh content');
+
+      await fileManager.initializeFileSnapshot(mockFile);
+
+      expect(snapshotStore.saveBaseline).toHaveBeenCalledWith('test.md', 'Fresh content');
+    });
+
+    it('should persist the new baseline after feedback', () => {
+      noteSnapshots.set('test.md', {
+        baseline: 'Old baseline',
+        current: 'Reviewed content',
+        changeCount: 1,
+        changes: measureChanges('Old baseline', 'Reviewed content')
+      });
+
+      fileManager.updateFeedbackBaseline(mockFile);
+
+      expect(snapshotStore.saveBaseline).toHaveBeenCalledWith('test.md', 'Reviewed content');
+    });
+  });
+
+  describe('with normalisation', () => {
+    it('should not count changes the note is set to ignore', async () => {
+      fileManager = new FileManager(mockApp, noteSnapshots, onFileChangeMock, undefined, async () => ({ ignoreFrontmatter: true, ignoreWhitespace: true }));
+      mockApp.vault.cachedRead.mockResolvedValue('---\nupdated: 1\n---\nSome text\nwrapped here.');
+      await fileManager.initializeFileSnapshot(mockFile);
+
+      mockApp.vault.cachedRead.mockResolvedValue('---\nupdated: 2\n---\nSome text wrapped\nhere.   ');
+      const edited = await fileManager.updateFileSnapshot(mockFile);
+
+      expect(edited).toBe(0);
+      expect(noteSnapshots.get('test.md')?.changeCount).toBe(0);
+      expect(noteSnapshots.get('test.md')?.current).toContain('updated: 2');
+    });
+  });
+
   describe('updateFileSnapshot', () => {
     beforeEach(() => {
       // Initialize a snapshot first
       noteSnapshots.set('test.md', {
         baseline: 'Original content',
         current: 'Old content\n\nSecond paragraph',
-        changeCount: 5
+        changeCount: 2,
+        changes: measureChanges('Original content', 'Old content\n\nSecond paragraph')
       });
     });
 
-    it('should update snapshot and return paragraph difference', async () => {
+    it('should update snapshot and return the paragraphs changed by the edit', async () => {
       const newContent = 'New content\n\nSecond paragraph\n\nThird paragraph\n\nFourth paragraph';
       mockApp.vault.cachedRead.mockResolvedValue(newContent);
 
       const paragraphDiff = await fileManager.updateFileSnapshot(mockFile);
 
-      expect(paragraphDiff).toBe(2); // 4 paragraphs - 2 paragraphs = 2 difference
+      expect(paragraphDiff).toBe(3); // 1 rewritten + 2 added
 
       const snapshot = noteSnapshots.get('test.md');
       expect(snapshot?.current).toBe(newContent);
-      expect(snapshot?.changeCount).toBe(7); // 5 + 2
+      // Measured against the baseline: 1 rewritten + 3 added
+      expect(snapshot?.changeCount).toBe(4);
+      expect(snapshot?.changes).toMatchObject({
+        addedParagraphs: 3,
+        removedParagraphs: 0,
+        modifiedParagraphs: 1,
+        changedParagraphs: 4
+      });
     });
 
-    it('should handle content with no paragraph change', async () => {
+    it('should count paragraphs rewritten in place', async () => {
       const newContent = 'Different content\n\nStill two paragraphs';
       mockApp.vault.cachedRead.mockResolvedValue(newContent);
 
       const paragraphDiff = await fileManager.updateFileSnapshot(mockFile);
 
-      expect(paragraphDiff).toBe(0); // 2 paragraphs - 2 paragraphs = 0 difference
+      expect(paragraphDiff).toBe(2);
 
       const snapshot = noteSnapshots.get('test.md');
       expect(snapshot?.current).toBe(newContent);
-      expect(snapshot?.changeCount).toBe(5); // 5 + 0
+      expect(snapshot?.changes.modifiedParagraphs).toBe(1);
+      expect(snapshot?.changes.addedParagraphs).toBe(1);
+      expect(snapshot?.changes.changedWords).toBe(4); // 'Original' -> 'Different' + 3 new words
+    });
+
+    it('should drop the change count when edits are reverted', async () => {
+      mockApp.vault.cachedRead.mockResolvedValue('Original content');
+
+      await fileManager.updateFileSnapshot(mockFile);
+
+      const snapshot = noteSnapshots.get('test.md');
+      expect(snapshot?.changeCount).toBe(0);
+      expect(snapshot?.changes).toEqual(emptyChangeMetrics());
     });
 
     it('should return 0 when snapshot does not exist', async () => {
@@ -185,21 +279,6 @@ describe('FileManager', () => {
     });
   });
 
-  describe('countParagraphs', () => {
-    it('should count paragraphs correctly', () => {
-      // Access the private method through bracket notation for testing
-      const countParagraphs = (fileManager as any).countParagraphs.bind(fileManager);
-
-      expect(countParagraphs('Single paragraph')).toBe(1);
-      expect(countParagraphs('First paragraph\n\nSecond paragraph')).toBe(2);
-      expect(countParagraphs('One\nTwo\nThree')).toBe(3);
-      expect(countParagraphs('Line 1\n\n\nLine 2\n\n\n\nLine 3')).toBe(3);
-      expect(countParagraphs('')).toBe(0);
-      expect(countParagraphs('\n\n\n')).toBe(0);
-      expect(countParagraphs('Content\n\n\n  \n\nMore content')).toBe(2);
-    });
-  });
-
   describe('hasChangesToFeedback', () => {
     it('should return false when file is null', () => {
       expect(fileManager.hasChangesToFeedback(null)).toBe(false);
@@ -214,7 +293,8 @@ describe('FileManager', () => {
       noteSnapshots.set('test.md', {
         baseline: content,
         current: content,
-        changeCount: 0
+        changeCount: 0,
+        changes: emptyChangeMetrics()
       });
 
       expect(fileManager.hasChangesToFeedback(mockFile)).toBe(false);
@@ -224,7 +304,8 @@ describe('FileManager', () => {
       noteSnapshots.set('test.md', {
         baseline: 'Original content',
         current: 'Modified content',
-        changeCount: 1
+        changeCount: 1,
+        changes: measureChanges('Original content', 'Modified content')
       });
 
       expect(fileManager.hasChangesToFeedback(mockFile)).toBe(true);
@@ -236,7 +317,8 @@ describe('FileManager', () => {
       noteSnapshots.set('test.md', {
         baseline: 'Original content',
         current: 'Modified content',
-        changeCount: 5
+        changeCount: 5,
+        changes: measureChanges('Original content', 'Modified content')
       });
 
       fileManager.clearNoteData(mockFile);
@@ -244,6 +326,7 @@ describe('FileManager', () => {
       const snapshot = noteSnapshots.get('test.md');
       expect(snapshot?.baseline).toBe('Modified content');
       expect(snapshot?.changeCount).toBe(0);
+      expect(snapshot?.changes).toEqual(emptyChangeMetrics());
     });
 
     it('should handle missing snapshots gracefully', () => {
@@ -256,7 +339,8 @@ describe('FileManager', () => {
       noteSnapshots.set('test.md', {
         baseline: 'Old baseline',
         current: 'Current content after feedback',
-        changeCount: 10
+        changeCount: 10,
+        changes: measureChanges('Old baseline', 'Current content after feedback')
       });
 
       fileManager.updateFeedbackBaseline(mockFile);
@@ -264,6 +348,7 @@ describe('FileManager', () => {
       const snapshot = noteSnapshots.get('test.md');
       expect(snapshot?.baseline).toBe('Current content after feedback');
       expect(snapshot?.changeCount).toBe(0);
+      expect(snapshot?.changes).toEqual(emptyChangeMetrics());
     });
 
     it('should handle missing snapshots gracefully', () => {
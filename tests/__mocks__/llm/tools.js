@@ -42,6 +42,9 @@ module.exports = {
   ObsidianTextEditorTool: jest.fn().mockImplementation(() => ({
     executeCommand: mockExecuteCommand
   })),
+  MemoryTool: jest.fn().mockImplementation(() => ({
+    executeCommand: mockExecuteCommand
+  })),
   TextEditorCommand: jest.fn(),
   ViewCommand: jest.fn(),
   StrReplaceCommand: jest.fn(),
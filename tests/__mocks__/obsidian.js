@@ -52,6 +52,18 @@ module.exports = {
   },
   
   Notice: jest.fn(),
+
+  parseYaml: (text) => require('js-yaml').load(text),
+
+  stringifyYaml: (obj) => require('js-yaml').dump(obj),
+
+  getAllTags: (cache) => {
+    const frontmatterTags = [cache.frontmatter?.tags, cache.frontmatter?.tag]
+      .flatMap(tags => Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(/[,\s]+/) : [])
+      .filter(Boolean)
+      .map(tag => tag.startsWith('#') ? tag : `#${tag}`);
+    return [...frontmatterTags, ...(cache.tags ?? []).map(tag => tag.tag)];
+  },
   
   TFile: class TFile {
     constructor(path) {
@@ -61,6 +73,14 @@ module.exports = {
     }
   },
   
+  TFolder: class TFolder {
+    constructor(path) {
+      this.path = path || '/';
+      this.name = path ? path.split('/').pop() : '';
+      this.children = [];
+    }
+  },
+  
   WorkspaceLeaf: class WorkspaceLeaf {
     constructor() {
       this.detach = jest.fn();
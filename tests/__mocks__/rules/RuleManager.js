@@ -11,6 +11,11 @@ module.exports = {
     getMatchingRules: jest.fn(() => []),
     getEffectiveConfig: jest.fn(() => Promise.resolve({})),
     shouldAutoTrigger: jest.fn(() => Promise.resolve(false)),
+    addListener: jest.fn(() => () => {}),
+    handleFileChange: jest.fn(() => Promise.resolve()),
+    handleDelete: jest.fn(() => Promise.resolve()),
+    handleRename: jest.fn(() => Promise.resolve()),
+    handleFolderCreate: jest.fn(() => Promise.resolve()),
     getFeedbackPrompt: jest.fn(() => Promise.resolve('Mock feedback prompt for ${notePath}: ${diff}'))
   }))
 };
\ No newline at end of file
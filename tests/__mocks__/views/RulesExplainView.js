@@ -0,0 +1,32 @@
+// Mock RulesExplainView
+class MockRulesExplainView {
+  constructor(leaf, plugin) {
+    this.leaf = leaf;
+    this.plugin = plugin;
+    this.containerEl = document.createElement('div');
+  }
+
+  getViewType() {
+    return 'notes-critic-rules-explain';
+  }
+
+  getDisplayText() {
+    return 'Effective Rules';
+  }
+
+  getIcon() {
+    return 'list-tree';
+  }
+
+  onOpen() {
+    return Promise.resolve();
+  }
+
+  onClose() {
+    return Promise.resolve();
+  }
+}
+
+module.exports = {
+  RulesExplainView: MockRulesExplainView
+};
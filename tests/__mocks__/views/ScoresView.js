@@ -0,0 +1,32 @@
+// Mock ScoresView
+class MockScoresView {
+  constructor(leaf, plugin) {
+    this.leaf = leaf;
+    this.plugin = plugin;
+    this.containerEl = document.createElement('div');
+  }
+
+  getViewType() {
+    return 'notes-critic-scores';
+  }
+
+  getDisplayText() {
+    return 'Note Scores';
+  }
+
+  getIcon() {
+    return 'line-chart';
+  }
+
+  onOpen() {
+    return Promise.resolve();
+  }
+
+  onClose() {
+    return Promise.resolve();
+  }
+}
+
+module.exports = {
+  ScoresView: MockScoresView
+};
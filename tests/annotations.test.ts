@@ -0,0 +1,96 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseAnnotations, stripAnnotations, anchorAnnotations, locateQuote } from '../src/annotations';
+
+const reply = (block: string) => `The draft reads well overall.
+
+\`\`\`notes-critic-annotations
+${block}
+\`\`\``;
+
+describe('annotations', () => {
+  describe('parseAnnotations', () => {
+    it('should read one JSON object per line', () => {
+      const annotations = parseAnnotations(reply([
+        '{"quote": "very unique", "comment": "Unique cannot be graded"}',
+        '{"lines": [3, 4], "comment": "This paragraph repeats the intro"}'
+      ].join('\n')));
+
+      expect(annotations).toEqual([
+        { quote: 'very unique', comment: 'Unique cannot be graded' },
+        { lines: [3, 4], comment: 'This paragraph repeats the intro' }
+      ]);
+    });
+
+    it('should read a JSON array', () => {
+      const annotations = parseAnnotations(reply('[{"quote": "a", "comment": "b"}, {"lines": [2], "comment": "c"}]'));
+
+      expect(annotations).toEqual([{ quote: 'a', comment: 'b' }, { lines: [2, 2], comment: 'c' }]);
+    });
+
+    it('should skip entries without a comment or anchor, or that are not JSON', () => {
+      const annotations = parseAnnotations(reply([
+        '{"quote": "no comment"}',
+        '{"comment": "no anchor"}',
+        '{"lines": [0, 2], "comment": "bad lines"}',
+        'not json',
+        '{"quote": "kept", "comment": "fine"}'
+      ].join('\n')));
+
+      expect(annotations).toEqual([{ quote: 'kept', comment: 'fine' }]);
+    });
+
+    it('should return nothing for replies without a block', () => {
+      expect(parseAnnotations('Just prose, no anchors.')).toEqual([]);
+    });
+  });
+
+  describe('stripAnnotations', () => {
+    it('should remove the block from the reply', () => {
+      expect(stripAnnotations(reply('{"quote": "a", "comment": "b"}'))).toBe('The draft reads well overall.');
+    });
+
+    it('should remove a block that is still being streamed', () => {
+      expect(stripAnnotations('Overall fine.\n\n```notes-critic-annotations\n{"quote": "a", "com')).toBe('Overall fine.');
+    });
+  });
+
+  describe('locateQuote', () => {
+    it('should match across differences in whitespace', () => {
+      const text = 'Intro.\nThe quick\n  brown fox.';
+
+      expect(locateQuote(text, 'quick brown')).toEqual({ from: 11, to: 24 });
+    });
+
+    it('should prefer the occurrence closest to a position', () => {
+      const text = 'word one, word two, word three';
+
+      expect(locateQuote(text, 'word', 0)?.from).toBe(0);
+      expect(locateQuote(text, 'word', 18)?.from).toBe(20);
+    });
+
+    it('should return null when the quote is missing', () => {
+      expect(locateQuote('Some text', 'missing')).toBeNull();
+      expect(locateQuote('Some text', '   ')).toBeNull();
+    });
+  });
+
+  describe('anchorAnnotations', () => {
+    const note = '# Title\n\nFirst paragraph.\nStill first.\n\nSecond paragraph.';
+
+    it('should turn line ranges into quotes of those lines', () => {
+      const anchored = anchorAnnotations(note, [{ lines: [3, 4], comment: 'Merge these' }], 'test');
+
+      expect(anchored).toEqual([{ id: 'test-0', quote: 'First paragraph.\nStill first.', comment: 'Merge these' }]);
+    });
+
+    it('should drop annotations whose text is not in the note', () => {
+      const anchored = anchorAnnotations(note, [
+        { quote: 'Third paragraph', comment: 'Missing' },
+        { lines: [40, 41], comment: 'Out of range' },
+        { quote: 'Second paragraph', comment: 'Found' }
+      ], 'test');
+
+      expect(anchored).toEqual([{ id: 'test-2', quote: 'Second paragraph', comment: 'Found' }]);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from '@jest/globals';
+import { criticSettings, mergeCriticReports, mergeFeedbackItems } from '../src/critics';
+import { parseAnnotations, stripAnnotations } from '../src/annotations';
+import { parseStructuredFeedback } from '../src/structuredFeedback';
+import { parseScores } from '../src/scores';
+import { DEFAULT_SETTINGS } from '../src/constants';
+import { CriticPersona, FeedbackItem } from '../src/types';
+
+const critic = (overrides: Partial<CriticPersona> = {}): CriticPersona => ({
+  name: 'fact checker',
+  enabled: true,
+  prompt: 'Check every claim.',
+  filePath: '.notes-critic/critics/fact-checker.md',
+  ...overrides
+});
+
+const item = (overrides: Partial<FeedbackItem> = {}): FeedbackItem => ({
+  category: 'accuracy',
+  severity: 'minor',
+  quote: 'The moon is made of cheese.',
+  explanation: 'This is false.',
+  ...overrides
+});
+
+const structured = (items: FeedbackItem[]) => JSON.stringify({ items });
+
+describe('critics', () => {
+  describe('criticSettings', () => {
+    it('should add the persona to the system prompt and use its model', () => {
+      const settings = criticSettings(DEFAULT_SETTINGS, critic({ model: 'openai/gpt-4o' }));
+
+      expect(settings.model).toBe('openai/gpt-4o');
+      expect(settings.systemPrompt.startsWith(DEFAULT_SETTINGS.systemPrompt)).toBe(true);
+      expect(settings.systemPrompt).toContain('"fact checker" critic');
+      expect(settings.systemPrompt).toContain('Check every claim.');
+    });
+
+    it('should keep the note\'s model when the critic has none', () => {
+      expect(criticSettings(DEFAULT_SETTINGS, critic()).model).toBe(DEFAULT_SETTINGS.model);
+    });
+  });
+
+  describe('mergeFeedbackItems', () => {
+    it('should merge the same issue raised by several critics, keeping the most severe', () => {
+      const merged = mergeFeedbackItems([
+        { critic: 'fact checker', items: [item({ quote: 'made of cheese' })] },
+        { critic: 'structure editor', items: [item({ severity: 'critical', explanation: 'Wrong.' }), item({ category: 'style', quote: 'Intro' })] }
+      ]);
+
+      expect(merged).toHaveLength(2);
+      expect(merged[0].severity).toBe('critical');
+      expect(merged[0].explanation).toBe('Wrong.');
+      expect(merged[0].critics).toEqual(['fact checker', 'structure editor']);
+      expect(merged[1].critics).toEqual(['structure editor']);
+    });
+
+    it('should keep issues in different categories or on other text apart', () => {
+      const merged = mergeFeedbackItems([
+        { critic: 'a', items: [item(), item({ category: 'style' }), item({ quote: 'Something else.' })] }
+      ]);
+
+      expect(merged).toHaveLength(3);
+    });
+
+    it('should only merge whole-note issues that say the same thing', () => {
+      const merged = mergeFeedbackItems([
+        { critic: 'a', items: [item({ quote: '', explanation: 'Needs a conclusion.' })] },
+        { critic: 'b', items: [item({ quote: '', explanation: 'needs a  conclusion.' }), item({ quote: '', explanation: 'Too long.' })] }
+      ]);
+
+      expect(merged.map(merged => merged.critics)).toEqual([['a', 'b'], ['b']]);
+    });
+  });
+
+  describe('mergeCriticReports', () => {
+    it('should give structured feedback when every critic did', () => {
+      const report = mergeCriticReports([
+        { critic: 'a', response: structured([item()]) },
+        { critic: 'b', response: structured([item(), item({ category: 'style', quote: '' })]) }
+      ]);
+
+      const feedback = parseStructuredFeedback(report);
+      expect(feedback?.errors).toEqual([]);
+      expect(feedback?.items.map(merged => merged.critics)).toEqual([['a', 'b'], ['b']]);
+    });
+
+    it('should give a section per critic and one block of anchored comments otherwise', () => {
+      const report = mergeCriticReports([
+        {
+          critic: 'copy editor',
+          response: 'Tighten the prose.\n\n```notes-critic-annotations\n{"quote": "made of cheese", "comment": "Cliché."}\n```'
+        },
+        { critic: 'fact checker', response: structured([item()]) }
+      ]);
+
+      const text = stripAnnotations(report);
+      expect(text).toContain('## copy editor\n\nTighten the prose.');
+      expect(text).toContain('## fact checker\n\n- **minor · accuracy** "The moon is made of cheese.": This is false.');
+
+      const annotations = parseAnnotations(report);
+      expect(annotations).toHaveLength(1);
+      expect(annotations[0].quote).toBe('made of cheese');
+      expect(annotations[0].comment).toBe('copy editor: Cliché.\nfact checker: This is false.');
+    });
+
+    it('should average the critics\' scores', () => {
+      const scored = (items: FeedbackItem[], clarity: number) =>
+        JSON.stringify({ items, scores: [{ criterion: 'clarity', score: clarity }] });
+
+      const report = mergeCriticReports([
+        { critic: 'a', response: scored([item()], 6) },
+        { critic: 'b', response: scored([], 9) }
+      ]);
+      expect(parseStructuredFeedback(report)?.errors).toEqual([]);
+      expect(parseScores(report)).toEqual({ clarity: 7.5 });
+
+      const mixed = mergeCriticReports([
+        { critic: 'a', response: 'Fine.\n```notes-critic-scores\n{"clarity": 4}\n```' },
+        { critic: 'b', response: scored([], 8) }
+      ]);
+      expect(mixed).toContain('## a\n\nFine.\n\n## b');
+      expect(parseScores(mixed)).toEqual({ clarity: 6 });
+    });
+  });
+});
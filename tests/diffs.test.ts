@@ -1,5 +1,5 @@
 import { jest, describe, it, expect } from '@jest/globals';
-import { generateDiff, calculateDiffSize } from '../src/diffs';
+import { generateDiff, estimateTokens, calculateDiffSize, inlineDiff, tokenize, formatInlineSegments, parseInlineMarkup, measureChanges, changeSize, splitParagraphs, parseSections, summarizeSectionChanges, formatSectionSummary, formatChangedSections } from '../src/diffs';
 
 describe('Diff Generation', () => {
   describe('generateDiff', () => {
@@ -31,9 +31,65 @@ describe('Diff Generation', () => {
       expect(result).toContain('@@ -1,3 +1,2 @@');
       expect(result).toContain(' Line 1');
       expect(result).toContain('-Line 2');
-      // The algorithm shows this as a replacement rather than preserving Line 3 as context
-      expect(result).toContain('+Line 3');
-      expect(result).toContain('-Line 3');
+      expect(result).toContain(' Line 3');
+      expect(result).not.toContain('+Line 3');
+      expect(result).not.toContain('-Line 3');
+    });
+
+    it('should only show the inserted line when inserting at the top', () => {
+      const baseline = 'Line 1\nLine 2\nLine 3\nLine 4\nLine 5';
+      const current = 'New first line\n' + baseline;
+
+      const result = generateDiff(baseline, current);
+
+      expect(result).toBe('@@ -1,3 +1,4 @@\n+New first line\n Line 1\n Line 2\n Line 3');
+    });
+
+    it('should not mark every following line as changed after an insertion', () => {
+      const baselineLines = Array.from({ length: 50 }, (_, i) => `Line ${i + 1}`);
+      const currentLines = [...baselineLines.slice(0, 10), 'Inserted', ...baselineLines.slice(10)];
+
+      const result = generateDiff(baselineLines.join('\n'), currentLines.join('\n'));
+      const changed = result.split('\n').filter(line => /^[+-]/.test(line));
+
+      expect(changed).toEqual(['+Inserted']);
+      expect(result).toContain('@@ -8,6 +8,7 @@');
+    });
+
+    it('should replace the single empty line of an empty baseline', () => {
+      const result = generateDiff('', 'First\nSecond');
+
+      expect(result).toBe('@@ -1,1 +1,2 @@\n-\n+First\n+Second');
+    });
+
+    it('should annotate lines moved within the note', () => {
+      const baseline = 'Intro\nAlpha\nBeta\nGamma\nDelta\nOutro';
+      const current = 'Intro\nDelta\nAlpha\nBeta\nGamma\nOutro';
+
+      const result = generateDiff(baseline, current);
+
+      expect(result).toContain('+Delta\n\\ moved from line 5');
+      expect(result).toContain('-Delta\n\\ moved to line 2');
+    });
+
+    it('should not treat repeated or blank lines as moves', () => {
+      const baseline = 'A\n\nB\nx\nC\nx';
+      const current = 'x\nA\nB\n\nC';
+
+      const result = generateDiff(baseline, current);
+
+      expect(result).not.toContain('moved');
+    });
+
+    it('should fall back to a full replacement for very large rewrites', () => {
+      const baseline = Array.from({ length: 3000 }, (_, i) => `Old ${i}`).join('\n');
+      const current = Array.from({ length: 3000 }, (_, i) => `New ${i}`).join('\n');
+
+      const result = generateDiff(baseline, current);
+
+      expect(result.split('\n')[0]).toBe('@@ -1,3000 +1,3000 @@');
+      expect(result).toContain('-Old 2999');
+      expect(result).toContain('+New 0');
     });
 
     it('should generate diff for line modification', () => {
@@ -209,6 +265,128 @@ Context 9`;
     });
   });
 
+  describe('token budget', () => {
+    // Ten sections of twenty lines each, every other line rewritten
+    const sections = Array.from({ length: 10 }, (_, s) => [
+      `## Section ${s + 1}`,
+      ...Array.from({ length: 20 }, (_, l) => `Line ${l + 1} of section ${s + 1} with some filler text to make it longer`)
+    ]);
+    const baseline = sections.map(lines => lines.join('\n')).join('\n');
+    const current = sections
+      .map(lines => lines.map((line, l) => l % 2 === 0 && l > 0 ? `${line}, now edited` : line).join('\n'))
+      .join('\n');
+
+    it('should estimate about four characters per token', () => {
+      expect(estimateTokens('')).toBe(0);
+      expect(estimateTokens('abcd')).toBe(1);
+      expect(estimateTokens('abcde')).toBe(2);
+    });
+
+    it('should leave diffs within the budget untouched', () => {
+      expect(generateDiff(baseline, current, 'line', 100000)).toBe(generateDiff(baseline, current));
+    });
+
+    it('should shorten diffs over the budget and say what was omitted', () => {
+      const full = generateDiff(baseline, current);
+      const result = generateDiff(baseline, current, 'line', 1000);
+
+      expect(estimateTokens(full)).toBeGreaterThan(1000);
+      expect(estimateTokens(result)).toBeLessThanOrEqual(1000);
+      expect(result).toMatch(/^\[Diff shortened to fit 1000 tokens: unchanged context lines were left out, and the last \d+ of 100 changes \(\d+ lines added, \d+ removed\) are not shown/);
+      expect(result).toContain('Changed sections:\n## Section 1: 10 paragraphs rewritten');
+      expect(result).toContain('## Section 10: 10 paragraphs rewritten');
+      expect(result).toContain('@@ -3,1 +3,1 @@\n-Line 2 of section 1');
+      expect(result).not.toContain(' Line 1 of section 1');
+    });
+
+    it('should cut the section summary to fit when it alone is over the budget', () => {
+      const small = Array.from({ length: 200 }, (_, s) => `## S${s}\nText ${s}`).join('\n');
+      const edited = small.replace(/Text (\d+)/g, 'Edited $1');
+
+      const result = generateDiff(small, edited, 'line', 150);
+
+      expect(estimateTokens(result)).toBeLessThanOrEqual(150);
+      expect(result).toContain('The section summary lists only the first changed sections.');
+      expect(result).toContain('Changed sections:\n## S0: ');
+      expect(result).toMatch(/\n…and \d+ more sections/);
+      expect(result).not.toContain('## S199: ');
+    });
+
+    it('should keep every change when dropping the context is enough', () => {
+      const full = generateDiff(baseline, current);
+      const result = generateDiff(baseline, current, 'line', Math.ceil(estimateTokens(full) * 0.9));
+
+      expect(result).toMatch(/^\[Diff shortened to fit \d+ tokens: unchanged context lines were left out\. /);
+      expect(result.match(/^@@/gm)).toHaveLength(100);
+    });
+  });
+
+  describe('word granularity', () => {
+    it('should mark only the changed words of an edited line', () => {
+      const baseline = 'Intro\nThe quick brown fox jumps over the lazy dog.\nOutro';
+      const current = 'Intro\nThe quick red fox jumps over the lazy dog.\nOutro';
+
+      const result = generateDiff(baseline, current, 'word');
+
+      expect(result).toBe('@@ -1,3 +1,3 @@\n Intro\n~The quick [-brown-]{+red+} fox jumps over the lazy dog.\n Outro');
+    });
+
+    it('should merge adjacent changed words into one change', () => {
+      const segments = inlineDiff('keep the old words here', 'keep a new phrase here');
+
+      expect(formatInlineSegments(segments)).toEqual(['keep [-the old words-]{+a new phrase+} here']);
+    });
+
+    it('should diff a re-wrapped paragraph word by word', () => {
+      const baseline = 'First line of a paragraph\nthat continues here.';
+      const current = 'First line of a\nparagraph that continues here.';
+
+      const result = generateDiff(baseline, current, 'word');
+
+      expect(result).not.toContain('[-First');
+      expect(result).not.toContain('continues here.-]');
+    });
+
+    it('should show wholly added lines as additions', () => {
+      const result = generateDiff('A\nB', 'A\nNew line\nB', 'word');
+
+      expect(result).toContain('~{+New line+}');
+    });
+
+    it('should keep line granularity as the default', () => {
+      const result = generateDiff('A\nold\nB', 'A\nnew\nB');
+
+      expect(result).toContain('-old');
+      expect(result).toContain('+new');
+      expect(result).not.toContain('~');
+    });
+  });
+
+  describe('sentence granularity', () => {
+    it('should split text into sentences', () => {
+      expect(tokenize('One. Two? Three', 'sentence')).toEqual(['One. ', 'Two? ', 'Three']);
+    });
+
+    it('should replace whole sentences', () => {
+      const result = generateDiff('Keep this. Change this one. Keep that.', 'Keep this. Changed it. Keep that.', 'sentence');
+
+      expect(result).toContain('~Keep this. [-Change this one. -]{+Changed it. +}Keep that.');
+    });
+  });
+
+  describe('parseInlineMarkup', () => {
+    it('should round trip formatted segments', () => {
+      const segments = inlineDiff('a b c d', 'a x c y');
+      const [line] = formatInlineSegments(segments);
+
+      expect(parseInlineMarkup(line)).toEqual(segments);
+    });
+
+    it('should return plain text as a single segment', () => {
+      expect(parseInlineMarkup('no changes')).toEqual([{ type: 'equal', text: 'no changes' }]);
+    });
+  });
+
   describe('calculateDiffSize', () => {
     it('should calculate size difference correctly', () => {
       expect(calculateDiffSize('abc', 'abcde')).toBe(2);
@@ -244,6 +422,181 @@ Context 9`;
     });
   });
 
+  describe('splitParagraphs', () => {
+    it('should split on newlines and drop blank paragraphs', () => {
+      expect(splitParagraphs('Single paragraph')).toEqual(['Single paragraph']);
+      expect(splitParagraphs('One\nTwo\nThree')).toHaveLength(3);
+      expect(splitParagraphs('Line 1\n\n\nLine 2\n\n\n\nLine 3')).toHaveLength(3);
+      expect(splitParagraphs('')).toHaveLength(0);
+      expect(splitParagraphs('Content\n\n\n  \n\nMore content')).toHaveLength(2);
+    });
+  });
+
+  describe('measureChanges', () => {
+    it('should report no changes for identical content', () => {
+      expect(measureChanges('Same\n\nText', 'Same\n\nText').changedParagraphs).toBe(0);
+    });
+
+    it('should count a paragraph rewritten in place', () => {
+      const metrics = measureChanges(
+        'Intro\n\nThe cat sat on the mat.\n\nOutro',
+        'Intro\n\nThe dog sat on the rug.\n\nOutro'
+      );
+
+      expect(metrics).toEqual({
+        addedParagraphs: 0,
+        removedParagraphs: 0,
+        modifiedParagraphs: 1,
+        changedParagraphs: 1,
+        changedWords: 2
+      });
+    });
+
+    it('should break down added and removed paragraphs', () => {
+      const metrics = measureChanges(
+        'Keep\n\nDrop me now\n\nKeep too',
+        'New start\n\nKeep\n\nKeep too\n\nNew end here'
+      );
+
+      expect(metrics.addedParagraphs).toBe(2);
+      expect(metrics.removedParagraphs).toBe(1);
+      expect(metrics.modifiedParagraphs).toBe(0);
+      expect(metrics.changedParagraphs).toBe(3);
+      expect(metrics.changedWords).toBe(2 + 3 + 3);
+    });
+
+    it('should not count unchanged paragraphs after an insertion', () => {
+      const paragraphs = Array.from({ length: 20 }, (_, i) => `Paragraph ${i}`);
+      const metrics = measureChanges(paragraphs.join('\n\n'), ['Inserted', ...paragraphs].join('\n\n'));
+
+      expect(metrics.changedParagraphs).toBe(1);
+      expect(metrics.changedWords).toBe(1);
+    });
+  });
+
+  describe('changeSize', () => {
+    it('should return the metric for the requested unit', () => {
+      const metrics = measureChanges('One two three', 'One four five');
+
+      expect(changeSize(metrics)).toBe(1);
+      expect(changeSize(metrics, 'paragraphs')).toBe(1);
+      expect(changeSize(metrics, 'words')).toBe(2);
+    });
+  });
+
+  describe('parseSections', () => {
+    it('should split a note at its headings with a heading trail', () => {
+      const note = 'Intro\n\n# Paper\n\nAbstract\n\n## Methods\n\nSetup\n\n### Data\n\nRows\n\n## Results\n\nNumbers';
+
+      const sections = parseSections(note);
+
+      expect(sections.map(section => section.trail)).toEqual([
+        [],
+        ['# Paper'],
+        ['# Paper', '## Methods'],
+        ['# Paper', '## Methods', '### Data'],
+        ['# Paper', '## Results']
+      ]);
+      expect(sections[2].text).toBe('## Methods\n\nSetup\n');
+      expect(sections[2].body).toBe('\nSetup\n');
+    });
+
+    it('should ignore headings inside code blocks', () => {
+      const sections = parseSections('## Code\n\n```\n# not a heading\n```');
+
+      expect(sections).toHaveLength(1);
+      expect(sections[0].body).toContain('# not a heading');
+    });
+
+    it('should not treat tags as headings', () => {
+      expect(parseSections('#tag\nText')).toHaveLength(1);
+    });
+  });
+
+  describe('summarizeSectionChanges', () => {
+    const baseline = '# Notes\n\n## Methods\n\nFirst step.\n\nSecond step.\n\n## Results\n\nIt worked.\n\n## Old\n\nGone soon.';
+
+    it('should report only the sections that changed', () => {
+      const current = baseline.replace('First step.', 'First step, revised.');
+
+      const changes = summarizeSectionChanges(baseline, current);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].trail).toEqual(['# Notes', '## Methods']);
+      expect(changes[0].status).toBe('modified');
+      expect(changes[0].changes.modifiedParagraphs).toBe(1);
+    });
+
+    it('should report added and removed sections', () => {
+      const current = baseline.replace('## Old\n\nGone soon.', '## Discussion\n\nWhat it means.');
+
+      const changes = summarizeSectionChanges(baseline, current);
+
+      expect(changes.map(change => [change.key, change.status])).toEqual([
+        ['# Notes > ## Discussion', 'added'],
+        ['# Notes > ## Old', 'removed']
+      ]);
+    });
+
+    it('should tell apart sections that share a heading', () => {
+      const note = '## Notes\n\nA\n\n## Notes\n\nB';
+
+      const changes = summarizeSectionChanges(note, note.replace('B', 'C'));
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].key).toBe('## Notes #2');
+    });
+
+    it('should return nothing when the note is unchanged', () => {
+      expect(summarizeSectionChanges(baseline, baseline)).toEqual([]);
+    });
+  });
+
+  describe('formatSectionSummary', () => {
+    it('should describe each changed section on one line', () => {
+      const baseline = '## Methods\n\nOne.\n\nTwo.\n\n## Old\n\nGone.';
+      const current = '## Methods\n\nOne, revised.\n\nTwo, revised.\n\nThree.\n\n## New\n\nHello.';
+
+      const summary = formatSectionSummary(summarizeSectionChanges(baseline, current));
+
+      expect(summary).toBe([
+        '## Methods: 2 paragraphs rewritten, 1 added',
+        '## New: section added (1 paragraph)',
+        '## Old: section removed (1 paragraph)'
+      ].join('\n'));
+    });
+
+    it('should label text before the first heading', () => {
+      const summary = formatSectionSummary(summarizeSectionChanges('Intro\n\n## A\n\nText', 'Intro changed\n\n## A\n\nText'));
+
+      expect(summary).toBe('Top of note: 1 paragraph rewritten');
+    });
+
+    it('should say when nothing changed', () => {
+      expect(formatSectionSummary([])).toBe('No changes detected');
+    });
+  });
+
+  describe('formatChangedSections', () => {
+    it('should include the full text of changed sections only', () => {
+      const baseline = '## Methods\n\nOne.\n\nTwo.\n\n## Results\n\nUnchanged.\n\n## Old\n\nGone.';
+      const current = '## Methods\n\nOne.\n\nTwo, revised.\n\n## Results\n\nUnchanged.';
+
+      const result = formatChangedSections(summarizeSectionChanges(baseline, current));
+
+      expect(result).toBe([
+        '## Methods: 1 paragraph rewritten',
+        '',
+        '## Methods\n\nOne.\n\nTwo, revised.',
+        '',
+        '---',
+        '',
+        '## Old: section removed (1 paragraph)'
+      ].join('\n'));
+      expect(result).not.toContain('Unchanged.');
+    });
+  });
+
   describe('edge cases and error handling', () => {
     it('should handle very long lines', () => {
       const longLine = 'a'.repeat(10000);
@@ -287,12 +640,11 @@ Context 9`;
       const result = generateDiff(baseline, current);
       
       expect(result).toContain('-Original');
-      expect(result).toContain('-File');
-      expect(result).toContain('-Content');
       expect(result).toContain('+Completely');
       expect(result).toContain('+Different');
-      expect(result).toContain('+File');
-      expect(result).toContain('+Content');
+      // Shared lines are kept as context
+      expect(result).toContain(' File');
+      expect(result).toContain(' Content');
     });
   });
 
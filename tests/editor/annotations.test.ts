@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import { EditorState } from '@codemirror/state';
+import { createAnnotationField, annotationsIn, setAnnotations, resolveAnnotation } from '../../src/editor/annotations';
+import { FeedbackAnnotation } from '../../src/types';
+
+describe('editor annotations', () => {
+  const note = 'Intro line.\nThe very unique idea.\nClosing line.';
+  const unique: FeedbackAnnotation = { id: 'a', quote: 'very unique', comment: 'Unique cannot be graded' };
+  const closing: FeedbackAnnotation = { id: 'b', quote: 'Closing line', comment: 'Weak ending' };
+
+  const createState = (annotations: FeedbackAnnotation[] = [unique, closing]) => {
+    const field = createAnnotationField(() => annotations);
+    const state = EditorState.create({ doc: note, extensions: [field] });
+    return { field, state };
+  };
+
+  const ranges = (state: EditorState, field: ReturnType<typeof createAnnotationField>) =>
+    annotationsIn(state, field).map(({ annotation, from, to }) => ({ id: annotation.id, text: state.sliceDoc(from, to) }));
+
+  it('should anchor the loaded annotations to their quotes', () => {
+    const { field, state } = createState();
+
+    expect(ranges(state, field)).toEqual([
+      { id: 'a', text: 'very unique' },
+      { id: 'b', text: 'Closing line' }
+    ]);
+  });
+
+  it('should follow the quoted text when text is inserted before it', () => {
+    const { field, state } = createState();
+
+    const next = state.update({ changes: { from: 0, insert: 'New first line.\n' } }).state;
+
+    expect(ranges(next, field)).toEqual([
+      { id: 'a', text: 'very unique' },
+      { id: 'b', text: 'Closing line' }
+    ]);
+  });
+
+  it('should find the quote again when it is moved elsewhere', () => {
+    const { field, state } = createState([closing]);
+    const start = note.indexOf('Closing line.');
+
+    const moved = state.update({
+      changes: [
+        { from: start - 1, to: note.length },
+        { from: 0, insert: 'Closing line.\n' }
+      ]
+    }).state;
+
+    expect(moved.doc.toString()).toBe('Closing line.\nIntro line.\nThe very unique idea.');
+    expect(ranges(moved, field)).toEqual([{ id: 'b', text: 'Closing line' }]);
+  });
+
+  it('should drop an annotation once its quote has been edited away', () => {
+    const { field, state } = createState();
+    const from = note.indexOf('very unique');
+
+    const next = state.update({ changes: { from, to: from + 'very unique'.length, insert: 'novel' } }).state;
+
+    expect(ranges(next, field)).toEqual([{ id: 'b', text: 'Closing line' }]);
+  });
+
+  it('should remove resolved annotations', () => {
+    const { field, state } = createState();
+
+    const next = state.update({ effects: resolveAnnotation.of('a') }).state;
+
+    expect(ranges(next, field)).toEqual([{ id: 'b', text: 'Closing line' }]);
+  });
+
+  it('should replace every annotation when new ones are set', () => {
+    const { field, state } = createState();
+    const intro: FeedbackAnnotation = { id: 'c', quote: 'Intro', comment: 'Say more' };
+
+    const next = state.update({ effects: setAnnotations.of([intro]) }).state;
+
+    expect(ranges(next, field)).toEqual([{ id: 'c', text: 'Intro' }]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildFeedbackPrompt, diffNote } from '../src/feedbackPrompt';
+import { DEFAULT_SETTINGS } from '../src/constants';
+import { STRUCTURED_FEEDBACK_INSTRUCTIONS } from '../src/structuredFeedback';
+import { ANNOTATION_INSTRUCTIONS } from '../src/annotations';
+import { rubricInstructions } from '../src/scores';
+
+describe('buildFeedbackPrompt', () => {
+  const note = { path: 'blog/post.md', title: 'post' };
+
+  it('should fill in the macros of the feedback prompt', () => {
+    const config = { ...DEFAULT_SETTINGS, feedbackPrompt: '${noteTitle} at ${notePath}:\n${diff}', rubric: [], inlineAnnotations: false };
+
+    const { prompt, diff } = buildFeedbackPrompt(config, note, 'First line\n', 'First line\nSecond line\n');
+
+    expect(diff).toContain('Second line');
+    expect(prompt).toBe(`post at blog/post.md:\n${diff}`);
+  });
+
+  it('should keep dollar signs in the note as they are', () => {
+    const config = { ...DEFAULT_SETTINGS, feedbackPrompt: 'Before ${changedSections} ${diff} after', rubric: [] };
+    const text = '# Physics\n\n$$E=mc^2$$ costs $5 and $\'quoted\' $& $`\n';
+
+    const { prompt } = buildFeedbackPrompt(config, { path: '$$.md', title: '$\'' }, '', text);
+
+    expect(prompt).toContain('$$E=mc^2$$ costs $5 and $\'quoted\' $& $`');
+    expect(prompt.startsWith('Before ')).toBe(true);
+    expect(prompt.endsWith(' after')).toBe(true);
+    expect(buildFeedbackPrompt({ ...config, feedbackPrompt: '${notePath} ${noteTitle}' }, { path: '$$.md', title: '$\'' }, '', text).prompt)
+      .toBe('$$.md $\'');
+  });
+
+  it('should leave out changes the settings ignore', () => {
+    const config = { ...DEFAULT_SETTINGS, feedbackPrompt: '${diff}', ignoreFrontmatter: true };
+
+    const { diff } = buildFeedbackPrompt(config, note, '---\nupdated: 1\n---\nBody\n', '---\nupdated: 2\n---\nBody\n');
+
+    expect(diff).not.toContain('updated');
+  });
+
+  it('should send the note\'s own lines and leave cosmetic changes out of the diff', () => {
+    const config = { ...DEFAULT_SETTINGS, feedbackPrompt: '${diff}\n===\n${changedSections}', rubric: [], ignoreWhitespace: true };
+    const baseline = '# Notes\n\n+ a _light_ point\n\nShort  line\nwrapped here\n\nOld text\n\n# Other\n\nSame';
+    const reflowed = '# Notes\n\n+   a _light_ point\n\nShort line wrapped here\n\nOld text\n\n\n# Other\n\nSame';
+
+    expect(diffNote(config, baseline, reflowed)).toBe('No changes detected');
+
+    const { prompt, diff } = buildFeedbackPrompt(config, note, baseline, reflowed.replace('Old text', 'A __new__ text'));
+    expect(diff).toContain('-Old text');
+    expect(diff).toContain('+A __new__ text');
+    expect(diff).not.toMatch(/^[-+].*light/m);
+    expect(diff).not.toMatch(/^[-+].*Short/m);
+    expect(diff).not.toMatch(/^[-+]$/m);
+    expect(prompt).toContain('# Notes\n\n+   a _light_ point\n\nShort line wrapped here\n\nA __new__ text');
+    expect(prompt.split('===')[1]).not.toContain('# Other');
+  });
+
+  it('should add the instructions the settings ask for', () => {
+    const config = { ...DEFAULT_SETTINGS, feedbackPrompt: 'Review.', rubric: [] };
+
+    expect(buildFeedbackPrompt({ ...config, structuredFeedback: true, inlineAnnotations: true }, note, '', 'Text').prompt)
+      .toBe(`Review.\n\n${STRUCTURED_FEEDBACK_INSTRUCTIONS}`);
+    expect(buildFeedbackPrompt({ ...config, structuredFeedback: false, inlineAnnotations: true }, note, '', 'Text').prompt)
+      .toBe(`Review.\n\n${ANNOTATION_INSTRUCTIONS}`);
+    expect(buildFeedbackPrompt({ ...config, inlineAnnotations: false, rubric: ['clarity'] }, note, '', 'Text').prompt)
+      .toBe(`Review.\n\n${rubricInstructions(['clarity'], false)}`);
+  });
+});
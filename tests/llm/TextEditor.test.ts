@@ -138,6 +138,32 @@ describe('TextEditorTool', () => {
     });
   });
 
+  describe('replaceAll', () => {
+    it('should make several replacements in one edit', async () => {
+      mockApp.vault.getAbstractFileByPath.mockResolvedValue(new MockTFile('test.md', 'test.md'));
+      mockApp.vault.read.mockResolvedValue('The first draft and the second draft');
+
+      const result = await textEditorTool.replaceAll([
+        { command: 'str_replace', path: 'test.md', old_str: 'first draft', new_str: 'outline' },
+        { command: 'str_replace', path: 'test.md', old_str: 'second draft', new_str: 'final version' }
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(mockApp.vault.modify).toHaveBeenCalledTimes(1);
+      expect(mockApp.vault.modify).toHaveBeenCalledWith(expect.any(MockTFile), 'The outline and the final version');
+    });
+
+    it('should refuse replacements across files', async () => {
+      const result = await textEditorTool.replaceAll([
+        { command: 'str_replace', path: 'a.md', old_str: 'a', new_str: 'b' },
+        { command: 'str_replace', path: 'b.md', old_str: 'a', new_str: 'b' }
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(mockApp.vault.modify).not.toHaveBeenCalled();
+    });
+  });
+
   describe('str_replace command', () => {
     it('should replace text successfully', async () => {
       const command: TextEditorCommand = {
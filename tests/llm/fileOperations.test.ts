@@ -2,6 +2,7 @@ import { TFile, TFolder } from 'obsidian';
 import {
     viewFile,
     replaceText,
+    replaceTexts,
     insertText,
     createFile,
     deleteFile,
@@ -238,6 +239,48 @@ describe('fileOperations', () => {
         });
     });
 
+    describe('replaceTexts', () => {
+        it('should make all replacements in one write', async () => {
+            const mockFile = new TFile();
+            mockVault.getAbstractFileByPath.mockReturnValue(mockFile);
+            mockVault.read.mockResolvedValue('Hello world, hello moon');
+
+            const result = await replaceTexts(mockApp, 'test.md', [
+                { oldStr: 'moon', newStr: 'sun' },
+                { oldStr: 'Hello', newStr: 'Goodbye $&' }
+            ]);
+
+            expect(result.success).toBe(true);
+            expect(mockVault.modify).toHaveBeenCalledTimes(1);
+            expect(mockVault.modify).toHaveBeenCalledWith(mockFile, 'Goodbye $& world, hello sun');
+        });
+
+        it('should write nothing if any replacement does not match exactly once', async () => {
+            const mockFile = new TFile();
+            mockVault.getAbstractFileByPath.mockReturnValue(mockFile);
+            mockVault.read.mockResolvedValue('test test');
+
+            const missing = await replaceTexts(mockApp, 'test.md', [{ oldStr: 'test test', newStr: 'a' }, { oldStr: 'xyz', newStr: 'b' }]);
+            const repeated = await replaceTexts(mockApp, 'test.md', [{ oldStr: 'test', newStr: 'c' }]);
+
+            expect(missing.error).toContain('No match found');
+            expect(repeated.error).toContain('Found 2 matches');
+            expect(mockVault.modify).not.toHaveBeenCalled();
+        });
+
+        it('should refuse overlapping replacements', async () => {
+            const mockFile = new TFile();
+            mockVault.getAbstractFileByPath.mockReturnValue(mockFile);
+            mockVault.read.mockResolvedValue('one two three');
+
+            const result = await replaceTexts(mockApp, 'test.md', [{ oldStr: 'one two', newStr: 'a' }, { oldStr: 'two three', newStr: 'b' }]);
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('overlap');
+            expect(mockVault.modify).not.toHaveBeenCalled();
+        });
+    });
+
     describe('insertText', () => {
         it('should insert text at beginning (line 0)', async () => {
             const mockFile = new TFile();
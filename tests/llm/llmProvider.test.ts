@@ -1,6 +1,7 @@
 import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import { LLMProvider } from '../../src/llm/llmProvider';
 import { NotesCriticSettings, DEFAULT_SETTINGS, ConversationTurn, LLMFile } from '../../src/types';
+import { MemoryTool } from 'llm/tools';
 
 // Mock dependencies
 jest.mock('../../src/llm/mcpClient');
@@ -133,6 +134,18 @@ describe('LLMProvider', () => {
 
       expect(() => provider.updateSettings(newSettings, mockApp)).not.toThrow();
     });
+
+    it('should run tools with the new settings', async () => {
+      provider.updateSettings({ ...mockSettings, memoryDirectory: 'journal/.memory', memoryMaxViewCharacters: 500 }, mockApp);
+
+      await provider.runToolCall({
+        type: 'tool_call',
+        content: '',
+        toolCall: { name: 'memory', input: { command: 'view', path: '/memories' }, id: 'call-1' }
+      });
+
+      expect(MemoryTool).toHaveBeenCalledWith(mockApp, 'journal/.memory', 500);
+    });
   });
 
   describe('testApiKey', () => {
@@ -0,0 +1,88 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import AnthropicProvider from '../../../src/llm/providers/Anthropic';
+import { ConversationTurn, NotesCriticSettings } from '../../../src/types';
+import { DEFAULT_SETTINGS } from '../../../src/constants';
+
+class TestAnthropicProvider extends AnthropicProvider {
+    protected validateApiKey(): void {
+        // Skip API key validation in tests
+    }
+
+    protected getModel(): string {
+        return 'claude-sonnet-4-5';
+    }
+
+    protected getApiKey(): string {
+        return 'test-key';
+    }
+
+    protected formatMessages(messages: ConversationTurn[]): any[] {
+        return messages as any;
+    }
+
+    public createConfigPublic(messages: ConversationTurn[]) {
+        return this.createConfig(messages, 'system prompt', false, []);
+    }
+}
+
+const turn = (userInput: ConversationTurn['userInput']): ConversationTurn[] => [
+    { id: '1', timestamp: new Date(), userInput, steps: [], isComplete: false }
+];
+const feedbackTurn = turn({ type: 'file_change', filename: 'note', diff: '+ New line', prompt: 'Review the changes' });
+const chatTurn = turn({ type: 'chat_message', message: 'Why?', prompt: 'Why?' });
+
+describe('AnthropicProvider structured feedback', () => {
+    // createConfig logs the request
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const settings = {
+        ...DEFAULT_SETTINGS,
+        model: 'anthropic/claude-sonnet-4-5',
+        structuredFeedback: true,
+        mcpClients: []
+    } as NotesCriticSettings;
+
+    it('forces the feedback tool on note feedback', () => {
+        const provider = new TestAnthropicProvider(settings, {} as any);
+        const { body } = provider.createConfigPublic(feedbackTurn);
+
+        expect(body.tool_choice).toEqual({ type: 'tool', name: 'report_feedback' });
+        expect(body.tools).toEqual(expect.arrayContaining([
+            expect.objectContaining({ name: 'report_feedback', input_schema: expect.objectContaining({ required: ['items', 'scores'] }) })
+        ]));
+    });
+
+    it('leaves chat replies free-form', () => {
+        const provider = new TestAnthropicProvider(settings, {} as any);
+        const { body } = provider.createConfigPublic(chatTurn);
+
+        expect(body.tool_choice).toBeUndefined();
+        expect(body.tools.map((tool: any) => tool.name)).not.toContain('report_feedback');
+    });
+
+    it('passes the feedback tool input on as content', () => {
+        const provider = new TestAnthropicProvider(settings, {} as any);
+        const parse = provider.createConfigPublic(feedbackTurn).parseObject;
+
+        expect(parse({ type: 'content_block_start', index: 0, content_block: { type: 'tool_use', name: 'report_feedback', id: 'toolu_1', input: {} } }))
+            .toEqual({ blockStart: { index: 0, type: 'content' } });
+        expect(parse({ type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"items": [' } }))
+            .toEqual({ content: '{"items": [', isThinking: false });
+    });
+
+    it('still reports other tools as tool calls', () => {
+        const provider = new TestAnthropicProvider(settings, {} as any);
+        const parse = provider.createConfigPublic(feedbackTurn).parseObject;
+
+        expect(parse({ type: 'content_block_start', index: 1, content_block: { type: 'tool_use', name: 'web_browser', id: 'toolu_2', input: {} } }).toolCall)
+            .toMatchObject({ name: 'web_browser' });
+        expect(parse({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"url"' } }))
+            .toEqual({ toolCallDelta: { index: 1, content: '{"url"' } });
+    });
+});
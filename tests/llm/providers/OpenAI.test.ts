@@ -98,3 +98,47 @@ describe('OpenAIProvider tool configuration', () => {
         expect(memoryEntries).toHaveLength(0);
     });
 });
+
+describe('OpenAIProvider structured feedback', () => {
+    const mockApp: any = { vault: {} };
+    const settings = {
+        ...DEFAULT_SETTINGS,
+        model: 'openai/gpt-4.1',
+        openaiApiKey: 'test-key',
+        structuredFeedback: true,
+        mcpClients: []
+    } as NotesCriticSettings;
+
+    const feedbackTurn = (): ConversationTurn[] => [{
+        ...createMessage()[0],
+        userInput: { type: 'file_change', filename: 'note', diff: '+ New line', prompt: 'Review the changes' }
+    }];
+
+    it('asks for output matching the feedback schema on note feedback', () => {
+        const provider = new TestOpenAIProvider(settings, mockApp);
+        const config = provider.createConfigPublic(feedbackTurn(), 'system prompt', false, []);
+
+        expect(config.body.text).toEqual({
+            format: expect.objectContaining({
+                type: 'json_schema',
+                strict: true,
+                schema: expect.objectContaining({ required: ['items', 'scores'] })
+            })
+        });
+    });
+
+    it('leaves scores out of the schema without a rubric', () => {
+        const provider = new TestOpenAIProvider({ ...settings, rubric: [] }, mockApp);
+        const config = provider.createConfigPublic(feedbackTurn(), 'system prompt', false, []);
+
+        expect(config.body.text.format.schema.required).toEqual(['items']);
+        expect(config.body.text.format.schema.properties.scores).toBeUndefined();
+    });
+
+    it('leaves chat replies free-form', () => {
+        const provider = new TestOpenAIProvider(settings, mockApp);
+        const config = provider.createConfigPublic(createMessage(), 'system prompt', false, []);
+
+        expect(config.body.text).toBeUndefined();
+    });
+});
@@ -1,4 +1,4 @@
-import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import NotesCritic from '../src/main';
 import { DEFAULT_SETTINGS } from '../src/constants';
 import { CHAT_VIEW_CONFIG } from '../src/types';
@@ -22,12 +22,18 @@ const mockVault = {
     write: jest.fn().mockResolvedValue(undefined),
     read: jest.fn().mockResolvedValue('{}'),
     mkdir: jest.fn().mockResolvedValue(undefined)
-  }
+  },
+  on: jest.fn(),
+  getMarkdownFiles: jest.fn().mockReturnValue([])
 };
 
 const mockApp = {
   workspace: mockWorkspace,
-  vault: mockVault
+  vault: mockVault,
+  metadataCache: {
+    on: jest.fn(),
+    getFileCache: jest.fn()
+  }
 };
 
 // Mock Obsidian classes
@@ -46,6 +52,9 @@ jest.mock('obsidian', () => ({
     addCommand = jest.fn();
     registerView = jest.fn();
     registerEvent = jest.fn();
+    registered: (() => void)[] = [];
+    register = jest.fn((callback: () => void) => this.registered.push(callback));
+    registerEditorExtension = jest.fn();
     loadData = jest.fn().mockResolvedValue({});
     saveData = jest.fn().mockResolvedValue(undefined);
     registerObsidianProtocolHandler = jest.fn();
@@ -217,6 +226,56 @@ describe('NotesCritic Plugin', () => {
     });
   });
 
+  describe('save command', () => {
+    let original: jest.Mock;
+    let command: { callback?: (...args: unknown[]) => unknown };
+
+    beforeEach(() => {
+      original = jest.fn();
+      command = { callback: original };
+      (mockApp as any).commands = { commands: { 'editor:save-file': command } };
+      (mockWorkspace as any).getActiveFile = jest.fn().mockReturnValue({ path: 'note.md' });
+    });
+
+    afterEach(() => {
+      delete (mockApp as any).commands;
+    });
+
+    const unload = () => (plugin as any).registered.forEach((callback: () => void) => callback());
+
+    it('should flush idle feedback on save and give the command back on unload', async () => {
+      await plugin.onload();
+      const flush = jest.spyOn(plugin.changeTracker, 'flushIdleFeedback').mockResolvedValue(undefined);
+
+      command.callback?.();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(original).toHaveBeenCalled();
+      expect(flush).toHaveBeenCalledWith({ path: 'note.md' });
+
+      unload();
+      expect(command.callback).toBe(original);
+    });
+
+    it('should keep another plugin\'s wrapper and stop reacting once unloaded', async () => {
+      await plugin.onload();
+      const flush = jest.spyOn(plugin.changeTracker, 'flushIdleFeedback').mockResolvedValue(undefined);
+      const ours = command.callback;
+      const theirs = jest.fn((...args: unknown[]) => ours?.(...args));
+      command.callback = theirs;
+
+      unload();
+      command.callback?.();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(command.callback).toBe(theirs);
+      expect(original).toHaveBeenCalled();
+      expect(flush).not.toHaveBeenCalled();
+    });
+  });
+
   describe('error handling', () => {
     it('should propagate settings loading errors', async () => {
       plugin.loadData = jest.fn().mockRejectedValue(new Error('Load error'));
@@ -0,0 +1,104 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { normalizeNote, removeIgnored } from '../src/normalize';
+import { measureChanges } from '../src/diffs';
+
+describe('normalizeNote', () => {
+  it('should leave the note untouched by default', () => {
+    const note = '---\nupdated: 2024-01-01\n---\nSome  text   \n';
+
+    expect(normalizeNote(note)).toBe(note);
+  });
+
+  describe('ignoreFrontmatter', () => {
+    it('should drop the frontmatter block', () => {
+      const note = '---\ntitle: Note\nupdated: 2024-01-01\n---\n# Heading\n\nBody';
+
+      expect(normalizeNote(note, { ignoreFrontmatter: true })).toBe('# Heading\n\nBody');
+    });
+
+    it('should make frontmatter-only edits count for nothing', () => {
+      const before = '---\nupdated: 2024-01-01\n---\nBody';
+      const after = '---\nupdated: 2024-02-02\n---\nBody';
+      const options = { ignoreFrontmatter: true };
+
+      expect(measureChanges(normalizeNote(before, options), normalizeNote(after, options)).changedParagraphs).toBe(0);
+    });
+
+    it('should not treat a later horizontal rule as frontmatter', () => {
+      const note = 'Intro\n---\nMore';
+
+      expect(normalizeNote(note, { ignoreFrontmatter: true })).toBe(note);
+    });
+  });
+
+  describe('ignorePatterns', () => {
+    it('should remove text matching the patterns', () => {
+      const note = 'Body\nmodified: 2024-01-01 10:00\nMore';
+
+      expect(normalizeNote(note, { ignorePatterns: ['^modified: .*$'] })).toBe('Body\n\nMore');
+    });
+
+    it('should skip blank and invalid patterns', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => { });
+
+      expect(normalizeNote('Body (draft)', { ignorePatterns: ['', '(unclosed', ' \\(draft\\)'] })).toBe('Body');
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+  });
+
+  describe('ignoreWhitespace', () => {
+    const same = (a: string, b: string) =>
+      expect(normalizeNote(a, { ignoreWhitespace: true })).toBe(normalizeNote(b, { ignoreWhitespace: true }));
+
+    it('should ignore trailing and repeated spaces', () => {
+      same('Some text here', 'Some  text here   ');
+    });
+
+    it('should ignore reflowed paragraphs', () => {
+      same('A long sentence that\nwas wrapped by hand.', 'A long sentence that was wrapped\nby hand.');
+    });
+
+    it('should ignore runs of blank lines', () => {
+      same('One\n\nTwo', 'One\n\n\n\nTwo\n\n');
+    });
+
+    it('should ignore list marker style and numbering', () => {
+      same('* one\n+ two\n\n3) three\n7. four', '- one\n- two\n\n1. three\n2. four');
+    });
+
+    it('should ignore emphasis style', () => {
+      same('Some _emphasis_ and __strong__ text', 'Some *emphasis* and **strong** text');
+    });
+
+    it('should keep list items, headings and quotes on their own lines', () => {
+      expect(normalizeNote('# Title\nText\n- one\n- two\n> quote', { ignoreWhitespace: true }))
+        .toBe('# Title\nText\n- one\n- two\n> quote');
+    });
+
+    it('should leave snake_case words alone', () => {
+      expect(normalizeNote('call some_function_name now', { ignoreWhitespace: true })).toBe('call some_function_name now');
+    });
+
+    it('should keep code blocks as they are apart from trailing spaces', () => {
+      const code = '```\ndef  f():\n    return  1   \n```';
+
+      expect(normalizeNote(code, { ignoreWhitespace: true })).toBe('```\ndef  f():\n    return  1\n```');
+    });
+
+    it('should still see real changes', () => {
+      const before = normalizeNote('The results were good.', { ignoreWhitespace: true });
+      const after = normalizeNote('The results were  bad.', { ignoreWhitespace: true });
+
+      expect(measureChanges(before, after).modifiedParagraphs).toBe(1);
+    });
+  });
+});
+
+describe('removeIgnored', () => {
+  it('should drop ignored parts but keep the rest as written', () => {
+    const note = '---\nupdated: 1\n---\n+ a  _light_ point\nwrapped\nline';
+
+    expect(removeIgnored(note, { ignoreFrontmatter: true, ignoreWhitespace: true })).toBe('+ a  _light_ point\nwrapped\nline');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { isWithin, rebasePath, rebaseKeys, deleteKeysWithin } from '../src/paths';
+
+describe('paths', () => {
+  describe('isWithin', () => {
+    it('should match the path itself and anything inside it', () => {
+      expect(isWithin('notes/a.md', 'notes/a.md')).toBe(true);
+      expect(isWithin('notes/a.md', 'notes')).toBe(true);
+      expect(isWithin('notes-old/a.md', 'notes')).toBe(false);
+    });
+  });
+
+  describe('rebasePath', () => {
+    it('should move a renamed note', () => {
+      expect(rebasePath('notes/a.md', 'notes/a.md', 'notes/b.md')).toBe('notes/b.md');
+    });
+
+    it('should move notes inside a renamed folder', () => {
+      expect(rebasePath('notes/deep/a.md', 'notes', 'archive/notes')).toBe('archive/notes/deep/a.md');
+    });
+
+    it('should leave unrelated paths alone', () => {
+      expect(rebasePath('other/a.md', 'notes', 'archive')).toBeNull();
+    });
+  });
+
+  describe('rebaseKeys', () => {
+    it('should re-key affected entries and keep their values', () => {
+      const map = new Map([['notes/a.md', 1], ['notes/b.md', 2], ['other.md', 3]]);
+
+      const moved = rebaseKeys(map, 'notes', 'archive');
+
+      expect(moved).toEqual(['archive/a.md', 'archive/b.md']);
+      expect(Array.from(map.entries())).toEqual([['other.md', 3], ['archive/a.md', 1], ['archive/b.md', 2]]);
+    });
+  });
+
+  describe('deleteKeysWithin', () => {
+    it('should delete a folder and everything inside it', () => {
+      const map = new Map([['notes/a.md', 1], ['notes/sub/b.md', 2], ['other.md', 3]]);
+
+      deleteKeysWithin(map, 'notes');
+
+      expect(Array.from(map.keys())).toEqual(['other.md']);
+    });
+  });
+});
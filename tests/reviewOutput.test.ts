@@ -0,0 +1,173 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  NoteReview,
+  isSidecarPath,
+  removeCallouts,
+  reviewFromResponse,
+  sidecarPath,
+  stripReviewOutput,
+  updateReviewProperties,
+  writeCallouts,
+  writeSidecar
+} from '../src/reviewOutput';
+
+const note = `---
+tags: [draft]
+---
+# Results
+
+The results were good. We think the method works.
+
+Next we will test it more.
+`;
+
+const reviewedAt = new Date(2026, 9, 19, 14, 5, 9);
+
+const review: NoteReview = {
+  reviewedAt,
+  comments: [
+    { title: 'major · clarity', body: 'Say how good.\n\nSuggested: The results beat the baseline.', quote: 'results were good' },
+    { title: 'minor · structure', body: 'Needs a conclusion.' }
+  ],
+  score: 87
+};
+
+describe('reviewOutput', () => {
+  describe('reviewFromResponse', () => {
+    it('should turn structured feedback into scored comments', () => {
+      const response = JSON.stringify({
+        items: [
+          { category: 'clarity', severity: 'major', quote: 'results were good', explanation: 'Say how good.', suggestedReplacement: 'results beat the baseline' },
+          { category: 'structure', severity: 'minor', quote: '', explanation: 'Needs a conclusion.', suggestedReplacement: null }
+        ]
+      });
+
+      expect(reviewFromResponse(response, note, reviewedAt)).toEqual({
+        reviewedAt,
+        comments: [
+          { title: 'major · clarity', body: 'Say how good.\n\nSuggested: results beat the baseline', quote: 'results were good' },
+          { title: 'minor · structure', body: 'Needs a conclusion.' }
+        ],
+        score: 87
+      });
+    });
+
+    it('should keep a free-form reply and its anchored comments, unscored', () => {
+      const response = 'Reads well.\n\n```notes-critic-annotations\n{"quote": "method works", "comment": "How do you know?"}\n```';
+
+      expect(reviewFromResponse(response, note, reviewedAt)).toEqual({
+        reviewedAt,
+        comments: [
+          { title: 'Review', body: 'Reads well.' },
+          { title: 'Comment', body: 'How do you know?', quote: 'method works' }
+        ]
+      });
+    });
+  });
+
+  describe('writeCallouts', () => {
+    it('should add collapsed callouts after the quoted paragraph, and the rest at the end', () => {
+      expect(writeCallouts(note, review)).toBe(`---
+tags: [draft]
+---
+# Results
+
+The results were good. We think the method works.
+
+> [!critic]- major · clarity
+> Say how good.
+>
+> Suggested: The results beat the baseline.
+
+Next we will test it more.
+
+> [!critic]- minor · structure
+> Needs a conclusion.
+`);
+    });
+
+    it('should replace the last review rather than add to it', () => {
+      const once = writeCallouts(note, review);
+
+      expect(writeCallouts(once, review)).toBe(once);
+      expect(writeCallouts(once, { ...review, comments: [] })).toBe(note);
+      expect(removeCallouts(once)).toBe(note);
+    });
+
+    it('should keep the writer\'s own callouts and quotes', () => {
+      const own = 'Intro.\n\n> [!note] Mine\n> Keep this.\n\n> A quote.';
+
+      expect(removeCallouts(writeCallouts(own, review))).toBe(own);
+    });
+
+    it('should not write inside code blocks', () => {
+      const code = 'Intro.\n\n```\nconst results were good = 1;\n\nmore();\n```\n';
+      const written = writeCallouts(code, { ...review, comments: [review.comments[0]] });
+
+      expect(written).toBe(`${code.trimEnd()}\n\n> [!critic]- major · clarity\n> Say how good.\n>\n> Suggested: The results beat the baseline.\n`);
+    });
+  });
+
+  describe('sidecar', () => {
+    it('should name the review file after the note', () => {
+      expect(sidecarPath('folder/note.md')).toBe('folder/note.review.md');
+      expect(isSidecarPath('folder/note.review.md')).toBe(true);
+      expect(isSidecarPath('folder/note.md')).toBe(false);
+    });
+
+    it('should write the review with a link back to the note', () => {
+      const sidecar = writeSidecar(null, '[[note]]', review);
+
+      expect(sidecar).toContain('# Review of [[note]]');
+      expect(sidecar).toContain(`Reviewed ${reviewedAt.toLocaleString()} · Score 87/100`);
+      expect(sidecar).toContain('## major · clarity\n\n> results were good\n\nSay how good.');
+      expect(sidecar).toContain('## minor · structure\n\nNeeds a conclusion.');
+    });
+
+    it('should replace only the last review and keep the writer\'s notes', () => {
+      const first = `My thoughts on the review.\n\n${writeSidecar(null, '[[note]]', review)}\nMore thoughts.\n`;
+      const rereviewed = writeSidecar(first, '[[note]]', { reviewedAt, comments: [] });
+
+      expect(rereviewed).toContain('No issues found.');
+      expect(rereviewed).not.toContain('Say how good.');
+      expect(rereviewed.startsWith('My thoughts on the review.\n\n')).toBe(true);
+      expect(rereviewed.endsWith('\nMore thoughts.\n')).toBe(true);
+      expect(writeSidecar(rereviewed, '[[note]]', { reviewedAt, comments: [] })).toBe(rereviewed);
+    });
+
+    it('should add a review to a file that has none', () => {
+      expect(writeSidecar('Notes.\n', '[[note]]', review)).toBe(`Notes.\n\n${writeSidecar(null, '[[note]]', review)}`);
+    });
+  });
+
+  describe('frontmatter', () => {
+    it('should set the score and review time', () => {
+      const frontmatter: Record<string, unknown> = { tags: ['draft'], critic_score: 40 };
+
+      updateReviewProperties(frontmatter, review);
+
+      expect(frontmatter).toEqual({ tags: ['draft'], critic_score: 87, critic_last_review: '2026-10-19T14:05:09' });
+    });
+
+    it('should leave the score alone for unscored reviews', () => {
+      const frontmatter: Record<string, unknown> = { critic_score: 40 };
+
+      updateReviewProperties(frontmatter, { reviewedAt, comments: [] });
+
+      expect(frontmatter.critic_score).toBe(40);
+    });
+  });
+
+  describe('stripReviewOutput', () => {
+    it('should remove everything reviews wrote into a note', () => {
+      const reviewed = writeCallouts(note, review)
+        .replace('tags: [draft]\n', 'tags: [draft]\ncritic_score: 87\ncritic_last_review: 2026-10-19T14:05:09\n');
+
+      expect(stripReviewOutput(reviewed)).toBe(note);
+    });
+
+    it('should remove frontmatter that only a review added', () => {
+      expect(stripReviewOutput('---\ncritic_score: 87\n---\nBody')).toBe('Body');
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { TFile, TFolder } from 'obsidian';
 import { RuleManager } from '../../src/rules/RuleManager';
 
 // Mock minimatch with more realistic behavior
@@ -32,8 +33,9 @@ describe('RuleManager', () => {
             files: [],
             folders: []
           }),
-          exists: jest.fn().mockResolvedValue(false)
-        }
+          exists: jest.fn().mockResolvedValue(true)
+        },
+        getAllLoadedFiles: jest.fn(() => [])
       }
     };
 
@@ -59,11 +61,12 @@ describe('RuleManager', () => {
       await expect(ruleManager.initialize()).resolves.not.toThrow();
     });
 
-    it('should scan for rule files', async () => {
-      mockApp.vault.adapter.list.mockResolvedValueOnce({
-        files: ['vault/.notes-critic/rules/test-rule.md'],
-        folders: []
-      });
+    it('should scan for rule files in .notes-critic folders only', async () => {
+      mockApp.vault.getAllLoadedFiles.mockReturnValue([new TFolder('/'), new TFolder('vault'), new TFolder('journal'), new TFile('vault/note.md')]);
+      mockApp.vault.adapter.exists.mockImplementation(async (path: string) => path === 'vault/.notes-critic/rules');
+      mockApp.vault.adapter.list.mockImplementation(async (path: string) => path === 'vault/.notes-critic/rules'
+        ? { files: ['vault/.notes-critic/rules/test-rule.md'], folders: ['vault/.notes-critic/rules/nested'] }
+        : { files: ['vault/.notes-critic/rules/nested/other.md'], folders: [] });
 
       mockApp.vault.adapter.read.mockResolvedValue(`---
 name: Test Rule
@@ -77,8 +80,168 @@ This is a test rule.`);
 
       await ruleManager.initialize();
 
-      expect(mockApp.vault.adapter.list).toHaveBeenCalledWith('/');
+      expect(mockApp.vault.adapter.exists).toHaveBeenCalledWith('.notes-critic/rules');
+      expect(mockApp.vault.adapter.exists).toHaveBeenCalledWith('journal/.notes-critic/critics');
+      expect(mockApp.vault.adapter.list.mock.calls.map(([path]: any) => path)).toEqual(['vault/.notes-critic/rules', 'vault/.notes-critic/rules/nested']);
       expect(mockApp.vault.adapter.read).toHaveBeenCalledWith('vault/.notes-critic/rules/test-rule.md');
+      expect(ruleManager.getAllRules().map(rule => rule.filePath)).toEqual(['vault/.notes-critic/rules/test-rule.md', 'vault/.notes-critic/rules/nested/other.md']);
+    });
+  });
+
+  describe('reloading on vault events', () => {
+    let files: Record<string, string>;
+    const rule = (name: string, priority = 0) => `---\nname: ${name}\npriority: ${priority}\nglobs: ["*.md"]\n---\nReview.`;
+
+    beforeEach(async () => {
+      files = {
+        '.notes-critic/rules/a.md': rule('A'),
+        'blog/.notes-critic/rules/b.md': rule('B'),
+        '.notes-critic/critics/editor.md': 'Edit.'
+      };
+      mockApp.vault.getAllLoadedFiles.mockReturnValue([new TFolder('blog')]);
+      mockApp.vault.adapter.exists.mockImplementation(async (path: string) => path.includes('.notes-critic'));
+      mockApp.vault.adapter.list.mockImplementation(async (path: string) => ({
+        files: Object.keys(files).filter(file => file.startsWith(`${path}/`)),
+        folders: []
+      }));
+      mockApp.vault.adapter.read.mockImplementation(async (path: string) => files[path]);
+      await ruleManager.initialize();
+    });
+
+    it('should read the rule files once', async () => {
+      const reads = mockApp.vault.adapter.read.mock.calls.length;
+
+      await ruleManager.initialize();
+      await ruleManager.getMatchingRules('note.md');
+      await ruleManager.getCritics();
+
+      expect(mockApp.vault.adapter.read.mock.calls.length).toBe(reads);
+      expect((await ruleManager.getCritics()).map(critic => critic.name)).toEqual(['editor']);
+    });
+
+    it('should reload a changed or created rule file and tell the listeners', async () => {
+      const listener = jest.fn();
+      ruleManager.addListener(listener);
+      await ruleManager.getMatchingRules('blog/note.md');
+
+      files['.notes-critic/rules/a.md'] = rule('A again', 5);
+      await ruleManager.handleFileChange('.notes-critic/rules/a.md');
+      files['.notes-critic/rules/c.md'] = rule('C');
+      await ruleManager.handleFileChange('.notes-critic/rules/c.md');
+      await ruleManager.handleFileChange('notes/unrelated.md');
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(mockApp.vault.adapter.read).not.toHaveBeenCalledWith('notes/unrelated.md');
+      expect((await ruleManager.getMatchingRules('blog/note.md')).map(match => match.rule.name)).toEqual(['B', 'A again', 'C']);
+    });
+
+    it('should forget deleted rule files and follow renamed ones', async () => {
+      await ruleManager.handleDelete('.notes-critic/rules/a.md');
+      expect(ruleManager.getRules().map(rule => rule.name)).toEqual(['B']);
+
+      files['posts/.notes-critic/rules/b.md'] = files['blog/.notes-critic/rules/b.md'];
+      delete files['blog/.notes-critic/rules/b.md'];
+      await ruleManager.handleRename('posts', 'blog');
+      expect(ruleManager.getRules().map(rule => rule.filePath)).toEqual(['posts/.notes-critic/rules/b.md']);
+
+      files['posts/b.md'] = files['posts/.notes-critic/rules/b.md'];
+      delete files['posts/.notes-critic/rules/b.md'];
+      await ruleManager.handleRename('posts/b.md', 'posts/.notes-critic/rules/b.md');
+      expect(ruleManager.getRules()).toEqual([]);
+    });
+
+    it('should load the rules of a folder added to the vault, checking only that folder', async () => {
+      const listener = jest.fn();
+      ruleManager.addListener(listener);
+      files['notes/.notes-critic/rules/c.md'] = rule('C');
+      mockApp.vault.adapter.exists.mockClear();
+
+      await ruleManager.handleFolderCreate('notes');
+      await ruleManager.handleFolderCreate('empty');
+
+      expect(mockApp.vault.adapter.exists.mock.calls.map(([path]: any) => path)).toEqual([
+        'notes/.notes-critic/rules', 'notes/.notes-critic/critics', 'empty/.notes-critic/rules', 'empty/.notes-critic/critics'
+      ]);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(ruleManager.getRules().map(rule => rule.name).sort()).toEqual(['A', 'B', 'C']);
+    });
+
+    it('should pick up rule files edited, added or removed outside Obsidian when refreshed', async () => {
+      // No vault events: the folders are hidden
+      files['.notes-critic/rules/a.md'] = rule('A again', 5);
+      files['notes/.notes-critic/rules/c.md'] = rule('C');
+      mockApp.vault.getAllLoadedFiles.mockReturnValue([new TFolder('blog'), new TFolder('notes')]);
+      delete files['blog/.notes-critic/rules/b.md'];
+      expect(ruleManager.getRules().map(rule => rule.name).sort()).toEqual(['A', 'B']);
+
+      await ruleManager.refreshRules();
+
+      expect(ruleManager.getAllRules().map(rule => rule.name).sort()).toEqual(['A again', 'C']);
+    });
+
+    describe('editing rule files', () => {
+      beforeEach(() => {
+        mockApp.vault.adapter.exists.mockImplementation(async (path: string) => path in files || path === '.notes-critic/rules');
+        mockApp.vault.adapter.write = jest.fn(async (path: string, content: string) => { files[path] = content; });
+        mockApp.vault.adapter.remove = jest.fn(async (path: string) => { delete files[path]; });
+        mockApp.vault.adapter.mkdir = jest.fn();
+      });
+
+      it('should save a new rule in the rules folder of a vault folder and load it', async () => {
+        const listener = jest.fn();
+        ruleManager.addListener(listener);
+
+        const path = await ruleManager.newRulePath('journal', 'Daily Notes!');
+        await ruleManager.saveRule(path, { name: 'Daily Notes!', globs: ['*.md'] }, 'Be kind.');
+
+        expect(path).toBe('journal/.notes-critic/rules/daily-notes.md');
+        expect(mockApp.vault.adapter.mkdir).toHaveBeenCalledWith('journal/.notes-critic/rules');
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(ruleManager.getRuleFile(path)?.body).toBe('\nBe kind.\n');
+        expect((await ruleManager.getMatchingRules('journal/today.md')).map(match => match.rule.name)).toContain('Daily Notes!');
+      });
+
+      it('should not overwrite a rule file with the same name', async () => {
+        expect(await ruleManager.newRulePath('', 'A')).toBe('.notes-critic/rules/a-2.md');
+      });
+
+      it('should duplicate a rule under a new name', async () => {
+        const copy = await ruleManager.duplicateRuleFile('blog/.notes-critic/rules/b.md');
+
+        expect(copy).toBe('blog/.notes-critic/rules/b-copy.md');
+        expect(files[copy]).toBe(rule('B').replace('name: B', 'name: B (copy)'));
+        expect(ruleManager.getRules().map(rule => rule.name)).toEqual(['B', 'B (copy)', 'A']);
+      });
+
+      it('should disable and enable a rule', async () => {
+        await ruleManager.setRuleEnabled('.notes-critic/rules/a.md', false);
+        expect(files['.notes-critic/rules/a.md']).toBe('---\nenabled: false\nname: A\npriority: 0\nglobs: ["*.md"]\n---\nReview.');
+        expect(ruleManager.getRules().map(rule => rule.name)).toEqual(['B']);
+
+        await ruleManager.setRuleEnabled('.notes-critic/rules/a.md', true);
+        expect(ruleManager.getRules().map(rule => rule.name).sort()).toEqual(['A', 'B']);
+      });
+
+      it('should delete a rule file', async () => {
+        await ruleManager.deleteRuleFile('.notes-critic/rules/a.md');
+
+        expect(mockApp.vault.adapter.remove).toHaveBeenCalledWith('.notes-critic/rules/a.md');
+        expect(ruleManager.getRuleFile('.notes-critic/rules/a.md')).toBeUndefined();
+        expect(ruleManager.getRules().map(rule => rule.name)).toEqual(['B']);
+      });
+    });
+
+    it('should not unsubscribe other listeners', async () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      const stop = ruleManager.addListener(first);
+      ruleManager.addListener(second);
+
+      stop();
+      await ruleManager.refreshRules();
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -117,7 +280,7 @@ maxTokens: 1000
 This is the rule description and instructions.`;
 
       mockApp.vault.adapter.list.mockResolvedValueOnce({
-        files: ['test/.notes-critic/rules/test.md'],
+        files: ['.notes-critic/rules/test.md'],
         folders: []
       });
 
@@ -138,11 +301,195 @@ This is the rule description and instructions.`;
         feedbackCooldownSeconds: 60,
         model: 'anthropic/claude-3-sonnet-20240229',
         maxTokens: 1000,
-        filePath: 'test/.notes-critic/rules/test.md',
+        filePath: '.notes-critic/rules/test.md',
         content: 'This is the rule description and instructions.'
       });
     });
 
+    it('should parse diff granularity and ignore unknown values', async () => {
+      mockApp.vault.adapter.list.mockResolvedValueOnce({
+        files: ['.notes-critic/rules/word.md', '.notes-critic/rules/bogus.md'],
+        folders: []
+      });
+
+      mockApp.vault.adapter.read
+        .mockResolvedValueOnce(`---
+name: Word Rule
+globs: ["*.md"]
+diffGranularity: word
+---
+Word rule.`)
+        .mockResolvedValueOnce(`---
+name: Bogus Rule
+globs: ["*.md"]
+diffGranularity: paragraphs
+---
+Bogus rule.`);
+
+      await ruleManager.initialize();
+
+      const rules = ruleManager['rules'];
+      expect(rules.find(r => r.name === 'Word Rule')?.diffGranularity).toBe('word');
+      expect(rules.find(r => r.name === 'Bogus Rule')?.diffGranularity).toBeUndefined();
+
+      const config = await ruleManager.getEffectiveConfig('test.md', { diffGranularity: 'line' } as any);
+      expect(config.diffGranularity).toBe('word');
+    });
+
+    it('should parse normalisation options', async () => {
+      mockApp.vault.adapter.list.mockResolvedValueOnce({
+        files: ['.notes-critic/rules/quiet.md'],
+        folders: []
+      });
+
+      mockApp.vault.adapter.read.mockResolvedValueOnce(`---
+name: Quiet Rule
+globs: ["*.md"]
+ignoreFrontmatter: true
+ignoreWhitespace: false
+ignorePatterns:
+  - "^updated: .*$"
+---
+Quiet rule.`);
+
+      await ruleManager.initialize();
+
+      const rule = ruleManager['rules'][0];
+      expect(rule.ignoreFrontmatter).toBe(true);
+      expect(rule.ignoreWhitespace).toBe(false);
+      expect(rule.ignorePatterns).toEqual(['^updated: .*$']);
+
+      const config = await ruleManager.getEffectiveConfig('test.md', { ignoreFrontmatter: false, ignoreWhitespace: true, ignorePatterns: [] } as any);
+      expect(config.ignoreFrontmatter).toBe(true);
+      expect(config.ignoreWhitespace).toBe(false);
+      expect(config.ignorePatterns).toEqual(['^updated: .*$']);
+    });
+
+    it('should parse the feedback trigger and ignore unknown values', async () => {
+      mockApp.vault.adapter.list.mockResolvedValueOnce({
+        files: ['.notes-critic/rules/idle.md', '.notes-critic/rules/bogus.md'],
+        folders: []
+      });
+
+      mockApp.vault.adapter.read
+        .mockResolvedValueOnce(`---
+name: Idle Rule
+globs: ["*.md"]
+priority: 1
+feedbackTrigger: idle
+feedbackIdleSeconds: 20
+---
+Idle rule.`)
+        .mockResolvedValueOnce(`---
+name: Bogus Rule
+globs: ["*.md"]
+feedbackTrigger: later
+---
+Bogus rule.`);
+
+      await ruleManager.initialize();
+
+      const rules = ruleManager['rules'];
+      expect(rules.find(r => r.name === 'Idle Rule')).toMatchObject({ feedbackTrigger: 'idle', feedbackIdleSeconds: 20 });
+      expect(rules.find(r => r.name === 'Bogus Rule')?.feedbackTrigger).toBeUndefined();
+
+      const config = await ruleManager.getEffectiveConfig('test.md', { feedbackTrigger: 'immediate', feedbackIdleSeconds: 10 } as any);
+      expect(config.feedbackTrigger).toBe('idle');
+      expect(config.feedbackIdleSeconds).toBe(20);
+    });
+
+    it('should parse where feedback is written and ignore unknown values', async () => {
+      mockApp.vault.adapter.list.mockResolvedValueOnce({
+        files: ['.notes-critic/rules/sidecar.md', '.notes-critic/rules/bogus.md'],
+        folders: []
+      });
+
+      mockApp.vault.adapter.read
+        .mockResolvedValueOnce(`---
+name: Sidecar Rule
+globs: ["*.md"]
+feedbackOutput: sidecar
+---
+Sidecar rule.`)
+        .mockResolvedValueOnce(`---
+name: Bogus Rule
+globs: ["*.md"]
+feedbackOutput: email
+---
+Bogus rule.`);
+
+      await ruleManager.initialize();
+
+      const rules = ruleManager['rules'];
+      expect(rules.find(r => r.name === 'Bogus Rule')?.feedbackOutput).toBeUndefined();
+
+      const config = await ruleManager.getEffectiveConfig('test.md', { feedbackOutput: 'chat' } as any);
+      expect(config.feedbackOutput).toBe('sidecar');
+    });
+
+    it('should load critic personas and the critics a rule fans out to', async () => {
+      mockApp.vault.adapter.list.mockResolvedValueOnce({
+        files: [
+          '.notes-critic/rules/panel.md',
+          '.notes-critic/critics/fact-checker.md',
+          '.notes-critic/critics/copy.md',
+          '.notes-critic/critics/retired.md'
+        ],
+        folders: []
+      });
+
+      mockApp.vault.adapter.read
+        .mockResolvedValueOnce(`---
+name: Panel Rule
+globs: ["*.md"]
+critics: [fact-checker, copy editor, ghost]
+---
+Panel rule.`)
+        .mockResolvedValueOnce('You check every claim against what you know.')
+        .mockResolvedValueOnce(`---
+name: copy editor
+model: openai/gpt-4o-mini
+---
+You fix grammar and style.`)
+        .mockResolvedValueOnce(`---
+enabled: false
+---
+You are retired.`);
+
+      await ruleManager.initialize();
+
+      expect(ruleManager.getRules()).toHaveLength(1);
+      const critics = await ruleManager.getCritics();
+      expect(critics.map(c => c.name)).toEqual(['fact-checker', 'copy editor', 'retired']);
+      expect(critics[0].model).toBeUndefined();
+      expect(critics[0].prompt).toBe('You check every claim against what you know.');
+      expect(critics[1].model).toBe('openai/gpt-4o-mini');
+
+      const config = await ruleManager.getEffectiveConfig('test.md', { critics: [] } as any);
+      const { critics: found, missing } = await ruleManager.findCritics([...config.critics, 'retired']);
+      expect(found.map(c => c.name)).toEqual(['fact-checker', 'copy editor']);
+      expect(missing).toEqual(['ghost', 'retired']);
+    });
+
+    it('should parse the rubric a rule scores notes on', async () => {
+      mockApp.vault.adapter.list.mockResolvedValueOnce({
+        files: ['.notes-critic/rules/rubric.md'],
+        folders: []
+      });
+
+      mockApp.vault.adapter.read.mockResolvedValueOnce(`---
+name: Rubric Rule
+globs: ["*.md"]
+rubric: [argument, evidence]
+---
+Rubric rule.`);
+
+      await ruleManager.initialize();
+
+      const config = await ruleManager.getEffectiveConfig('test.md', { rubric: ['clarity'] } as any);
+      expect(config.rubric).toEqual(['argument', 'evidence']);
+    });
+
     it('should skip disabled rules', async () => {
       const ruleContent = `---
 name: Disabled Rule
@@ -153,7 +500,7 @@ globs: ["*.md"]
 This rule is disabled.`;
 
       mockApp.vault.adapter.list.mockResolvedValueOnce({
-        files: ['test/.notes-critic/rules/disabled.md'],
+        files: ['.notes-critic/rules/disabled.md'],
         folders: []
       });
 
@@ -169,7 +516,7 @@ This rule is disabled.`;
       const ruleContent = 'Just plain content without frontmatter';
 
       mockApp.vault.adapter.list.mockResolvedValueOnce({
-        files: ['test/.notes-critic/rules/plain.md'],
+        files: ['.notes-critic/rules/plain.md'],
         folders: []
       });
 
@@ -191,7 +538,7 @@ invalid: yaml: content: here
 Content after invalid frontmatter.`;
 
       mockApp.vault.adapter.list.mockResolvedValueOnce({
-        files: ['test/.notes-critic/rules/invalid.md'],
+        files: ['.notes-critic/rules/invalid.md'],
         folders: []
       });
 
@@ -199,9 +546,58 @@ Content after invalid frontmatter.`;
 
       await ruleManager.initialize();
 
-      // The simple YAML parser may still parse this, so we just check it doesn't crash
-      const rules = ruleManager['rules'];
-      expect(rules.length).toBeGreaterThanOrEqual(0);
+      expect(ruleManager.getRules()).toHaveLength(0);
+      const [rule] = ruleManager.getAllRules();
+      expect(rule.diagnostics).toEqual([expect.objectContaining({ severity: 'error', line: 4 })]);
+      expect(rule.diagnostics?.[0].message).toMatch(/^Invalid YAML: /);
+    });
+
+    it('should read full YAML and keep warnings on rules that still load', async () => {
+      mockApp.vault.adapter.list.mockResolvedValueOnce({
+        files: ['.notes-critic/rules/yaml.md'],
+        folders: []
+      });
+
+      mockApp.vault.adapter.read.mockResolvedValueOnce(`---
+name: "Essays: long form" # shown in the settings
+globs:
+  - "*.md"
+priority: high
+tone: formal
+model: >
+  openai/gpt-4o
+---
+Essay rule.`);
+
+      await ruleManager.initialize();
+
+      const [rule] = ruleManager.getRules();
+      expect(rule).toMatchObject({ name: 'Essays: long form', globs: ['*.md'], priority: 0, model: 'openai/gpt-4o\n' });
+      expect(rule.diagnostics).toEqual([
+        { severity: 'warning', message: '"priority" should be a number, so it is ignored', line: 5 },
+        { severity: 'warning', message: 'Unknown setting "tone"', line: 6 }
+      ]);
+    });
+
+    it('should list disabled rules and rules with errors with all rules', async () => {
+      mockApp.vault.adapter.list.mockResolvedValueOnce({
+        files: ['.notes-critic/rules/off.md', '.notes-critic/rules/plain.md'],
+        folders: []
+      });
+
+      mockApp.vault.adapter.read
+        .mockResolvedValueOnce(`---
+name: Off
+enabled: false
+---
+Off.`)
+        .mockResolvedValueOnce('No frontmatter.');
+
+      await ruleManager.initialize();
+
+      expect(ruleManager.getRules()).toEqual([]);
+      expect(ruleManager.getAllRules().map(rule => rule.name)).toEqual(['Off', '.notes-critic/rules/plain.md']);
+      expect(ruleManager.getAllRules()[1].diagnostics?.[0]).toMatchObject({ severity: 'error', line: 1 });
     });
   });
 
@@ -219,7 +615,7 @@ feedbackThreshold: 5
 Rule for markdown files.`;
 
       mockApp.vault.adapter.list.mockResolvedValueOnce({
-        files: ['test/.notes-critic/rules/markdown.md'],
+        files: ['.notes-critic/rules/markdown.md'],
         folders: []
       });
 
@@ -264,6 +660,127 @@ Rule for markdown files.`;
       const cache = ruleManager['ruleCache'];
       expect(cache.has(path)).toBe(true);
     });
+
+    it('should forget cached matches for a moved note or folder', async () => {
+      await ruleManager.getMatchingRules('notes/test.md');
+      await ruleManager.getMatchingRules('notes/sub/other.md');
+      await ruleManager.getMatchingRules('elsewhere.md');
+
+      ruleManager.invalidatePath('notes');
+
+      const cache = ruleManager['ruleCache'];
+      expect(cache.has('notes/test.md')).toBe(false);
+      expect(cache.has('notes/sub/other.md')).toBe(false);
+      expect(cache.has('elsewhere.md')).toBe(true);
+    });
+  });
+
+  describe('getMatchingRules with nested rule folders', () => {
+    const rule = (name: string, settings: string) => `---\nname: ${name}\n${settings}\n---\nReview.`;
+
+    beforeEach(async () => {
+      const files: Record<string, string> = {
+        '.notes-critic/rules/vault.md': rule('Vault', 'priority: 10\nglobs: ["*.md"]\nmodel: vault-model'),
+        'Projects/.notes-critic/rules/projects.md': rule('Projects', 'globs: ["*.md"]\nexclude: ["temp*.md"]'),
+        'Projects/Book/.notes-critic/rules/book.md': rule('Book', 'globs: ["temp*.md"]\nmodel: book-model'),
+        'Projects/Book/.notes-critic/rules/urgent.md': rule('Urgent', 'priority: 5\nglobs: ["temp*.md"]')
+      };
+      mockApp.vault.adapter.list.mockResolvedValueOnce({ files: Object.keys(files), folders: [] });
+      mockApp.vault.adapter.read.mockImplementation(async (path: string) => files[path]);
+      await ruleManager.initialize();
+    });
+
+    it('should only apply rules inside their own folder', async () => {
+      expect((await ruleManager.getMatchingRules('temp-notes.md')).map(match => match.rule.name)).toEqual(['Vault']);
+      expect((await ruleManager.getMatchingRules('Projects/plan.md')).map(match => match.rule.name)).toEqual(['Projects', 'Vault']);
+    });
+
+    it('should match globs and excludes relative to the rule folder', async () => {
+      const matches = await ruleManager.getMatchingRules('Projects/Book/temp-draft.md');
+
+      expect(matches.map(match => match.rule.name)).toEqual(['Urgent', 'Book', 'Projects', 'Vault']);
+      expect(matches[0].matchedPattern).toBe('temp*.md');
+      expect((await ruleManager.getMatchingRules('Projects/temp-plan.md')).map(match => match.rule.name)).toEqual(['Vault']);
+    });
+
+    it('should let deeper folders override shallower ones regardless of priority', async () => {
+      const config = await ruleManager.getEffectiveConfig('Projects/Book/temp-draft.md', { model: 'default-model' } as any);
+
+      expect(config.model).toBe('book-model');
+      expect(ruleManager.getRules().map(rule => rule.scope)).toEqual(['Projects/Book', 'Projects/Book', 'Projects', '']);
+    });
+  });
+
+  describe('getMatchingRules with note selectors', () => {
+    const notes: Record<string, { cache: any; content: string }> = {
+      'essays/one.md': {
+        cache: { frontmatter: { status: 'review', type: 'essay' }, tags: [{ tag: '#draft/first' }], frontmatterPosition: { end: { offset: 34 } } },
+        content: '---\nstatus: review\ntype: essay\n---\nShort essay. TODO: finish'
+      },
+      'journal/two.md': {
+        cache: { frontmatter: { type: 'journal' } },
+        content: 'A long day.'
+      }
+    };
+
+    const loadRule = async (content: string) => {
+      mockApp.vault.adapter.list.mockResolvedValueOnce({ files: ['.notes-critic/rules/rule.md'], folders: [] });
+      mockApp.vault.adapter.read.mockResolvedValue(content);
+      await ruleManager.initialize();
+    };
+
+    beforeEach(() => {
+      mockApp.vault.getAbstractFileByPath = jest.fn((path: string) => notes[path] ? new TFile(path) : null);
+      mockApp.vault.cachedRead = jest.fn(async (file: any) => notes[file.path].content);
+      mockApp.metadataCache = { getFileCache: jest.fn((file: any) => notes[file.path].cache) };
+    });
+
+    it('should match tags and properties from the metadata cache without reading the note', async () => {
+      await loadRule(`---
+name: Drafts in review
+tags: ["#draft"]
+properties:
+  status: review
+  type: [essay, post]
+---
+`);
+
+      const matches = await ruleManager.getMatchingRules('essays/one.md');
+
+      expect(matches.map(match => match.matchedPattern)).toEqual(['#draft, status: review, type in [essay, post]']);
+      expect(await ruleManager.getMatchingRules('journal/two.md')).toEqual([]);
+      expect(await ruleManager.getMatchingRules('missing.md')).toEqual([]);
+      expect(mockApp.vault.cachedRead).not.toHaveBeenCalled();
+    });
+
+    it('should match word counts and content after the frontmatter, along with globs', async () => {
+      await loadRule(`---
+name: Short notes with todos
+globs: ["*.md"]
+maxWords: 10
+contentPatterns: ["TODO:"]
+---
+`);
+
+      const matches = await ruleManager.getMatchingRules('essays/one.md');
+
+      expect(matches.map(match => match.matchedPattern)).toEqual(['*.md, 4 words, /TODO:/']);
+      expect(await ruleManager.getMatchingRules('journal/two.md')).toEqual([]);
+    });
+
+    it('should re-evaluate a note once its cached matches are invalidated', async () => {
+      await loadRule(`---
+tags: [draft]
+---
+`);
+      expect(await ruleManager.getMatchingRules('journal/two.md')).toEqual([]);
+
+      notes['journal/two.md'].cache = { frontmatter: { type: 'journal', tags: ['draft'] } };
+      expect(await ruleManager.getMatchingRules('journal/two.md')).toEqual([]);
+      ruleManager.invalidatePath('journal/two.md');
+
+      expect(await ruleManager.getMatchingRules('journal/two.md')).toHaveLength(1);
+    });
   });
 
   describe('shouldAutoTrigger', () => {
@@ -278,7 +795,7 @@ feedbackThreshold: 3
 Auto trigger rule.`;
 
       mockApp.vault.adapter.list.mockResolvedValueOnce({
-        files: ['test/.notes-critic/rules/auto.md'],
+        files: ['.notes-critic/rules/auto.md'],
         folders: []
       });
 
@@ -302,7 +819,7 @@ Auto trigger rule.`;
   describe('error handling', () => {
     it('should handle file read errors gracefully', async () => {
       mockApp.vault.adapter.list.mockResolvedValueOnce({
-        files: ['test/.notes-critic/rules/error.md'],
+        files: ['.notes-critic/rules/error.md'],
         folders: []
       });
 
@@ -332,7 +849,7 @@ model: "custom-model"
 Custom rule content.`;
 
       mockApp.vault.adapter.list.mockResolvedValueOnce({
-        files: ['test/.notes-critic/rules/custom.md'],
+        files: ['.notes-critic/rules/custom.md'],
         folders: []
       });
 
@@ -355,5 +872,132 @@ Custom rule content.`;
       expect(config?.feedbackPrompt).toBe('Custom rule content.'); // Should be overridden by rule content
       expect(config?.matchedRules).toHaveLength(1);
     });
+
+    it('should override prompts, tools, memory and MCP servers per rule', async () => {
+      mockApp.vault.adapter.list.mockResolvedValueOnce({
+        files: ['.notes-critic/rules/journal.md'],
+        folders: []
+      });
+
+      mockApp.vault.adapter.read.mockResolvedValueOnce(`---
+name: Journal
+globs: ["*.md"]
+systemPrompt: |
+  You are a private companion.
+feedbackPrompt: Be kind.
+summarizerModel: openai/gpt-4o-mini
+enabledTools: [memory]
+memoryDirectory: journal/.memory
+memoryMaxViewCharacters: 1000
+mcpServers: [notes]
+---
+Unused body.`);
+
+      await ruleManager.initialize();
+
+      const client = (id: string, name: string) => ({ getServerConfig: () => ({ id, name }) });
+      const notes = client('server-1', 'notes');
+      const web = client('server-2', 'web');
+      const config = await ruleManager.getEffectiveConfig('test.md', {
+        systemPrompt: 'Default',
+        feedbackPrompt: 'Default feedback',
+        summarizerModel: 'anthropic/claude-3-5-haiku-latest',
+        enabledTools: ['web_search', 'memory'],
+        memoryDirectory: 'memories',
+        memoryMaxViewCharacters: 4000,
+        mcpClients: [notes, web]
+      } as any);
+
+      expect(config).toMatchObject({
+        systemPrompt: 'You are a private companion.\n',
+        feedbackPrompt: 'Be kind.',
+        summarizerModel: 'openai/gpt-4o-mini',
+        enabledTools: ['memory'],
+        memoryDirectory: 'journal/.memory',
+        memoryMaxViewCharacters: 1000
+      });
+      expect(config.mcpClients).toEqual([notes]);
+      expect(ruleManager.getRules()[0].diagnostics).toEqual([
+        { severity: 'warning', message: '"feedbackPrompt" is set, so the text after the frontmatter is not used' }
+      ]);
+    });
+
+    describe('with several matching rules', () => {
+      const ruleFiles: Record<string, string> = {
+        '.notes-critic/rules/house-style.md': `---
+name: House style
+globs: ["*.md"]
+model: house-model
+maxTokens: 1500
+systemPrompt: Be brief.
+---
+Check spelling.`,
+        'blog/.notes-critic/rules/blog.md': `---
+name: Blog
+priority: 10
+globs: ["*.md"]
+model: blog-model
+promptMerge: append
+---
+Check the headline.`
+      };
+
+      const loadRules = async (files: Record<string, string>) => {
+        mockApp.vault.adapter.list.mockResolvedValueOnce({ files: Object.keys(files), folders: [] });
+        mockApp.vault.adapter.read.mockImplementation(async (path: string) => files[path]);
+        await ruleManager.initialize();
+      };
+
+      const defaultSettings = {
+        systemPrompt: 'Default prompt',
+        feedbackPrompt: 'Default feedback prompt',
+        model: 'default-model',
+        maxTokens: 1000
+      } as any;
+
+      it('should let higher-priority rules win and add to prompts as promptMerge says', async () => {
+        await loadRules(ruleFiles);
+
+        const config = await ruleManager.getEffectiveConfig('blog/test.md', defaultSettings);
+
+        expect(config.matchedRules.map(match => match.rule.name)).toEqual(['Blog', 'House style']);
+        expect(config.model).toBe('blog-model');
+        expect(config.maxTokens).toBe(1500);
+        expect(config.systemPrompt).toBe('Be brief.');
+        expect(config.feedbackPrompt).toBe('Check spelling.\n\nCheck the headline.');
+      });
+
+      it('should apply a rule that another matching rule extends once', async () => {
+        await loadRules({
+          ...ruleFiles,
+          'blog/.notes-critic/rules/blog.md': `---
+name: Blog
+priority: 10
+extends: House style
+globs: ["*.md"]
+promptMerge: append
+---
+Check the headline.`
+        });
+
+        const config = await ruleManager.getEffectiveConfig('blog/test.md', defaultSettings);
+
+        expect(config.model).toBe('house-model');
+        expect(config.feedbackPrompt).toBe('Check spelling.\n\nCheck the headline.');
+      });
+
+      it('should explain which rules each setting comes from', async () => {
+        await loadRules(ruleFiles);
+
+        const { config, sources } = await ruleManager.explainEffectiveConfig('blog/test.md', defaultSettings);
+        const source = (field: string) => sources.find(candidate => candidate.field === field);
+
+        expect(config.model).toBe('blog-model');
+        expect(source('model')).toEqual({ field: 'model', value: 'blog-model', rules: ['Blog'] });
+        expect(source('maxTokens')).toEqual({ field: 'maxTokens', value: 1500, rules: ['House style'] });
+        expect(source('feedbackPrompt')?.rules).toEqual(['House style', 'Blog']);
+        expect(source('feedbackThreshold')?.rules).toEqual([]);
+      });
+    });
   });
 });
\ No newline at end of file
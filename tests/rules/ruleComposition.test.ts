@@ -0,0 +1,135 @@
+import { describe, it, expect } from '@jest/globals';
+import { composeRuleFile, mergePrompts, ParsedRuleFile } from '../../src/rules/ruleComposition';
+import { parseFrontmatter, RULE_SCHEMA } from '../../src/rules/ruleSchema';
+
+const ruleFile = (path: string, content: string): ParsedRuleFile => ({
+  path,
+  content,
+  ...parseFrontmatter(content, RULE_SCHEMA, true)
+});
+
+describe('ruleComposition', () => {
+  describe('mergePrompts', () => {
+    it('should replace, append or prepend', () => {
+      expect(mergePrompts('Base.', 'Own.')).toBe('Own.');
+      expect(mergePrompts('Base.', 'Own.', 'append')).toBe('Base.\n\nOwn.');
+      expect(mergePrompts('Base.', 'Own.', 'prepend')).toBe('Own.\n\nBase.');
+      expect(mergePrompts('  ', 'Own.', 'append')).toBe('Own.');
+    });
+  });
+
+  describe('composeRuleFile', () => {
+    const houseStyle = ruleFile('.notes-critic/rules/house-style.md', `---
+name: House style
+enabled: false
+globs: ["**/*.md"]
+model: anthropic/claude-3-5-haiku-latest
+systemPrompt: Be brief.
+---
+Check spelling.`);
+
+    it('should take the settings a rule leaves out from the rule it extends', () => {
+      const blog = ruleFile('blog/.notes-critic/rules/blog.md', `---
+name: Blog
+extends: House style
+globs: ["blog/*.md"]
+---
+Check the headline.`);
+
+      const composed = composeRuleFile(blog, [houseStyle, blog]);
+
+      expect(composed.diagnostics).toEqual([]);
+      expect(composed.values).toMatchObject({
+        name: 'Blog',
+        globs: ['blog/*.md'],
+        model: 'anthropic/claude-3-5-haiku-latest',
+        systemPrompt: 'Be brief.'
+      });
+      // Whether a rule is enabled is its own
+      expect(composed.values.enabled).toBeUndefined();
+      expect(composed.prompt).toBe('Check the headline.');
+      expect(composed.inheritedFrom).toEqual({ model: 'House style', systemPrompt: 'House style' });
+      expect(composed.bases).toEqual(['.notes-critic/rules/house-style.md']);
+    });
+
+    it('should merge prompts with the extended rule as promptMerge says', () => {
+      const blog = ruleFile('blog/.notes-critic/rules/blog.md', `---
+extends: house-style
+promptMerge: append
+systemPrompt: Be friendly.
+---
+Check the headline.`);
+
+      const composed = composeRuleFile(blog, [houseStyle, blog]);
+
+      expect(composed.values.systemPrompt).toBe('Be brief.\n\nBe friendly.');
+      expect(composed.prompt).toBe('Check spelling.\n\nCheck the headline.');
+    });
+
+    it('should inherit the prompt of the extended rule when a rule has none', () => {
+      const drafts = ruleFile('drafts/.notes-critic/rules/drafts.md', `---
+name: Drafts
+extends: Blog
+feedbackThreshold: 10
+---
+`);
+      const blog = ruleFile('blog/.notes-critic/rules/blog.md', `---
+name: Blog
+extends: House style
+---
+`);
+
+      const composed = composeRuleFile(drafts, [houseStyle, blog, drafts]);
+
+      expect(composed.prompt).toBe('Check spelling.');
+      expect(composed.inheritedFrom).toMatchObject({ feedbackPrompt: 'House style', model: 'House style' });
+      expect(composed.bases).toEqual(['blog/.notes-critic/rules/blog.md', '.notes-critic/rules/house-style.md']);
+    });
+
+    it('should report a missing base, a loop and a base with errors on the extends line', () => {
+      const missing = ruleFile('a.md', `---
+name: A
+extends: Nowhere
+---
+`);
+      expect(composeRuleFile(missing, [missing]).diagnostics).toEqual([
+        { severity: 'error', message: '"extends" names "Nowhere", but there is no rule by that name', line: 3 }
+      ]);
+
+      const first = ruleFile('first.md', `---
+extends: second
+---
+`);
+      const second = ruleFile('second.md', `---
+extends: first
+---
+`);
+      expect(composeRuleFile(first, [first, second]).diagnostics).toEqual([
+        { severity: 'error', message: '"extends" goes round in a loop: first.md → second.md → first.md', line: 2 }
+      ]);
+
+      const broken = ruleFile('broken.md', 'No frontmatter');
+      const child = ruleFile('child.md', `---
+extends: broken
+---
+`);
+      expect(composeRuleFile(child, [broken, child]).diagnostics).toEqual([
+        { severity: 'error', message: '"extends" names "broken", which has errors', line: 2 }
+      ]);
+    });
+
+    it('should warn that the body is unused when feedbackPrompt is set', () => {
+      const rule = ruleFile('rule.md', `---
+feedbackPrompt: Be kind.
+---
+Unused body.`);
+
+      const composed = composeRuleFile(rule, [rule]);
+
+      expect(composed.prompt).toBe('Be kind.');
+      expect(composed.diagnostics).toEqual([
+        { severity: 'warning', message: '"feedbackPrompt" is set, so the text after the frontmatter is not used' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from '@jest/globals';
+import { CRITIC_SCHEMA, formatDiagnostic, hasErrors, parseFrontmatter, RULE_SCHEMA, serializeFrontmatter, setBody, setSetting } from '../../src/rules/ruleSchema';
+
+describe('ruleSchema', () => {
+  describe('parseFrontmatter', () => {
+    it('should parse nested YAML, block scalars and comments', () => {
+      const { values, body, diagnostics } = parseFrontmatter(`---
+name: 'Notes: drafts' # a comment
+exclude: [] 
+ignorePatterns:
+  - "^updated: .*$"
+model: |
+  anthropic/claude
+---
+The prompt.`, RULE_SCHEMA, true);
+
+      expect(diagnostics).toEqual([]);
+      expect(values).toEqual({ name: 'Notes: drafts', exclude: [], ignorePatterns: ['^updated: .*$'], model: 'anthropic/claude\n' });
+      expect(body).toBe('The prompt.');
+    });
+
+    it('should warn about unknown settings, wrong types and unknown values, with their lines', () => {
+      const { values, diagnostics } = parseFrontmatter(`---
+globs: "*.md"
+rubric: [clarity, 3]
+"feedbackTrigger": sometimes
+nested:
+  key: value
+enabled: true
+---
+`, RULE_SCHEMA, true);
+
+      expect(values).toEqual({ enabled: true });
+      expect(diagnostics).toEqual([
+        { severity: 'warning', message: '"globs" should be a list of text, so it is ignored', line: 2 },
+        { severity: 'warning', message: '"rubric" should be a list of text, so it is ignored', line: 3 },
+        { severity: 'warning', message: '"feedbackTrigger" should be one of immediate, idle, so it is ignored', line: 4 },
+        { severity: 'warning', message: 'Unknown setting "nested"', line: 5 }
+      ]);
+    });
+
+    it('should read property conditions and ignore nested ones', () => {
+      const { values, diagnostics } = parseFrontmatter(`---
+properties:
+  status: review
+  type: [essay, post]
+tags: [draft]
+---
+`, RULE_SCHEMA, true);
+
+      expect(values).toEqual({ properties: { status: 'review', type: ['essay', 'post'] }, tags: ['draft'] });
+      expect(diagnostics).toEqual([]);
+
+      const nested = parseFrontmatter('---\nproperties:\n  author:\n    name: me\n---\n', RULE_SCHEMA, true);
+      expect(nested.values).toEqual({});
+      expect(nested.diagnostics[0]).toMatchObject({ severity: 'warning', line: 2 });
+    });
+
+    it('should treat empty settings as not set', () => {
+      const { values, diagnostics } = parseFrontmatter('---\nmodel:\n---\nBody', RULE_SCHEMA, true);
+
+      expect(values).toEqual({});
+      expect(diagnostics).toEqual([]);
+    });
+
+    it('should report invalid YAML at its line', () => {
+      const { values, diagnostics } = parseFrontmatter('---\nname: ok\nglobs: [unclosed\n---\nBody', RULE_SCHEMA, true);
+
+      expect(values).toEqual({});
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].severity).toBe('error');
+      expect(diagnostics[0].message).toMatch(/^Invalid YAML: /);
+      expect(diagnostics[0].line).toBeGreaterThanOrEqual(3);
+    });
+
+    it('should report frontmatter that is not a map of settings', () => {
+      expect(parseFrontmatter('---\n- a\n- b\n---\nBody', RULE_SCHEMA, true).diagnostics)
+        .toEqual([{ severity: 'error', message: 'Frontmatter should be a list of "setting: value" lines', line: 2 }]);
+    });
+
+    it('should only require frontmatter when asked', () => {
+      expect(hasErrors(parseFrontmatter('Just a prompt.', RULE_SCHEMA, true).diagnostics)).toBe(true);
+      expect(parseFrontmatter('Just a prompt.', CRITIC_SCHEMA, false)).toEqual({ values: {}, body: 'Just a prompt.', diagnostics: [] });
+    });
+
+    it('should accept empty frontmatter and Windows line endings', () => {
+      expect(parseFrontmatter('---\n---\nBody', RULE_SCHEMA, true)).toEqual({ values: {}, body: 'Body', diagnostics: [] });
+      expect(parseFrontmatter('---\r\nname: Win\r\n---\r\nBody', RULE_SCHEMA, true).values).toEqual({ name: 'Win' });
+    });
+  });
+
+  describe('serializeFrontmatter', () => {
+    it('should write the set settings and the body so they parse back', () => {
+      const content = serializeFrontmatter({ name: 'Blog', enabled: true, globs: ['blog/**'], priority: undefined, model: '' }, 'Review ${diff}\n');
+
+      expect(content).toBe('---\nname: Blog\nenabled: true\nglobs:\n  - blog/**\n---\n\nReview ${diff}\n');
+      expect(parseFrontmatter(content, RULE_SCHEMA, true)).toEqual({
+        values: { name: 'Blog', enabled: true, globs: ['blog/**'] },
+        body: '\nReview ${diff}\n',
+        diagnostics: []
+      });
+    });
+
+    it('should write empty frontmatter when nothing is set', () => {
+      expect(serializeFrontmatter({}, '')).toBe('---\n---\n');
+    });
+  });
+
+  describe('setSetting', () => {
+    it('should replace a setting and keep the rest of the file', () => {
+      const content = '---\nname: Blog # posts\nenabled: true\nglobs:\n  - blog/**\n---\nBody';
+
+      expect(setSetting(content, 'enabled', false)).toBe('---\nname: Blog # posts\nenabled: false\nglobs:\n  - blog/**\n---\nBody');
+      expect(setSetting(content, 'globs', ['posts/**'])).toBe('---\nname: Blog # posts\nenabled: true\nglobs:\n  - posts/**\n---\nBody');
+    });
+
+    it('should add a missing setting or frontmatter', () => {
+      expect(setSetting('---\nname: Blog\n---\nBody', 'enabled', false)).toBe('---\nenabled: false\nname: Blog\n---\nBody');
+      expect(setSetting('Body', 'enabled', false)).toBe('---\nenabled: false\n---\nBody');
+    });
+
+    it('should remove a setting left unset', () => {
+      const content = '---\nname: Blog # posts\nglobs:\n  - blog/**\nenabled: true\n---\nBody';
+
+      expect(setSetting(content, 'globs', undefined)).toBe('---\nname: Blog # posts\nenabled: true\n---\nBody');
+      expect(setSetting(content, 'tags', undefined)).toBe(content);
+    });
+  });
+
+  describe('setBody', () => {
+    it('should replace the body and keep the frontmatter as written', () => {
+      const content = '---\n# Comment\nname: Blog\nlegacy: 1\n---\n\nOld body\n';
+
+      expect(setBody(content, ' New body ')).toBe('---\n# Comment\nname: Blog\nlegacy: 1\n---\n\nNew body\n');
+      expect(setBody('---\nname: Blog\n---', 'Body')).toBe('---\nname: Blog\n---\n\nBody\n');
+      expect(setBody(content, '')).toBe('---\n# Comment\nname: Blog\nlegacy: 1\n---\n');
+    });
+  });
+
+  describe('formatDiagnostic', () => {
+    it('should give the file and line', () => {
+      expect(formatDiagnostic('rules/a.md', { severity: 'warning', message: 'Unknown setting "x"', line: 3 }))
+        .toBe('rules/a.md:3: Unknown setting "x"');
+      expect(formatDiagnostic('rules/a.md', { severity: 'error', message: 'Broken' })).toBe('rules/a.md: Broken');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { checkSelectors, hasNoteSelectors, matchNoteSelectors, needsContent, NoteFacts, noteTags } from '../../src/rules/ruleSelectors';
+
+const note = (facts: Partial<NoteFacts>): NoteFacts => ({ tags: [], frontmatter: {}, content: null, ...facts });
+
+describe('ruleSelectors', () => {
+  describe('noteTags', () => {
+    it('should collect tags from the text and the frontmatter in lower case', () => {
+      const cache = {
+        frontmatter: { tags: ['Draft', '#essay'] },
+        tags: [{ tag: '#todo/Later', position: {} }]
+      };
+
+      expect(noteTags(cache as any)).toEqual(['#draft', '#essay', '#todo/later']);
+      expect(noteTags(null)).toEqual([]);
+    });
+  });
+
+  describe('hasNoteSelectors and needsContent', () => {
+    it('should tell selectors on metadata from selectors on the text', () => {
+      expect(hasNoteSelectors({})).toBe(false);
+      expect(hasNoteSelectors({ tags: [], properties: {} })).toBe(false);
+      expect(hasNoteSelectors({ tags: ['draft'] })).toBe(true);
+      expect(needsContent({ tags: ['draft'], properties: { status: 'review' } })).toBe(false);
+      expect(needsContent({ maxWords: 500 })).toBe(true);
+      expect(needsContent({ contentPatterns: ['TODO'] })).toBe(true);
+    });
+  });
+
+  describe('matchNoteSelectors', () => {
+    it('should match any of the tags, including nested tags', () => {
+      const rule = { tags: ['#draft', 'outline'] };
+
+      expect(matchNoteSelectors(rule, note({ tags: ['#draft/first'] }))).toEqual(['#draft']);
+      expect(matchNoteSelectors(rule, note({ tags: ['#outline'] }))).toEqual(['#outline']);
+      expect(matchNoteSelectors(rule, note({ tags: ['#drafts'] }))).toBeNull();
+    });
+
+    it('should require every property, with a list matching any of its values', () => {
+      const rule = { properties: { status: 'review', type: ['essay', 'post'] } };
+
+      expect(matchNoteSelectors(rule, note({ frontmatter: { status: 'Review', type: 'post' } })))
+        .toEqual(['status: review', 'type in [essay, post]']);
+      expect(matchNoteSelectors(rule, note({ frontmatter: { status: 'review', type: ['note', 'essay'] } }))).not.toBeNull();
+      expect(matchNoteSelectors(rule, note({ frontmatter: { status: 'review', type: 'note' } }))).toBeNull();
+      expect(matchNoteSelectors(rule, note({ frontmatter: { type: 'essay' } }))).toBeNull();
+      expect(matchNoteSelectors({ properties: { published: false } }, note({ frontmatter: { published: false } }))).toEqual(['published: false']);
+    });
+
+    it('should match word count ranges and content patterns', () => {
+      const content = 'Some words here.\nTODO: finish';
+
+      expect(matchNoteSelectors({ minWords: 3, maxWords: 10 }, note({ content }))).toEqual(['5 words']);
+      expect(matchNoteSelectors({ minWords: 10 }, note({ content }))).toBeNull();
+      expect(matchNoteSelectors({ maxWords: 4 }, note({ content }))).toBeNull();
+      expect(matchNoteSelectors({ contentPatterns: ['^FIXME', '^TODO:'] }, note({ content }))).toEqual(['/^TODO:/']);
+      expect(matchNoteSelectors({ contentPatterns: ['^FIXME', '('] }, note({ content }))).toBeNull();
+    });
+  });
+
+  describe('checkSelectors', () => {
+    it('should warn about invalid patterns and impossible word counts', () => {
+      const lines: Record<string, number> = { contentPatterns: 4, minWords: 5 };
+
+      const diagnostics = checkSelectors({ contentPatterns: ['ok', '('], minWords: 100, maxWords: 10 }, key => lines[key]);
+
+      expect(diagnostics).toEqual([
+        { severity: 'warning', message: expect.stringContaining('"contentPatterns" has an invalid regular expression, so it is ignored'), line: 4 },
+        { severity: 'warning', message: '"minWords" is more than "maxWords", so no note matches', line: 5 }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  averageScores,
+  formatScoresBlock,
+  lowestScoringNotes,
+  normalizeRubric,
+  overallScore,
+  parseScores,
+  rubricInstructions,
+  stripScores
+} from '../src/scores';
+import { NoteScore } from '../src/types';
+
+const block = (scores: unknown) => '```notes-critic-scores\n' + JSON.stringify(scores) + '\n```';
+
+const score = (overall: number): NoteScore => ({ reviewedAt: 0, scores: { clarity: overall }, overall });
+
+describe('scores', () => {
+  describe('normalizeRubric', () => {
+    it('should trim, lowercase and drop blank or repeated criteria', () => {
+      expect(normalizeRubric([' Clarity', 'structure', '', 'clarity '])).toEqual(['clarity', 'structure']);
+    });
+  });
+
+  describe('rubricInstructions', () => {
+    it('should ask for a score block in free-form replies', () => {
+      const instructions = rubricInstructions(['Clarity', 'structure'], false);
+
+      expect(instructions).toContain('clarity, structure');
+      expect(parseScores(instructions)).toEqual({ clarity: 7, structure: 7 });
+    });
+
+    it('should leave the format to the schema for structured feedback', () => {
+      expect(rubricInstructions(['clarity'], true)).not.toContain('```');
+    });
+
+    it('should be empty without criteria', () => {
+      expect(rubricInstructions([' '], false)).toBe('');
+    });
+  });
+
+  describe('parseScores', () => {
+    it('should read the scores of structured feedback', () => {
+      const response = JSON.stringify({ items: [], scores: [{ criterion: 'Clarity', score: 6 }, { criterion: 'structure', score: 8 }] });
+      expect(parseScores(response)).toEqual({ clarity: 6, structure: 8 });
+    });
+
+    it('should read the last valid score block of a free-form reply', () => {
+      const response = `Good.\n${block({ clarity: 5 })}\nActually:\n${block({ clarity: '6' })}\n${block('not scores')}`;
+      expect(parseScores(response)).toEqual({ clarity: 6 });
+    });
+
+    it('should clamp scores to the scale and keep only rubric criteria', () => {
+      const response = block({ clarity: 14, structure: -2, tone: 5, depth: 'high' });
+
+      expect(parseScores(response)).toEqual({ clarity: 10, structure: 1, tone: 5 });
+      expect(parseScores(response, ['Clarity'])).toEqual({ clarity: 10 });
+    });
+
+    it('should return null without scores', () => {
+      expect(parseScores('No scores.')).toBeNull();
+      expect(parseScores(JSON.stringify({ items: [] }))).toBeNull();
+      expect(parseScores(block({ tone: 5 }), ['clarity'])).toBeNull();
+    });
+  });
+
+  describe('stripScores', () => {
+    it('should remove score blocks, including an unfinished one', () => {
+      expect(stripScores(`Good.\n${block({ clarity: 5 })}`)).toBe('Good.');
+      expect(stripScores('Good.\n```notes-critic-scores\n{"clar')).toBe('Good.');
+    });
+  });
+
+  describe('formatScoresBlock', () => {
+    it('should write scores that parse back', () => {
+      expect(parseScores(formatScoresBlock({ clarity: 6.5 }))).toEqual({ clarity: 6.5 });
+    });
+  });
+
+  describe('overallScore and averageScores', () => {
+    it('should average to one decimal place', () => {
+      expect(overallScore({ clarity: 6, structure: 7, completeness: 7 })).toBe(6.7);
+      expect(overallScore({})).toBe(0);
+    });
+
+    it('should average each criterion over the sets that have it', () => {
+      expect(averageScores([{ clarity: 6, structure: 8 }, { clarity: 7 }])).toEqual({ clarity: 6.5, structure: 8 });
+      expect(averageScores([])).toBeNull();
+    });
+  });
+
+  describe('lowestScoringNotes', () => {
+    const history = new Map<string, NoteScore[]>([
+      ['a.md', [score(3), score(8)]],
+      ['b.md', [score(4)]],
+      ['c.md', [score(4)]],
+      ['old.md', [score(1)]],
+      ['deleted.md', [score(1)]]
+    ]);
+    const edited: Record<string, number> = { 'a.md': 500, 'b.md': 200, 'c.md': 300, 'old.md': 50 };
+    const editedAt = (path: string) => edited[path] ?? null;
+
+    it('should rank recently edited notes by their latest score', () => {
+      const notes = lowestScoringNotes(history, editedAt, 100, 10);
+
+      expect(notes.map(note => note.path)).toEqual(['c.md', 'b.md', 'a.md']);
+      expect(notes[2]).toEqual({ path: 'a.md', score: score(8), editedAt: 500 });
+    });
+
+    it('should keep to the limit', () => {
+      expect(lowestScoringNotes(history, editedAt, 0, 2).map(note => note.path)).toEqual(['old.md', 'c.md']);
+    });
+  });
+});
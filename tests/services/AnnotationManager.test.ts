@@ -0,0 +1,41 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { AnnotationManager } from '../../src/services/AnnotationManager';
+
+describe('AnnotationManager', () => {
+  let mockApp: any;
+  let manager: AnnotationManager;
+  const annotation = (id: string) => ({ id, quote: `quote ${id}`, comment: `comment ${id}` });
+
+  beforeEach(() => {
+    mockApp = { workspace: { getLeavesOfType: jest.fn(() => []) } };
+    manager = new AnnotationManager(mockApp);
+  });
+
+  it('should replace a note\'s annotations and refresh its editors', () => {
+    manager.set('note.md', [annotation('a'), annotation('b')]);
+    manager.set('note.md', [annotation('c')]);
+
+    expect(manager.get('note.md').map(a => a.id)).toEqual(['c']);
+    expect(mockApp.workspace.getLeavesOfType).toHaveBeenCalledWith('markdown');
+  });
+
+  it('should forget resolved annotations', () => {
+    manager.set('note.md', [annotation('a'), annotation('b')]);
+
+    manager.resolve('note.md', 'a');
+
+    expect(manager.get('note.md').map(a => a.id)).toEqual(['b']);
+  });
+
+  it('should follow renamed notes and forget deleted ones', () => {
+    manager.set('drafts/a.md', [annotation('a')]);
+    manager.set('other.md', [annotation('b')]);
+
+    manager.handleRename('drafts', 'archive/drafts');
+    expect(manager.get('archive/drafts/a.md')).toHaveLength(1);
+    expect(manager.get('drafts/a.md')).toEqual([]);
+
+    manager.handleDelete('other.md');
+    expect(manager.get('other.md')).toEqual([]);
+  });
+});
@@ -0,0 +1,412 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { TFile, Notice } from 'obsidian';
+import { ChangeTracker } from '../../src/services/ChangeTracker';
+import { DEFAULT_SETTINGS } from '../../src/constants';
+
+describe('ChangeTracker', () => {
+  let contents: Map<string, string>;
+  let files: Map<string, TFile>;
+  let mockApp: any;
+  let ruleManager: any;
+  let snapshotStore: any;
+  let settings: any;
+  let tracker: ChangeTracker;
+
+  const addNote = (path: string, content: string): TFile => {
+    const file = new TFile(path);
+    files.set(path, file);
+    contents.set(path, content);
+    return file;
+  };
+
+  const edit = async (file: TFile, content: string) => {
+    contents.set(file.path, content);
+    await tracker.handleModify(file);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    contents = new Map();
+    files = new Map();
+    mockApp = {
+      workspace: { getActiveFile: jest.fn(), getActiveViewOfType: jest.fn() },
+      vault: {
+        cachedRead: jest.fn(async (file: TFile) => contents.get(file.path)),
+        getMarkdownFiles: jest.fn(() => Array.from(files.values())),
+        getAbstractFileByPath: jest.fn((path: string) => files.get(path) ?? null)
+      }
+    };
+    ruleManager = {
+      initialize: jest.fn(async () => undefined),
+      getMatchingRules: jest.fn(async (path: string) => path.startsWith('drafts/') ? [{ rule: {}, matchedPattern: 'drafts/**' }] : []),
+      shouldAutoTrigger: jest.fn(async () => true),
+      getEffectiveConfig: jest.fn(async () => ({ ...settings, matchedRules: [] })),
+      invalidatePath: jest.fn()
+    };
+    snapshotStore = {
+      load: jest.fn(async () => undefined),
+      get: jest.fn(),
+      saveBaseline: jest.fn(async () => undefined),
+      saveFeedbackTime: jest.fn(async () => undefined),
+      getLastFeedbackTime: jest.fn(),
+      rename: jest.fn(async () => undefined),
+      remove: jest.fn(async () => undefined)
+    };
+    settings = { ...DEFAULT_SETTINGS, feedbackThreshold: 2, feedbackCooldownSeconds: 0 };
+    tracker = new ChangeTracker(mockApp, settings, ruleManager, snapshotStore);
+  });
+
+  describe('start', () => {
+    it('should load rules and stored baselines without reading any note', async () => {
+      addNote('drafts/essay.md', 'Draft');
+
+      await tracker.start();
+
+      expect(ruleManager.initialize).toHaveBeenCalled();
+      expect(snapshotStore.load).toHaveBeenCalled();
+      expect(mockApp.vault.cachedRead).not.toHaveBeenCalled();
+      expect(tracker.getSnapshot('drafts/essay.md')).toBeUndefined();
+    });
+  });
+
+  describe('handleOpen', () => {
+    it('should start tracking an opened note that matches a rule', async () => {
+      const file = addNote('drafts/essay.md', 'Draft');
+
+      await tracker.handleOpen(file);
+
+      expect(tracker.getSnapshot(file.path)?.baseline).toBe('Draft');
+    });
+
+    it('should leave opened notes without a matching rule alone', async () => {
+      const file = addNote('journal/today.md', 'Entry');
+
+      await tracker.handleOpen(file);
+
+      expect(tracker.getSnapshot(file.path)).toBeUndefined();
+    });
+  });
+
+  describe('handleModify', () => {
+    it('should accumulate changes to notes that are not open', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+
+      await edit(file, 'One\n\nTwo');
+
+      expect(tracker.getSnapshot(file.path)?.changeCount).toBe(1);
+    });
+
+    it('should count the first edit to a note that was never opened from its stored baseline', async () => {
+      snapshotStore.get.mockReturnValue({ baseline: 'One' });
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.start();
+
+      await edit(file, 'One\n\nTwo');
+
+      expect(tracker.getSnapshot(file.path)?.baseline).toBe('One');
+      expect(tracker.getSnapshot(file.path)?.changeCount).toBe(1);
+    });
+
+    it('should ignore edits to untracked notes without a matching rule', async () => {
+      const file = addNote('journal/today.md', 'Entry');
+
+      await edit(file, 'Entry\n\nMore');
+
+      expect(tracker.getSnapshot(file.path)).toBeUndefined();
+      expect(mockApp.vault.cachedRead).not.toHaveBeenCalled();
+    });
+
+    it('should not track review files written next to notes', async () => {
+      const file = addNote('drafts/essay.review.md', 'Review');
+
+      await edit(file, 'Review\n\nMore');
+
+      expect(tracker.getSnapshot(file.path)).toBeUndefined();
+    });
+
+    it('should not count reviews written into the note as changes', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+
+      await edit(file, '---\ncritic_score: 90\n---\nOne\n\n> [!critic]- minor · style\n> Wordy.');
+
+      expect(tracker.getSnapshot(file.path)?.changeCount).toBe(0);
+    });
+
+    it('should keep tracking notes that were opened even without a rule', async () => {
+      const file = addNote('journal/today.md', 'Entry');
+      await tracker.track(file);
+
+      await edit(file, 'Entry\n\nMore');
+
+      expect(tracker.getSnapshot(file.path)?.changeCount).toBe(1);
+    });
+
+    it('should notify listeners when a snapshot changes', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+      const listener = jest.fn();
+      tracker.addListener(listener);
+
+      await edit(file, 'One\n\nTwo');
+
+      expect(listener).toHaveBeenCalled();
+    });
+  });
+
+  describe('handleMetadataChange', () => {
+    it('should re-evaluate the rules and start tracking a note that now matches one', async () => {
+      const file = addNote('notes/idea.md', 'Idea');
+      await tracker.start();
+      expect(tracker.getSnapshot(file.path)).toBeUndefined();
+
+      // e.g. the note was tagged #draft
+      ruleManager.getMatchingRules.mockResolvedValueOnce([{ rule: {}, matchedPattern: '#draft' }]);
+      await tracker.handleMetadataChange(file);
+
+      expect(ruleManager.invalidatePath).toHaveBeenCalledWith('notes/idea.md');
+      expect(tracker.getSnapshot(file.path)?.baseline).toBe('Idea');
+    });
+  });
+
+  describe('feedback', () => {
+    it('should send feedback to the registered handler once the threshold is reached', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+      const handler = jest.fn(async (_file: TFile) => undefined);
+      tracker.setFeedbackHandler(handler);
+
+      await edit(file, 'One\n\nTwo');
+      expect(handler).not.toHaveBeenCalled();
+
+      await edit(file, 'One\n\nTwo\n\nThree');
+      expect(handler).toHaveBeenCalledWith(file);
+      expect(snapshotStore.saveFeedbackTime).toHaveBeenCalledWith(file.path, expect.any(Date));
+    });
+
+    it('should not trigger when auto-triggering is disabled', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+      ruleManager.shouldAutoTrigger.mockResolvedValue(false);
+      const handler = jest.fn(async (_file: TFile) => undefined);
+      tracker.setFeedbackHandler(handler);
+
+      await edit(file, 'One\n\nTwo\n\nThree');
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should respect the cooldown, including one restored from a previous session', async () => {
+      settings.feedbackCooldownSeconds = 60;
+      snapshotStore.getLastFeedbackTime.mockReturnValue(new Date());
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+      const handler = jest.fn(async (_file: TFile) => undefined);
+      tracker.setFeedbackHandler(handler);
+
+      await edit(file, 'One\n\nTwo\n\nThree');
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should queue feedback while no view is listening and send it when one registers', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+
+      await edit(file, 'One\n\nTwo\n\nThree');
+      await edit(file, 'One\n\nTwo\n\nThree\n\nFour');
+
+      expect(tracker.getPendingFeedback()).toEqual(['drafts/essay.md']);
+      expect(Notice).toHaveBeenCalledTimes(1);
+
+      const handler = jest.fn(async (_file: TFile) => undefined);
+      tracker.setFeedbackHandler(handler);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(handler).toHaveBeenCalledWith(file);
+      expect(tracker.getPendingFeedback()).toEqual([]);
+    });
+
+    it('should drop queued feedback for notes that no longer exist', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+      await tracker.requestFeedback(file);
+      files.delete(file.path);
+
+      const handler = jest.fn(async (_file: TFile) => undefined);
+      tracker.setFeedbackHandler(handler);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(tracker.getPendingFeedback()).toEqual([]);
+    });
+
+    it('should move the baseline up when a note is reviewed', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+      await edit(file, 'One\n\nTwo');
+
+      tracker.markReviewed(file);
+
+      expect(tracker.getSnapshot(file.path)?.baseline).toBe('One\n\nTwo');
+      expect(tracker.getSnapshot(file.path)?.changeCount).toBe(0);
+      expect(snapshotStore.saveBaseline).toHaveBeenCalledWith(file.path, 'One\n\nTwo');
+    });
+  });
+
+  describe('idle trigger', () => {
+    let handler: jest.Mock<(file: TFile) => Promise<void>>;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      settings.feedbackTrigger = 'idle';
+      settings.feedbackIdleSeconds = 10;
+      handler = jest.fn(async (_file: TFile) => undefined);
+      tracker.setFeedbackHandler(handler);
+    });
+
+    afterEach(() => {
+      tracker.stop();
+      jest.useRealTimers();
+    });
+
+    it('should wait until the note has been quiet for the idle delay', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+
+      await edit(file, 'One\n\nTwo\n\nThree');
+      jest.advanceTimersByTime(6000);
+      await edit(file, 'One\n\nTwo\n\nThree\n\nFour');
+      jest.advanceTimersByTime(6000);
+      expect(handler).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(4000);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(file);
+    });
+
+    it('should not fire once edits fall back below the threshold', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+
+      await edit(file, 'One\n\nTwo\n\nThree');
+      await edit(file, 'One');
+      jest.advanceTimersByTime(20000);
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should send waiting feedback straight away when flushed', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+      await edit(file, 'One\n\nTwo\n\nThree');
+
+      await tracker.flushIdleFeedback(file);
+
+      expect(handler).toHaveBeenCalledWith(file);
+      jest.advanceTimersByTime(20000);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not flush before the cooldown has passed', async () => {
+      settings.feedbackCooldownSeconds = 60;
+      snapshotStore.getLastFeedbackTime.mockReturnValue(new Date());
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+      await edit(file, 'One\n\nTwo\n\nThree');
+
+      await tracker.flushIdleFeedback(file);
+      expect(handler).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(60000);
+      expect(handler).toHaveBeenCalledWith(file);
+    });
+
+    it('should do nothing when flushing a note with no waiting feedback', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+
+      await tracker.flushIdleFeedback(file);
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should cancel waiting feedback for a deleted note', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+      await edit(file, 'One\n\nTwo\n\nThree');
+
+      await tracker.handleDelete(file);
+      jest.advanceTimersByTime(20000);
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rename and delete', () => {
+    const rename = (file: TFile, newPath: string) => {
+      const oldPath = file.path;
+      files.delete(oldPath);
+      files.set(newPath, file);
+      contents.set(newPath, contents.get(oldPath) as string);
+      file.path = newPath;
+      return tracker.handleRename(file, oldPath);
+    };
+
+    it('should carry the snapshot and cooldown over to the new path', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+      await edit(file, 'One\n\nTwo');
+      tracker.markReviewed(file, new Date('2024-01-01T10:00:00Z'));
+      await edit(file, 'One\n\nTwo\n\nThree');
+
+      await rename(file, 'drafts/renamed.md');
+
+      expect(tracker.getSnapshot('drafts/essay.md')).toBeUndefined();
+      expect(tracker.getSnapshot('drafts/renamed.md')?.baseline).toBe('One\n\nTwo');
+      expect(tracker.getLastFeedbackTime('drafts/renamed.md')).toEqual(new Date('2024-01-01T10:00:00Z'));
+      expect(snapshotStore.rename).toHaveBeenCalledWith('drafts/essay.md', 'drafts/renamed.md');
+    });
+
+    it('should re-evaluate rules for the new location', async () => {
+      const file = addNote('journal/today.md', 'Entry');
+      await tracker.start();
+      expect(tracker.getSnapshot('journal/today.md')).toBeUndefined();
+
+      await rename(file, 'drafts/today.md');
+
+      expect(ruleManager.invalidatePath).toHaveBeenCalledWith('journal/today.md');
+      expect(ruleManager.invalidatePath).toHaveBeenCalledWith('drafts/today.md');
+      expect(tracker.getSnapshot('drafts/today.md')?.baseline).toBe('Entry');
+    });
+
+    it('should move queued feedback along with a renamed folder', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+      await tracker.requestFeedback(file);
+
+      const folder = { path: 'archive/drafts' } as any;
+      files.delete('drafts/essay.md');
+      file.path = 'archive/drafts/essay.md';
+      files.set(file.path, file);
+      await tracker.handleRename(folder, 'drafts');
+
+      expect(tracker.getPendingFeedback()).toEqual(['archive/drafts/essay.md']);
+      expect(tracker.getSnapshot('archive/drafts/essay.md')).toBeDefined();
+    });
+
+    it('should forget everything about a deleted note', async () => {
+      const file = addNote('drafts/essay.md', 'One');
+      await tracker.handleOpen(file);
+      await tracker.requestFeedback(file);
+
+      await tracker.handleDelete(file);
+
+      expect(tracker.getSnapshot('drafts/essay.md')).toBeUndefined();
+      expect(tracker.getPendingFeedback()).toEqual([]);
+      expect(ruleManager.invalidatePath).toHaveBeenCalledWith('drafts/essay.md');
+      expect(snapshotStore.remove).toHaveBeenCalledWith('drafts/essay.md');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { CheckpointStore } from '../../src/services/CheckpointStore';
+import { createAdapter, storedRecord } from './mockAdapter';
+
+describe('CheckpointStore', () => {
+  let files: Map<string, string>;
+  let adapter: ReturnType<typeof createAdapter>;
+  let settings: { checkpointPath: string };
+  let store: CheckpointStore;
+
+  beforeEach(() => {
+    files = new Map();
+    adapter = createAdapter(files);
+    settings = { checkpointPath: '.notes-critic/checkpoints' };
+    store = new CheckpointStore({ vault: { adapter } } as any, settings);
+  });
+
+  it('should save named checkpoints of a note under the checkpoint path', async () => {
+    await store.create('folder/note.md', 'draft 1', 'First draft');
+    await store.create('folder/note.md', 'before restructure', 'Second draft');
+
+    expect(adapter.mkdir).toHaveBeenCalledWith('.notes-critic/checkpoints');
+    const record = storedRecord(files, 'folder/note.md');
+    expect(record.path).toBe('folder/note.md');
+    expect(record.checkpoints.map((c: any) => c.name)).toEqual(['draft 1', 'before restructure']);
+  });
+
+  it('should list checkpoints oldest first and look them up by id', async () => {
+    const first = await store.create('note.md', 'draft 1', 'One');
+    const second = await store.create('note.md', 'draft 2', 'Two');
+
+    expect(store.list('note.md').map(c => c.id)).toEqual([first.id, second.id]);
+    expect(store.get('note.md', second.id)?.content).toBe('Two');
+    expect(store.list('other.md')).toEqual([]);
+  });
+
+  it('should name unnamed checkpoints after the time they were taken', async () => {
+    const checkpoint = await store.create('note.md', '  ', 'Content');
+
+    expect(checkpoint.name).toBe(new Date(checkpoint.createdAt).toLocaleString());
+  });
+
+  it('should restore checkpoints in a new session', async () => {
+    const checkpoint = await store.create('note.md', 'draft 1', 'First draft');
+
+    const restored = new CheckpointStore({ vault: { adapter } } as any, settings);
+    await restored.load();
+
+    expect(restored.get('note.md', checkpoint.id)).toEqual(checkpoint);
+  });
+
+  it('should skip unreadable records', async () => {
+    files.set('.notes-critic/checkpoints/broken.json', '{not json');
+    await store.create('note.md', 'draft 1', 'Content');
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+
+    const restored = new CheckpointStore({ vault: { adapter } } as any, settings);
+    await restored.load();
+
+    expect(restored.list('note.md')).toHaveLength(1);
+    expect(consoleSpy).toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+
+  it('should delete a checkpoint, and the record with the last one', async () => {
+    const first = await store.create('note.md', 'draft 1', 'One');
+    const second = await store.create('note.md', 'draft 2', 'Two');
+
+    await store.delete('note.md', first.id);
+    expect(store.list('note.md').map(c => c.id)).toEqual([second.id]);
+
+    await store.delete('note.md', second.id);
+    expect(store.list('note.md')).toEqual([]);
+    expect(storedRecord(files, 'note.md')).toBeUndefined();
+  });
+
+  it('should move checkpoints when their note is renamed', async () => {
+    await store.create('old.md', 'draft 1', 'One');
+
+    await store.rename('old.md', 'folder/new.md');
+
+    expect(store.list('old.md')).toEqual([]);
+    expect(storedRecord(files, 'old.md')).toBeUndefined();
+    expect(store.list('folder/new.md')).toMatchObject([{ name: 'draft 1', path: 'folder/new.md' }]);
+  });
+
+  it('should move the checkpoints of notes inside a renamed folder', async () => {
+    await store.create('drafts/a.md', 'draft 1', 'A');
+    await store.create('drafts-other.md', 'draft 1', 'B');
+
+    await store.rename('drafts', 'archive/drafts');
+
+    expect(store.list('archive/drafts/a.md')).toHaveLength(1);
+    expect(store.list('drafts/a.md')).toEqual([]);
+    expect(store.list('drafts-other.md')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,137 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { relinkConversationLogs, scoresFromConversationLogs } from '../../src/services/ConversationLogs';
+
+const feedbackTurn = (path: string, name: string) => ({
+  id: 'turn-1',
+  timestamp: '2024-01-01T10:00:00.000Z',
+  userInput: {
+    type: 'file_change',
+    filename: name,
+    diff: '+ New line',
+    prompt: 'Feedback please',
+    files: [{ type: 'text', path, name }]
+  },
+  steps: [],
+  isComplete: true
+});
+
+describe('relinkConversationLogs', () => {
+  let files: Map<string, string>;
+  let mockApp: any;
+
+  beforeEach(() => {
+    files = new Map();
+    mockApp = {
+      vault: {
+        adapter: {
+          exists: jest.fn(async (path: string) => path === '.notes-critic/conversations'),
+          list: jest.fn(async () => ({ files: Array.from(files.keys()), folders: [] })),
+          read: jest.fn(async (path: string) => files.get(path)),
+          write: jest.fn(async (path: string, data: string) => { files.set(path, data); })
+        }
+      }
+    };
+  });
+
+  const log = (id: string, conversation: any[]) =>
+    files.set(`.notes-critic/conversations/${id}.json`, JSON.stringify({ id, title: 'Title', conversation }));
+
+  const read = (id: string) => JSON.parse(files.get(`.notes-critic/conversations/${id}.json`)!);
+
+  it('should point feedback turns at the renamed note', async () => {
+    log('conv-1', [feedbackTurn('drafts/essay.md', 'essay')]);
+
+    const rewritten = await relinkConversationLogs(mockApp, '.notes-critic/conversations', 'drafts/essay.md', 'drafts/final.md');
+
+    expect(rewritten).toEqual(['.notes-critic/conversations/conv-1.json']);
+    const userInput = read('conv-1').conversation[0].userInput;
+    expect(userInput.files[0]).toEqual({ type: 'text', path: 'drafts/final.md', name: 'final' });
+    expect(userInput.filename).toBe('final');
+  });
+
+  it('should follow notes inside a moved folder without renaming them', async () => {
+    log('conv-1', [feedbackTurn('drafts/essay.md', 'essay')]);
+
+    await relinkConversationLogs(mockApp, '.notes-critic/conversations', 'drafts', 'archive/drafts');
+
+    const userInput = read('conv-1').conversation[0].userInput;
+    expect(userInput.files[0].path).toBe('archive/drafts/essay.md');
+    expect(userInput.filename).toBe('essay');
+  });
+
+  it('should leave unrelated logs untouched', async () => {
+    log('conv-1', [feedbackTurn('other.md', 'other')]);
+
+    const rewritten = await relinkConversationLogs(mockApp, '.notes-critic/conversations', 'drafts/essay.md', 'drafts/final.md');
+
+    expect(rewritten).toEqual([]);
+    expect(mockApp.vault.adapter.write).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing when there are no logs yet', async () => {
+    mockApp.vault.adapter.exists.mockResolvedValue(false);
+
+    await expect(relinkConversationLogs(mockApp, '.notes-critic/conversations', 'a.md', 'b.md')).resolves.toEqual([]);
+    expect(mockApp.vault.adapter.list).not.toHaveBeenCalled();
+  });
+});
+
+describe('scoresFromConversationLogs', () => {
+  let files: Map<string, string>;
+  let mockApp: any;
+
+  beforeEach(() => {
+    files = new Map();
+    mockApp = {
+      vault: {
+        adapter: {
+          exists: jest.fn(async (path: string) => path === '.notes-critic/conversations'),
+          list: jest.fn(async () => ({ files: Array.from(files.keys()), folders: [] })),
+          read: jest.fn(async (path: string) => files.get(path))
+        }
+      }
+    };
+  });
+
+  const scoredTurn = (id: string, path: string, content: string, extra: any = {}) => ({
+    ...feedbackTurn(path, 'essay'),
+    id,
+    steps: [{ id: 'step-1', content, toolCalls: {}, chunks: [] }],
+    ...extra
+  });
+
+  it('should read the scores of feedback turns', async () => {
+    files.set('.notes-critic/conversations/conv-1.json', JSON.stringify({
+      id: 'conv-1',
+      conversation: [scoredTurn('turn-1', 'drafts/essay.md', 'Good.\n```notes-critic-scores\n{"clarity": 6, "structure": 8}\n```')]
+    }));
+
+    const found = await scoresFromConversationLogs(mockApp, '.notes-critic/conversations');
+
+    expect(found).toEqual([{
+      path: 'drafts/essay.md',
+      score: {
+        reviewedAt: Date.parse('2024-01-01T10:00:00.000Z'),
+        scores: { clarity: 6, structure: 8 },
+        overall: 7,
+        conversationId: 'conv-1',
+        turnId: 'turn-1'
+      }
+    }]);
+  });
+
+  it('should skip unscored, failed and chat turns and unreadable logs', async () => {
+    const scored = '```notes-critic-scores\n{"clarity": 6}\n```';
+    files.set('.notes-critic/conversations/conv-1.json', JSON.stringify({
+      id: 'conv-1',
+      conversation: [
+        scoredTurn('turn-1', 'a.md', 'No scores here.'),
+        scoredTurn('turn-2', 'a.md', scored, { error: 'Aborted' }),
+        scoredTurn('turn-3', 'a.md', scored, { userInput: { type: 'chat_message', message: 'Hi', prompt: 'Hi', files: [{ type: 'text', path: 'a.md' }] } })
+      ]
+    }));
+    files.set('.notes-critic/conversations/broken.json', '{');
+
+    await expect(scoresFromConversationLogs(mockApp, '.notes-critic/conversations')).resolves.toEqual([]);
+  });
+});
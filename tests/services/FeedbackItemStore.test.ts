@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { FeedbackItemStore } from '../../src/services/FeedbackItemStore';
+import { createAdapter, storedRecord } from './mockAdapter';
+import { FeedbackItem } from '../../src/types';
+
+const item = (category: string, explanation: string): FeedbackItem => ({
+  category,
+  severity: 'minor',
+  quote: 'Some text',
+  explanation
+});
+
+describe('FeedbackItemStore', () => {
+  let files: Map<string, string>;
+  let adapter: ReturnType<typeof createAdapter>;
+  let settings: { logPath: string };
+  let store: FeedbackItemStore;
+
+  beforeEach(() => {
+    files = new Map();
+    adapter = createAdapter(files);
+    settings = { logPath: '.notes-critic/conversations' };
+    store = new FeedbackItemStore({ vault: { adapter } } as any, settings);
+  });
+
+  it('should save decisions next to the conversation logs', async () => {
+    await store.set('folder/note.md', item('tone', 'Too casual.'), 'dismissed', ' my voice ');
+
+    expect(adapter.mkdir).toHaveBeenCalledWith('.notes-critic/conversations/feedback');
+    const record = storedRecord(files, 'folder/note.md');
+    expect(record.path).toBe('folder/note.md');
+    expect(record.decisions).toMatchObject([{ status: 'dismissed', reason: 'my voice', item: { category: 'tone' } }]);
+  });
+
+  it('should replace an earlier decision on the same item', async () => {
+    const tone = item('tone', 'Too casual.');
+    await store.set('note.md', tone, 'deferred');
+    await store.set('note.md', { ...tone, severity: 'major' }, 'accepted', 'ignored reason');
+
+    expect(store.list('note.md')).toHaveLength(1);
+    expect(store.get('note.md', tone)).toMatchObject({ status: 'accepted' });
+    expect(store.get('note.md', tone)?.reason).toBeUndefined();
+    expect(store.get('note.md', item('tone', 'Too formal.'))).toBeUndefined();
+  });
+
+  it('should list only dismissed items as dismissed', async () => {
+    await store.set('note.md', item('tone', 'Too casual.'), 'dismissed');
+    await store.set('note.md', item('clarity', 'Unclear.'), 'accepted');
+    await store.set('note.md', item('style', 'Wordy.'), 'deferred');
+
+    expect(store.dismissed('note.md').map(decision => decision.item.category)).toEqual(['tone']);
+  });
+
+  it('should clear a decision, and the record with the last one', async () => {
+    const tone = item('tone', 'Too casual.');
+    await store.set('note.md', tone, 'dismissed');
+
+    await store.clear('note.md', tone);
+
+    expect(store.list('note.md')).toEqual([]);
+    expect(store.notePaths()).toEqual([]);
+    expect(storedRecord(files, 'note.md')).toBeUndefined();
+  });
+
+  it('should restore decisions in a new session', async () => {
+    const decision = await store.set('note.md', item('tone', 'Too casual.'), 'dismissed', 'my voice');
+
+    const restored = new FeedbackItemStore({ vault: { adapter } } as any, settings);
+    await restored.load();
+
+    expect(restored.list('note.md')).toEqual([decision]);
+  });
+
+  it('should count dismissed categories across notes, most dismissed first', async () => {
+    await store.set('a.md', item('tone', 'Too casual.'), 'dismissed');
+    await store.set('a.md', item('style', 'Wordy.'), 'dismissed');
+    await store.set('b.md', item('tone', 'Slangy.'), 'dismissed');
+    await store.set('b.md', item('clarity', 'Unclear.'), 'accepted');
+    await store.set('c.md', item('accuracy', 'Wrong date.'), 'dismissed');
+
+    expect(store.dismissedCategories(['a.md', 'b.md'])).toEqual([
+      { category: 'tone', count: 2 },
+      { category: 'style', count: 1 }
+    ]);
+  });
+
+  it('should move decisions when their note or folder is renamed', async () => {
+    await store.set('drafts/a.md', item('tone', 'Too casual.'), 'dismissed');
+    await store.set('drafts-other.md', item('tone', 'Too casual.'), 'dismissed');
+
+    await store.rename('drafts', 'archive/drafts');
+
+    expect(store.list('drafts/a.md')).toEqual([]);
+    expect(storedRecord(files, 'drafts/a.md')).toBeUndefined();
+    expect(store.dismissed('archive/drafts/a.md')).toHaveLength(1);
+    expect(store.list('drafts-other.md')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,97 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { listFormat, NoteRecordStore } from '../../src/services/NoteRecordStore';
+import { createAdapter, storedRecord } from './mockAdapter';
+
+describe('NoteRecordStore', () => {
+  let files: Map<string, string>;
+  let adapter: ReturnType<typeof createAdapter>;
+  let store: NoteRecordStore<string[]>;
+
+  const create = () => new NoteRecordStore({ vault: { adapter } } as any, listFormat<string>('note tags', 'tags', () => '.notes-critic/tags'));
+
+  beforeEach(() => {
+    files = new Map();
+    adapter = createAdapter(files);
+    store = create();
+  });
+
+  it('should write each note to its own file', async () => {
+    await store.save('folder/note.md', ['a', 'b']);
+
+    expect(storedRecord(files, 'folder/note.md')).toEqual({ path: 'folder/note.md', tags: ['a', 'b'] });
+    expect(store.get('folder/note.md')).toEqual(['a', 'b']);
+  });
+
+  it('should name files by a hash of the path, so long paths fit', async () => {
+    const path = `${'深い/'.repeat(40)}ノート.md`;
+    await store.save(path, ['a']);
+    await store.save('note.md', ['b']);
+
+    const names = Array.from(files.keys()).map(file => file.slice('.notes-critic/tags/'.length));
+    expect(names).toHaveLength(2);
+    names.forEach(name => expect(name).toMatch(/^[0-9a-f]{16}\.json$/));
+    expect(storedRecord(files, path)).toEqual({ path, tags: ['a'] });
+  });
+
+  it('should move files named after their note to hashed names', async () => {
+    files.set('.notes-critic/tags/folder%2Fnote.md.json', JSON.stringify({ path: 'folder/note.md', tags: ['a'] }));
+
+    await store.load();
+
+    expect(store.get('folder/note.md')).toEqual(['a']);
+    expect(files.has('.notes-critic/tags/folder%2Fnote.md.json')).toBe(false);
+    expect(Array.from(files.keys())).toEqual([expect.stringMatching(/^\.notes-critic\/tags\/[0-9a-f]{16}\.json$/)]);
+    expect(storedRecord(files, 'folder/note.md')).toEqual({ path: 'folder/note.md', tags: ['a'] });
+  });
+
+  it('should remove the file of a note whose record is empty', async () => {
+    await store.save('note.md', ['a']);
+    await store.save('note.md', []);
+
+    expect(files.size).toBe(0);
+    expect(store.paths()).toEqual([]);
+  });
+
+  it('should skip records that are unreadable or not in the format', async () => {
+    files.set('.notes-critic/tags/broken.json', '{not json');
+    files.set('.notes-critic/tags/other.json', JSON.stringify({ path: 'other.md', tags: 'a' }));
+    files.set('.notes-critic/tags/note.json', JSON.stringify({ path: 'note.md', tags: ['a'] }));
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+
+    await store.load();
+
+    expect(store.entries()).toEqual([['note.md', ['a']]]);
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Error reading note tags'), expect.anything());
+    consoleSpy.mockRestore();
+  });
+
+  it('should remove the records of every note inside a folder', async () => {
+    await store.save('folder/a.md', ['a']);
+    await store.save('folder/b.md', ['b']);
+    await store.save('folderish.md', ['c']);
+
+    await store.remove('folder');
+
+    expect(store.paths()).toEqual(['folderish.md']);
+    expect(files.size).toBe(1);
+    expect(storedRecord(files, 'folderish.md')).toBeDefined();
+  });
+
+  it('should combine moved records with any already at the new path', async () => {
+    await store.save('old/note.md', ['a']);
+    await store.save('new/note.md', ['b']);
+
+    const moved = await store.rename('old', 'new', (tags, movedTo, existing = []) => [...existing, ...tags]);
+
+    expect(moved).toEqual(['new/note.md']);
+    expect(store.get('new/note.md')).toEqual(['b', 'a']);
+    expect(storedRecord(files, 'old/note.md')).toBeUndefined();
+  });
+
+  it('should write files one at a time', async () => {
+    await Promise.all([store.save('a.md', ['a']), store.save('b.md', ['b'])]);
+
+    expect(adapter.mkdir).toHaveBeenCalledTimes(1);
+    expect(files.size).toBe(2);
+  });
+});
@@ -0,0 +1,89 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { ScoreStore } from '../../src/services/ScoreStore';
+import { createAdapter, storedRecord } from './mockAdapter';
+import { NoteScore } from '../../src/types';
+
+const score = (reviewedAt: number, overall: number, turnId?: string): NoteScore => ({
+  reviewedAt,
+  scores: { clarity: overall },
+  overall,
+  ...(turnId && { conversationId: 'conv-1', turnId })
+});
+
+describe('ScoreStore', () => {
+  let files: Map<string, string>;
+  let adapter: ReturnType<typeof createAdapter>;
+  let store: ScoreStore;
+
+  beforeEach(() => {
+    files = new Map();
+    adapter = createAdapter(files);
+    store = new ScoreStore({ vault: { adapter } } as any, { logPath: '.notes-critic/conversations' });
+  });
+
+  it('should save scores next to the conversation logs', async () => {
+    await store.add('folder/note.md', score(1000, 6, 'turn-1'));
+
+    expect(adapter.mkdir).toHaveBeenCalledWith('.notes-critic/conversations/scores');
+    const record = storedRecord(files, 'folder/note.md');
+    expect(record).toEqual({ path: 'folder/note.md', scores: [score(1000, 6, 'turn-1')] });
+  });
+
+  it('should keep scores in review order and replace a re-recorded review', async () => {
+    await store.add('note.md', score(2000, 7, 'turn-2'));
+    await store.add('note.md', score(1000, 5, 'turn-1'));
+    await store.add('note.md', score(2000, 8, 'turn-2'));
+
+    expect(store.list('note.md').map(s => s.overall)).toEqual([5, 8]);
+    expect(store.latest('note.md')?.overall).toBe(8);
+    expect(store.latest('other.md')).toBeUndefined();
+  });
+
+  it('should import only reviews that are not recorded yet', async () => {
+    await store.add('note.md', score(1000, 5, 'turn-1'));
+
+    const added = await store.import([
+      { path: 'note.md', score: score(1000, 9, 'turn-1') },
+      { path: 'note.md', score: score(3000, 7, 'turn-3') },
+      { path: 'other.md', score: score(2000, 4) }
+    ]);
+
+    expect(added).toBe(2);
+    expect(store.list('note.md').map(s => s.overall)).toEqual([5, 7]);
+    expect(store.all().get('other.md')).toEqual([score(2000, 4)]);
+  });
+
+  it('should load scores saved earlier', async () => {
+    await store.add('note.md', score(1000, 5));
+
+    const reloaded = new ScoreStore({ vault: { adapter } } as any, { logPath: '.notes-critic/conversations' });
+    await reloaded.load();
+
+    expect(reloaded.list('note.md')).toEqual([score(1000, 5)]);
+  });
+
+  it('should move scores with a renamed folder and tell listeners', async () => {
+    const listener = jest.fn();
+    store.addListener(listener);
+    await store.add('drafts/note.md', score(1000, 5));
+    listener.mockClear();
+
+    await store.rename('drafts', 'archive');
+
+    expect(store.list('drafts/note.md')).toEqual([]);
+    expect(store.list('archive/note.md')).toEqual([score(1000, 5)]);
+    expect(storedRecord(files, 'drafts/note.md')).toBeUndefined();
+    expect(storedRecord(files, 'archive/note.md')).toBeDefined();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop telling a listener once it is removed', async () => {
+    const listener = jest.fn();
+    const remove = store.addListener(listener);
+    remove();
+
+    await store.add('note.md', score(1000, 5));
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { SnapshotStore } from '../../src/services/SnapshotStore';
+import { createAdapter, storedRecord } from './mockAdapter';
+
+describe('SnapshotStore', () => {
+  let files: Map<string, string>;
+  let adapter: ReturnType<typeof createAdapter>;
+  let settings: { snapshotPath: string };
+  let store: SnapshotStore;
+
+  beforeEach(() => {
+    files = new Map();
+    adapter = createAdapter(files);
+    settings = { snapshotPath: '.notes-critic/snapshots' };
+    store = new SnapshotStore({ vault: { adapter } } as any, settings);
+  });
+
+  it('should write one record per note under the snapshot path', async () => {
+    await store.saveBaseline('folder/note.md', 'Reviewed content');
+
+    expect(adapter.mkdir).toHaveBeenCalledWith('.notes-critic/snapshots');
+    const record = storedRecord(files, 'folder/note.md');
+    expect(record.path).toBe('folder/note.md');
+    expect(record.baseline).toBe('Reviewed content');
+  });
+
+  it('should restore baselines and feedback times in a new session', async () => {
+    const feedbackTime = new Date('2024-01-01T10:00:00Z');
+    await store.saveBaseline('note.md', 'Reviewed content');
+    await store.saveFeedbackTime('note.md', feedbackTime);
+
+    const restored = new SnapshotStore({ vault: { adapter } } as any, settings);
+    await restored.load();
+
+    expect(restored.get('note.md')?.baseline).toBe('Reviewed content');
+    expect(restored.getLastFeedbackTime('note.md')).toEqual(feedbackTime);
+  });
+
+  it('should keep the baseline when recording a feedback time', async () => {
+    await store.saveBaseline('note.md', 'Reviewed content');
+    await store.saveFeedbackTime('note.md', new Date());
+
+    expect(store.get('note.md')?.baseline).toBe('Reviewed content');
+  });
+
+  it('should not store a baseline when only a feedback time is known', async () => {
+    await store.saveFeedbackTime('note.md', new Date());
+
+    const record = storedRecord(files, 'note.md');
+    expect(record).not.toHaveProperty('baseline');
+    expect(store.get('note.md')?.baseline).toBeUndefined();
+  });
+
+  it('should write one save at a time', async () => {
+    await Promise.all([
+      store.saveBaseline('a.md', 'A'),
+      store.saveBaseline('b.md', 'B'),
+      store.saveFeedbackTime('a.md', new Date())
+    ]);
+
+    expect(adapter.mkdir).toHaveBeenCalledTimes(1);
+    expect(storedRecord(files, 'a.md')).toMatchObject({ baseline: 'A', lastFeedbackTime: expect.any(Number) });
+  });
+
+  it('should load nothing when the snapshot directory does not exist', async () => {
+    await store.load();
+
+    expect(store.get('note.md')).toBeUndefined();
+    expect(adapter.list).not.toHaveBeenCalled();
+  });
+
+  it('should skip unreadable records', async () => {
+    files.set('.notes-critic/snapshots/broken.json', '{not json');
+    await store.saveBaseline('note.md', 'Content');
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+
+    const restored = new SnapshotStore({ vault: { adapter } } as any, settings);
+    await restored.load();
+
+    expect(restored.get('note.md')?.baseline).toBe('Content');
+    expect(consoleSpy).toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+
+  it('should remove the record for a deleted note', async () => {
+    await store.saveBaseline('note.md', 'Content');
+
+    await store.remove('note.md');
+
+    expect(store.get('note.md')).toBeUndefined();
+    expect(storedRecord(files, 'note.md')).toBeUndefined();
+  });
+
+  it('should remove the records for every note inside a deleted folder', async () => {
+    await store.saveBaseline('folder/a.md', 'A');
+    await store.saveBaseline('folder/sub/b.md', 'B');
+    await store.saveBaseline('folder-other.md', 'C');
+
+    await store.remove('folder');
+
+    expect(store.get('folder/a.md')).toBeUndefined();
+    expect(store.get('folder/sub/b.md')).toBeUndefined();
+    expect(store.get('folder-other.md')).toBeDefined();
+  });
+
+  it('should move a record when its note is renamed', async () => {
+    const feedbackTime = new Date('2024-01-01T10:00:00Z');
+    await store.saveBaseline('old.md', 'Reviewed');
+    await store.saveFeedbackTime('old.md', feedbackTime);
+
+    await store.rename('old.md', 'folder/new.md');
+
+    expect(store.get('old.md')).toBeUndefined();
+    expect(storedRecord(files, 'old.md')).toBeUndefined();
+    const record = storedRecord(files, 'folder/new.md');
+    expect(record).toMatchObject({ path: 'folder/new.md', baseline: 'Reviewed', lastFeedbackTime: feedbackTime.getTime() });
+  });
+
+  it('should move the records of notes inside a renamed folder', async () => {
+    await store.saveBaseline('drafts/a.md', 'A');
+
+    await store.rename('drafts', 'archive/drafts');
+
+    expect(store.get('archive/drafts/a.md')?.baseline).toBe('A');
+    expect(store.get('drafts/a.md')).toBeUndefined();
+  });
+
+  it('should prune records for notes that no longer exist', async () => {
+    await store.saveBaseline('kept.md', 'Kept');
+    await store.saveBaseline('gone.md', 'Gone');
+
+    const pruned = await store.prune(path => path === 'kept.md');
+
+    expect(pruned).toEqual(['gone.md']);
+    expect(store.get('kept.md')).toBeDefined();
+    expect(storedRecord(files, 'gone.md')).toBeUndefined();
+  });
+});
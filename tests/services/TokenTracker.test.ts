@@ -85,6 +85,28 @@ describe('TokenTracker', () => {
     });
   });
 
+  describe('per-critic usage', () => {
+    it('should attribute usage to critics within the conversation totals', () => {
+      tokenTracker.addUsage('conv-1', { inputTokens: 100, outputTokens: 200, totalTokens: 300 }, 'fact checker');
+      tokenTracker.addUsage('conv-1', { inputTokens: 10, outputTokens: 20, totalTokens: 30 }, 'copy editor');
+      tokenTracker.addUsage('conv-1', { inputTokens: 1, outputTokens: 2, totalTokens: 3 }, 'copy editor');
+      tokenTracker.addUsage('conv-1', { inputTokens: 5, outputTokens: 5, totalTokens: 10 });
+
+      expect(tokenTracker.getConversationTokens('conv-1')!.totalTokens).toBe(343);
+      expect(tokenTracker.getCriticTokens('conv-1')).toEqual([
+        { critic: 'fact checker', usage: { inputTokens: 100, outputTokens: 200, totalTokens: 300 } },
+        { critic: 'copy editor', usage: { inputTokens: 11, outputTokens: 22, totalTokens: 33 } }
+      ]);
+    });
+
+    it('should have no critic usage for single-critic conversations', () => {
+      tokenTracker.addUsage('conv-1', { inputTokens: 5, outputTokens: 5, totalTokens: 10 });
+
+      expect(tokenTracker.getCriticTokens('conv-1')).toEqual([]);
+      expect(tokenTracker.getCriticTokens('missing')).toEqual([]);
+    });
+  });
+
   describe('clearConversation', () => {
     it('should remove conversation from tracking', () => {
       const usage: TokenUsage = { inputTokens: 100, outputTokens: 200, totalTokens: 300 };
@@ -0,0 +1,28 @@
+import { jest } from '@jest/globals';
+
+/** A vault adapter over a map of file paths to contents, for the stores that keep JSON files. */
+export const createAdapter = (files: Map<string, string>) => ({
+  exists: jest.fn(async (path: string) =>
+    files.has(path) || Array.from(files.keys()).some(file => file.startsWith(`${path}/`))),
+  mkdir: jest.fn(async () => undefined),
+  read: jest.fn(async (path: string) => files.get(path) ?? ''),
+  write: jest.fn(async (path: string, data: string) => { files.set(path, data); }),
+  remove: jest.fn(async (path: string) => { files.delete(path); }),
+  list: jest.fn(async (path: string) => ({
+    files: Array.from(files.keys()).filter(file => file.startsWith(`${path}/`)),
+    folders: []
+  }))
+});
+
+/** The stored record of a note, found by the path it holds since files are named by a hash. */
+export const storedRecord = (files: Map<string, string>, path: string): any => {
+  for (const content of Array.from(files.values())) {
+    try {
+      const record = JSON.parse(content);
+      if (record?.path === path) return record;
+    } catch {
+      // Not a record
+    }
+  }
+  return undefined;
+};
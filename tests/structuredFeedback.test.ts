@@ -0,0 +1,212 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  FEEDBACK_ITEM_SCHEMA,
+  MAX_DISMISSED_IN_PROMPT,
+  STRUCTURED_FEEDBACK_SCHEMA,
+  feedbackAnnotations,
+  feedbackItemKey,
+  feedbackScore,
+  formatDismissedFeedback,
+  isStructuredFeedback,
+  parseStructuredFeedback,
+  sortFeedbackItems,
+  structuredFeedbackSchema,
+  validateSchema,
+  wantsStructuredFeedback
+} from '../src/structuredFeedback';
+import { DEFAULT_SETTINGS } from '../src/constants';
+import { ConversationTurn, FeedbackItem, FeedbackItemDecision, UserInput } from '../src/types';
+
+const item = (overrides: Partial<FeedbackItem> = {}) => ({
+  category: 'clarity',
+  severity: 'major',
+  quote: 'It was good.',
+  explanation: 'Vague; say what was good.',
+  suggestedReplacement: null,
+  ...overrides
+});
+
+const reply = (items: unknown[]) => JSON.stringify({ items });
+
+describe('structuredFeedback', () => {
+  describe('validateSchema', () => {
+    it('should accept a complete item', () => {
+      expect(validateSchema(item(), FEEDBACK_ITEM_SCHEMA)).toEqual([]);
+    });
+
+    it('should report wrong types, unknown severities and missing or extra fields', () => {
+      const { explanation, ...withoutExplanation } = item();
+      expect(explanation).toBeDefined();
+
+      expect(validateSchema(item({ quote: 3 as any }), FEEDBACK_ITEM_SCHEMA)).toEqual(['$.quote should be string']);
+      expect(validateSchema(item({ severity: 'blocker' as any }), FEEDBACK_ITEM_SCHEMA))
+        .toEqual(['$.severity should be one of critical, major, minor, suggestion']);
+      expect(validateSchema(withoutExplanation, FEEDBACK_ITEM_SCHEMA)).toEqual(['$.explanation is missing']);
+      expect(validateSchema({ ...item(), line: 4 }, FEEDBACK_ITEM_SCHEMA)).toEqual(['$.line is not allowed']);
+      expect(validateSchema('text', FEEDBACK_ITEM_SCHEMA)).toEqual(['$ should be object']);
+    });
+  });
+
+  describe('structuredFeedbackSchema', () => {
+    it('should ask for a score on each rubric criterion', () => {
+      const schema = structuredFeedbackSchema(['clarity', 'structure']);
+
+      expect(schema.required).toEqual(['items', 'scores']);
+      const scores = { items: [], scores: [{ criterion: 'clarity', score: 7 }] };
+      expect(validateSchema(scores, schema)).toEqual([]);
+      expect(validateSchema({ items: [], scores: [{ criterion: 'tone', score: 7 }] }, schema))
+        .toEqual(['$.scores[0].criterion should be one of clarity, structure']);
+      expect(validateSchema({ items: [], scores: [{ criterion: 'clarity', score: 7.5 }] }, schema))
+        .toEqual(['$.scores[0].score should be integer']);
+    });
+
+    it('should leave scores out without a rubric', () => {
+      expect(structuredFeedbackSchema([])).toBe(STRUCTURED_FEEDBACK_SCHEMA);
+    });
+  });
+
+  describe('parseStructuredFeedback', () => {
+    it('should read valid items and drop empty replacements', () => {
+      const feedback = parseStructuredFeedback(reply([item(), item({ suggestedReplacement: 'It was well paced.' })]));
+
+      expect(feedback?.errors).toEqual([]);
+      expect(feedback?.items).toEqual([
+        { category: 'clarity', severity: 'major', quote: 'It was good.', explanation: 'Vague; say what was good.' },
+        { category: 'clarity', severity: 'major', quote: 'It was good.', explanation: 'Vague; say what was good.', suggestedReplacement: 'It was well paced.' }
+      ]);
+    });
+
+    it('should leave out invalid items and report why', () => {
+      const feedback = parseStructuredFeedback(reply([item({ severity: 'urgent' as any }), item({ explanation: '  ' }), item()]));
+
+      expect(feedback?.items).toHaveLength(1);
+      expect(feedback?.errors).toEqual([
+        'items[0].severity should be one of critical, major, minor, suggestion',
+        'items[1] has no explanation'
+      ]);
+    });
+
+    it('should accept items without a replacement and normalise categories', () => {
+      const { suggestedReplacement, ...withoutReplacement } = item({ category: ' Style ' });
+      expect(suggestedReplacement).toBeNull();
+
+      expect(parseStructuredFeedback(reply([withoutReplacement]))?.items).toEqual([
+        expect.objectContaining({ category: 'style' })
+      ]);
+    });
+
+    it('should return null for free-form or incomplete replies', () => {
+      expect(parseStructuredFeedback('The draft reads well.')).toBeNull();
+      expect(parseStructuredFeedback('{"items": [{"category": "cla')).toBeNull();
+      expect(parseStructuredFeedback('{"items": "none"}')).toBeNull();
+      expect(isStructuredFeedback('{"items": [{"category": "cla')).toBe(true);
+      expect(isStructuredFeedback('Here is {"items": []}')).toBe(false);
+    });
+  });
+
+  describe('sortFeedbackItems', () => {
+    const items = [
+      item({ category: 'style', severity: 'minor', quote: 'a' }),
+      item({ category: 'accuracy', severity: 'critical', quote: 'b' }),
+      item({ category: 'style', severity: 'suggestion', quote: 'c' }),
+      item({ category: 'clarity', severity: 'critical', quote: 'd' })
+    ] as FeedbackItem[];
+    const quotes = (sorted: FeedbackItem[]) => sorted.map(i => i.quote);
+
+    it('should keep note order', () => {
+      expect(quotes(sortFeedbackItems(items, 'note'))).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('should sort by severity, most severe first, keeping note order for ties', () => {
+      expect(quotes(sortFeedbackItems(items, 'severity'))).toEqual(['b', 'd', 'a', 'c']);
+    });
+
+    it('should sort by category', () => {
+      expect(quotes(sortFeedbackItems(items, 'category'))).toEqual(['b', 'd', 'a', 'c']);
+      expect(quotes(items)).toEqual(['a', 'b', 'c', 'd']);
+    });
+  });
+
+  describe('feedbackAnnotations', () => {
+    it('should turn quoted items into comments with their suggestion', () => {
+      const items = [
+        item({ suggestedReplacement: 'It was well paced.' }),
+        item({ quote: '', explanation: 'Needs a conclusion.' }),
+        item({ quote: 'Second', explanation: 'Too short.' })
+      ].map(i => parseStructuredFeedback(reply([i]))!.items[0]);
+
+      expect(feedbackAnnotations(items)).toEqual([
+        { quote: 'It was good.', comment: 'Vague; say what was good.\nSuggested: It was well paced.' },
+        { quote: 'Second', comment: 'Too short.' }
+      ]);
+    });
+  });
+
+  describe('feedbackScore', () => {
+    it('should take more off for more severe issues', () => {
+      const issue = (severity: FeedbackItem['severity']): FeedbackItem => ({ category: 'clarity', severity, quote: '', explanation: 'x' });
+
+      expect(feedbackScore([])).toBe(100);
+      expect(feedbackScore([issue('major'), issue('minor'), issue('suggestion')])).toBe(86);
+      expect(feedbackScore(Array.from({ length: 5 }, () => issue('critical')))).toBe(0);
+    });
+  });
+
+  describe('wantsStructuredFeedback', () => {
+    const turn = (userInput: UserInput): ConversationTurn[] => [
+      { id: '1', timestamp: new Date(), userInput, steps: [], isComplete: false }
+    ];
+    const fileChange = turn({ type: 'file_change', filename: 'note', diff: '', prompt: 'Review' });
+    const chat = turn({ type: 'chat_message', message: 'Why?', prompt: 'Why?' });
+
+    it('should only apply to feedback on notes when enabled', () => {
+      const settings = { ...DEFAULT_SETTINGS, structuredFeedback: true };
+
+      expect(wantsStructuredFeedback(settings, fileChange)).toBe(true);
+      expect(wantsStructuredFeedback(settings, chat)).toBe(false);
+      expect(wantsStructuredFeedback({ ...settings, structuredFeedback: false }, fileChange)).toBe(false);
+      expect(wantsStructuredFeedback(settings, [])).toBe(false);
+    });
+  });
+
+  describe('dismissed feedback', () => {
+    const dismissal = (item: FeedbackItem, decidedAt: number, reason?: string): FeedbackItemDecision => ({
+      key: feedbackItemKey(item),
+      status: 'dismissed',
+      ...(reason && { reason }),
+      item,
+      decidedAt
+    });
+    const tone: FeedbackItem = { category: 'tone', severity: 'minor', quote: 'Honestly,', explanation: 'Too casual.' };
+    const length: FeedbackItem = { category: 'structure', severity: 'major', quote: '', explanation: 'The note is too long.' };
+
+    it('should key items by what they say, not how severe they are', () => {
+      expect(feedbackItemKey(tone)).toBe(feedbackItemKey({ ...tone, severity: 'critical', quote: ' Honestly, ' }));
+      expect(feedbackItemKey(tone)).not.toBe(feedbackItemKey({ ...tone, explanation: 'Too informal.' }));
+    });
+
+    it('should list dismissed items, most recent first, with their reasons', () => {
+      const section = formatDismissedFeedback([dismissal(tone, 1, 'my voice'), dismissal(length, 2)]);
+
+      expect(section).toContain('Do not repeat');
+      expect(section.split('\n').slice(1)).toEqual([
+        '- [structure] The note is too long.',
+        '- [tone] "Honestly,": Too casual. (dismissed because: my voice)'
+      ]);
+    });
+
+    it('should leave out the oldest dismissals past the limit', () => {
+      const dismissals = Array.from({ length: MAX_DISMISSED_IN_PROMPT + 5 }, (_, i) =>
+        dismissal({ ...tone, explanation: `Point ${i}` }, i));
+
+      const lines = formatDismissedFeedback(dismissals).split('\n').slice(1);
+
+      expect(lines).toHaveLength(MAX_DISMISSED_IN_PROMPT);
+      expect(lines[0]).toContain(`Point ${MAX_DISMISSED_IN_PROMPT + 4}`);
+    });
+
+    it('should be empty when nothing was dismissed', () => {
+      expect(formatDismissedFeedback([])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import { fuzzyFind, planEdits } from '../src/suggestions';
+import { FeedbackItem } from '../src/types';
+
+const item = (quote: string, suggestedReplacement?: string): FeedbackItem => ({
+  category: 'clarity',
+  severity: 'minor',
+  quote,
+  explanation: 'Could be clearer.',
+  ...(suggestedReplacement !== undefined && { suggestedReplacement })
+});
+
+const note = 'The results were good. We think the method works.\n\nNext we will test it more.';
+
+describe('suggestions', () => {
+  describe('fuzzyFind', () => {
+    it('should find text with a few changed characters', () => {
+      const found = fuzzyFind(note, 'We think the methd works');
+
+      expect(found).toMatchObject({ distance: 1 });
+      expect(note.slice(found!.from, found!.to)).toBe('We think the method works');
+    });
+
+    it('should give up when too much differs', () => {
+      expect(fuzzyFind(note, 'Our approach clearly succeeds')).toBeNull();
+      expect(fuzzyFind(note, '')).toBeNull();
+    });
+  });
+
+  describe('planEdits', () => {
+    it('should replace exact quotes', () => {
+      const plan = planEdits('note.md', note, [
+        item('The results were good.', 'The results beat the baseline by 4%.'),
+        item('test it more', 'run it on the full dataset')
+      ]);
+
+      expect(plan.skipped).toEqual([]);
+      expect(plan.edits.map(edit => edit.fuzzy)).toEqual([false, false]);
+      expect(plan.after).toBe('The results beat the baseline by 4%. We think the method works.\n\nNext we will run it on the full dataset.');
+      expect(plan.before).toBe(note);
+    });
+
+    it('should match quotes that changed slightly and flag them', () => {
+      const plan = planEdits('note.md', note, [
+        item('The results  were\ngood.', 'The results were strong.'),
+        item('We thinks the method work.', 'The method works.')
+      ]);
+
+      expect(plan.edits.map(edit => [edit.oldStr, edit.fuzzy])).toEqual([
+        ['The results were good.', true],
+        ['We think the method works.', true]
+      ]);
+      expect(plan.after).toBe('The results were strong. The method works.\n\nNext we will test it more.');
+    });
+
+    it('should skip items it cannot place, with a reason', () => {
+      const plan = planEdits('note.md', 'It is good. It is good.', [
+        item('It is good.', 'It works.'),
+        item('Something else entirely', 'x'),
+        item('It is', undefined),
+        item('', 'A new title')
+      ]);
+
+      expect(plan.edits).toEqual([]);
+      expect(plan.skipped.map(skipped => skipped.reason)).toEqual([
+        'the quote appears 2 times in the note',
+        'the quoted text is no longer in the note',
+        'there is no suggested replacement',
+        'it is about the note as a whole'
+      ]);
+      expect(plan.after).toBe(plan.before);
+    });
+
+    it('should skip suggestions that overlap an earlier one', () => {
+      const plan = planEdits('note.md', note, [
+        item('We think the method works.', 'The method works.'),
+        item('the method', 'our method')
+      ]);
+
+      expect(plan.edits).toHaveLength(1);
+      expect(plan.skipped).toEqual([expect.objectContaining({ reason: 'it overlaps another suggestion' })]);
+    });
+  });
+});